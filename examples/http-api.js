@@ -0,0 +1,20 @@
+const { Reshuffle, HttpConnector } = require('reshuffle')
+const { EIDRConnector, EIDRRouter } = require('reshuffle-eidr-connector')
+
+const app = new Reshuffle()
+const eidr = new EIDRConnector(app)
+const http = new HttpConnector(app)
+
+// Serves /eidr/resolve/:id, /eidr/query, /eidr/hierarchy/:id and
+// /eidr/graph/:id/:traversal. Queries must be authorized with an
+// Authorization: Eidr <userId>:<partyId>:<shadow> header as we didn't
+// set credentials upon connector initialization
+const router = new EIDRRouter(eidr, { prefix: '/eidr' })
+
+for (const method of ['GET', 'POST']) {
+  http.on({ method, path: '/eidr/*' }, (event) => {
+    return router.handle(event.req, event.res)
+  })
+}
+
+app.start(8000)
@@ -0,0 +1,197 @@
+import { mod37x36 } from './validate'
+import { AlternateIDValue } from './registration'
+import { JsonQuery } from './jsonQuery'
+import { AlternateID } from './models'
+
+// Reverse lookup of EIDR records by alternate ID. Known alternate ID
+// types are normalized to the form stored in the registry, so partner
+// IDs match regardless of formatting:
+//
+//   IMDB   tt0076759, 0076759, https://www.imdb.com/title/tt0076759/
+//          => tt0076759
+//   ISAN   ISAN 0000-0000-D07A-0090-Q-0000-0000-X, 00000000D07A0090
+//          => 0000-0000-D07A-0090-Q (with the version, if any)
+//   TRIB   mv000123450000 => MV000123450000 (Gracenote TMS ID)
+//
+// Other types, including Proprietary IDs, are only trimmed.
+
+export interface AlternateIdLookup {
+  type: string
+  value: string
+  // Required for Proprietary IDs
+  domain?: string
+}
+
+export interface AlternateIdMatch {
+  id: string
+  // The alternate ID of the record that matched
+  alternateId: AlternateIDValue
+}
+
+export interface AlternateIdResult extends AlternateIdLookup {
+  // The matching EIDR ID, if there is exactly one
+  id?: string
+  ids: string[]
+  // Set if more than one record has the alternate ID
+  ambiguous: boolean
+  matches: AlternateIdMatch[]
+  // Set by batch lookups if the lookup failed
+  error?: string
+}
+
+// Type aliases, compared in lower case
+const typeAliases: Record<string, string> = {
+  imdb: 'IMDB',
+  isan: 'ISAN',
+  trib: 'TRIB',
+  tms: 'TRIB',
+  gracenote: 'TRIB',
+  proprietary: 'Proprietary',
+}
+
+export function normalizeAlternateIdType(type: string): string {
+  if (typeof type !== 'string' || type.trim().length === 0) {
+    throw new Error('Alternate ID type is required')
+  }
+  const trimmed = type.trim()
+  return typeAliases[trimmed.toLowerCase()] || trimmed
+}
+
+const imdbUrl = /^https?:\/\/(?:www\.|m\.)?imdb\.com\/title\/(tt\d+)\/?$/i
+
+function normalizeImdb(value: string) {
+  const url = imdbUrl.exec(value)
+  const match = /^(?:tt)?(\d+)$/i.exec(url ? url[1] : value)
+  if (!match) {
+    throw new Error(`Invalid IMDb title ID: ${value}`)
+  }
+  const digits = match[1].replace(/^0+/, '')
+  return `tt${'0000000'.substring(digits.length)}${digits}`
+}
+
+function isanGroups(digits: string) {
+  return (digits.match(/.{4}/g) || []).join('-')
+}
+
+// ISAN root and episode (16 hex digits) are followed by a check
+// character, and the optional version (8 hex digits) by a second check
+// character computed over all 24 digits. Check characters are either
+// all present or all omitted
+const isanFormats: Record<number, RegExp> = {
+  16: /^([0-9A-F]{16})()$/,
+  17: /^([0-9A-F]{16})([0-9A-Z])$/,
+  24: /^([0-9A-F]{16})()([0-9A-F]{8})()$/,
+  26: /^([0-9A-F]{16})([0-9A-Z])([0-9A-F]{8})([0-9A-Z])$/,
+}
+
+function normalizeIsan(value: string) {
+  const str = value.toUpperCase().replace(/^ISAN/, '').replace(/[\s-]/g, '')
+  const format = isanFormats[str.length]
+  const match = format && format.exec(str)
+  if (!match) {
+    throw new Error(`Invalid ISAN: ${value}`)
+  }
+  const [, work, workCheck, version, versionCheck] = match
+  const check1 = mod37x36(work)
+  if (workCheck && workCheck !== check1) {
+    throw new Error(`Invalid ISAN check character: ${value}`)
+  }
+  let isan = `${isanGroups(work)}-${check1}`
+  if (version !== undefined) {
+    const check2 = mod37x36(work + version)
+    if (versionCheck && versionCheck !== check2) {
+      throw new Error(`Invalid ISAN check character: ${value}`)
+    }
+    isan += `-${isanGroups(version)}-${check2}`
+  }
+  return isan
+}
+
+export function normalizeAlternateId(
+  lookup: AlternateIdLookup,
+): AlternateIdLookup {
+  const type = normalizeAlternateIdType(lookup.type)
+  if (typeof lookup.value !== 'string' || lookup.value.trim().length === 0) {
+    throw new Error('Alternate ID value is required')
+  }
+  const trimmed = lookup.value.trim()
+  const domain = lookup.domain === undefined ?
+    undefined :
+    lookup.domain.trim()
+  if (type === 'Proprietary' && !domain) {
+    throw new Error('Proprietary alternate IDs require a domain')
+  }
+
+  let value: string
+  switch (type) {
+  case 'IMDB':
+    value = normalizeImdb(trimmed)
+    break
+  case 'ISAN':
+    value = normalizeIsan(trimmed)
+    break
+  case 'TRIB':
+    value = trimmed.toUpperCase()
+    break
+  default:
+    value = trimmed
+  }
+  return { type, value, ...(domain ? { domain } : {}) }
+}
+
+export function buildAlternateIdQuery(lookup: AlternateIdLookup): JsonQuery {
+  return {
+    and: [
+      { altid: { exact: lookup.value } },
+      { altidtype: { exact: lookup.type } },
+      ...(lookup.domain ? [{ altiddomain: { exact: lookup.domain } }] : []),
+    ],
+  }
+}
+
+function textOf(value: AlternateID): string {
+  return typeof value === 'object' ? String(value._ || '') : String(value)
+}
+
+// Values, types and attributes of the alternate IDs of a record
+export function alternateIdValues(
+  alternateIds: AlternateID[] = [],
+): AlternateIDValue[] {
+  return alternateIds.map((altid) => {
+    const attributes = (typeof altid === 'object' && altid.$) || {}
+    const result: AlternateIDValue = {
+      value: textOf(altid),
+      type: attributes['xsi:type'] || attributes.type || '',
+    }
+    if (attributes.domain) {
+      result.domain = attributes.domain
+    }
+    if (attributes.relation) {
+      result.relation = attributes.relation
+    }
+    return result
+  })
+}
+
+// Find the alternate IDs of a record (resolved with type AlternateIDs)
+// that match a normalized lookup. Values are compared after the same
+// normalization, and types and domains case insensitively
+export function matchAlternateIds(
+  lookup: AlternateIdLookup,
+  alternateIds: AlternateID[],
+): AlternateIDValue[] {
+  const same = (a?: string, b?: string) =>
+    (a || '').toLowerCase() === (b || '').toLowerCase()
+  return alternateIdValues(alternateIds)
+    .filter((altid) => {
+      if (!same(altid.type, lookup.type) ||
+        (lookup.domain && !same(altid.domain, lookup.domain))) {
+        return false
+      }
+      try {
+        return normalizeAlternateId(altid).value === lookup.value
+      } catch {
+        return altid.value === lookup.value
+      }
+    })
+}
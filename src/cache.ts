@@ -0,0 +1,126 @@
+import { PersistentStore } from 'reshuffle-base-connector'
+
+// Response cache for resolve and graph traversal results. The connector
+// uses any object implementing ResponseCache, so results can be kept in
+// memory (MemoryCache below), in the Reshuffle datastore (StoreCache
+// below) or in an external service like Redis.
+//
+// Cached values are plain JSON objects. Implementations must return a
+// copy of the cached value, so callers can safely modify results.
+
+export interface ResponseCache {
+  get(key: string): Promise<any | undefined>
+  set(key: string, value: any, ttl?: number): Promise<void>
+  delete(key: string): Promise<void>
+  stats?(): CacheImplementationStats
+}
+
+export interface CacheImplementationStats {
+  evictions: number
+  size: number
+}
+
+export interface CacheStats {
+  enabled: boolean
+  hits: number
+  misses: number
+  evictions: number
+  size?: number
+}
+
+export interface CacheFlags {
+  bypass?: boolean
+  refresh?: boolean
+}
+
+interface MemoryCacheOptions {
+  maxEntries?: number
+  ttl?: number
+}
+
+interface MemoryCacheEntry {
+  json: string
+  expires: number
+}
+
+// In memory least-recently-used cache with time to live. Entries are
+// evicted when the cache grows beyond maxEntries (default 1000) and
+// expire after ttl milliseconds (default one hour).
+export class MemoryCache implements ResponseCache {
+  private entries = new Map<string, MemoryCacheEntry>()
+  private evictions = 0
+  private readonly maxEntries: number
+  private readonly ttl: number
+
+  constructor(options: MemoryCacheOptions = {}) {
+    this.maxEntries = options.maxEntries || 1000
+    this.ttl = options.ttl || 60 * 60 * 1000
+  }
+
+  public async get(key: string) {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+    this.entries.delete(key)
+    if (entry.expires <= Date.now()) {
+      return undefined
+    }
+    this.entries.set(key, entry)
+    return JSON.parse(entry.json)
+  }
+
+  public async set(key: string, value: any, ttl = this.ttl) {
+    this.entries.delete(key)
+    this.entries.set(key, {
+      json: JSON.stringify(value),
+      expires: Date.now() + ttl,
+    })
+    while (this.maxEntries < this.entries.size) {
+      this.entries.delete(this.entries.keys().next().value)
+      this.evictions++
+    }
+  }
+
+  public async delete(key: string) {
+    this.entries.delete(key)
+  }
+
+  public stats() {
+    return { evictions: this.evictions, size: this.entries.size }
+  }
+}
+
+// Cache backed by a Reshuffle persistent store. Expired entries are
+// removed when they are read.
+export class StoreCache implements ResponseCache {
+  constructor(
+    private store: PersistentStore,
+    private prefix = 'eidr-cache:',
+    private ttl = 60 * 60 * 1000,
+  ) {
+  }
+
+  public async get(key: string) {
+    const entry = await this.store.get(this.prefix + key)
+    if (!entry) {
+      return undefined
+    }
+    if (entry.expires <= Date.now()) {
+      await this.store.del(this.prefix + key)
+      return undefined
+    }
+    return JSON.parse(entry.json)
+  }
+
+  public async set(key: string, value: any, ttl = this.ttl) {
+    await this.store.set(this.prefix + key, {
+      json: JSON.stringify(value),
+      expires: Date.now() + ttl,
+    })
+  }
+
+  public async delete(key: string) {
+    await this.store.del(this.prefix + key)
+  }
+}
@@ -0,0 +1,507 @@
+import xml2js from 'xml2js'
+import { alternateIdValues } from './altid'
+import {
+  HierarchyItem,
+  HierarchyKind,
+  houseSequence,
+  kindOf,
+  parentOf,
+  sequenceOf,
+} from './hierarchy'
+import {
+  AssociatedOrg,
+  Credit,
+  FullMetadata,
+  SimpleMetadata,
+  Text,
+} from './models'
+
+// Converters from EIDR content records (resolved with type Full or
+// Simple) to other metadata formats:
+//
+//   toMdmec      MovieLabs Common Metadata BasicMetadata, serialized to
+//                XML with renderMdmec
+//   toJsonLd     schema.org JSON-LD (Movie, TVSeries, TVSeason,
+//                TVEpisode, ...)
+//
+// Both cover titles and their languages, release dates, run length,
+// credits, associated orgs, alternate IDs and the sequence and parent of
+// seasons and episodes. Elements missing from the EIDR record are left
+// out of the output. Simple records have no alternate titles, sequence
+// or parent information.
+
+type ContentRecord = FullMetadata | SimpleMetadata
+
+interface Title {
+  title: string
+  language?: string
+}
+
+interface Person {
+  job: 'Director' | 'Actor'
+  name: string
+  sortName?: string
+}
+
+function textOf(text?: Text): string | undefined {
+  const str = typeof text === 'string' ? text : text && text._
+  return str && str.trim().length > 0 ? str.trim() : undefined
+}
+
+function languageOf(text?: Text): string | undefined {
+  return typeof text === 'object' && text.$ && text.$.lang ?
+    text.$.lang :
+    undefined
+}
+
+// Title (ResourceName) followed by the alternate titles of a record
+function titlesOf(record: ContentRecord): Title[] {
+  const full = record as FullMetadata
+  return [full.ResourceName, ...(full.AlternateResourceName || [])]
+    .map((text) => ({ title: textOf(text)!, language: languageOf(text) }))
+    .filter((title) => title.title !== undefined)
+}
+
+function languagesOf(record: ContentRecord): string[] {
+  return (record.OriginalLanguage || [])
+    .map((language) => textOf(language))
+    .filter((language): language is string => language !== undefined)
+}
+
+function peopleOf(record: ContentRecord): Person[] {
+  const credits = record.Credits || {}
+  const people = (job: Person['job'], list: Credit[] = []) => list
+    .map((credit): Person => ({
+      job,
+      name: textOf(credit.DisplayName || credit['md:DisplayName'])!,
+      sortName: textOf(credit.SortName || credit['md:SortName']),
+    }))
+    .filter((person) => person.name !== undefined)
+  return [
+    ...people('Director', credits.Director),
+    ...people('Actor', credits.Actor),
+  ]
+}
+
+function orgNameOf(org: AssociatedOrg): string | undefined {
+  return textOf(org.DisplayName || org['md:DisplayName'])
+}
+
+// Release year of full dates (YYYY-MM-DD) and years (YYYY)
+function releaseYearOf(date?: string): number | undefined {
+  const match = date && /^(\d{4})/.exec(date)
+  return match ? parseInt(match[1], 10) : undefined
+}
+
+function contentIdOf(id: string) {
+  return `md:cid:eidr-s:${id.replace(/^10\.5240\//, '')}`
+}
+
+function doiUrlOf(id: string) {
+  return `https://doi.org/${id}`
+}
+
+// MovieLabs Common Metadata ////////////////////////////////////////
+
+const mdNamespace = 'http://www.movielabs.com/schema/md/v2.9/md'
+
+export interface MdmecLocalizedInfo {
+  language: string
+  default?: boolean
+  titleDisplayUnlimited: string
+  titleSort: string
+  summary190?: string
+}
+
+export interface MdmecAltIdentifier {
+  namespace: string
+  identifier: string
+}
+
+export interface MdmecPerson {
+  jobFunction: string
+  billingBlockOrder: number
+  displayName: string
+  sortName?: string
+}
+
+export interface MdmecAssociatedOrg {
+  organizationID?: string
+  idType?: string
+  role?: string
+  displayName?: string
+}
+
+export interface MdmecSequenceInfo {
+  number?: number
+  houseSequence?: string
+}
+
+export interface MdmecParent {
+  relationshipType: string
+  parentContentID: string
+}
+
+export interface MdmecBasicMetadata {
+  contentID: string
+  localizedInfo: MdmecLocalizedInfo[]
+  runLength?: string
+  releaseYear?: number
+  releaseDate?: string
+  workType: string
+  altIdentifiers: MdmecAltIdentifier[]
+  people: MdmecPerson[]
+  countryOfOrigin?: string
+  originalLanguages: string[]
+  associatedOrgs: MdmecAssociatedOrg[]
+  sequenceInfo?: MdmecSequenceInfo
+  parents: MdmecParent[]
+}
+
+const workTypes: Partial<Record<HierarchyKind, string>> = {
+  series: 'Series',
+  season: 'Season',
+  episode: 'Episode',
+  clip: 'Excerpt',
+  compilation: 'Collection',
+}
+
+const referentWorkTypes: Record<string, string> = {
+  Short: 'Short',
+  Supplemental: 'Supplemental',
+  Compilation: 'Collection',
+}
+
+const parentRelationships: Partial<Record<HierarchyKind, string>> = {
+  season: 'isseasonof',
+  episode: 'isepisodeof',
+  clip: 'isclipof',
+  edit: 'isderivedfrom',
+  manifestation: 'isderivedfrom',
+}
+
+// Convert a content record to MovieLabs Common Metadata. Titles are
+// grouped into one LocalizedInfo per language, the first of which is the
+// default. Alternate IDs of type Proprietary use their domain as
+// namespace
+//
+// @param record - Full or Simple metadata record
+//
+// @return BasicMetadata, which can be serialized with renderMdmec
+export function toMdmec(record: ContentRecord): MdmecBasicMetadata {
+  const full = record as FullMetadata
+  const kind = kindOf(full)
+  const languages = languagesOf(record)
+
+  const localizedInfo: MdmecLocalizedInfo[] = []
+  for (const { title, language = languages[0] || 'und' } of titlesOf(full)) {
+    if (!localizedInfo.some((info) => info.language === language)) {
+      localizedInfo.push({
+        language,
+        ...(localizedInfo.length === 0 ? { default: true } : {}),
+        titleDisplayUnlimited: title,
+        titleSort: title,
+      })
+    }
+  }
+  const description = textOf(full.Description)
+  if (description && localizedInfo.length > 0) {
+    localizedInfo[0].summary190 = description.substring(0, 190)
+  }
+
+  const metadata: MdmecBasicMetadata = {
+    contentID: contentIdOf(record.ID),
+    localizedInfo,
+    workType: workTypes[kind] ||
+      referentWorkTypes[record.ReferentType || ''] ||
+      'Movie',
+    altIdentifiers: [
+      { namespace: 'EIDR-S', identifier: record.ID.replace(/^10\.5240\//, '') },
+      ...alternateIdValues(record.AlternateID).map((altid) => ({
+        namespace: altid.type === 'Proprietary' && altid.domain ?
+          altid.domain :
+          altid.type,
+        identifier: altid.value,
+      })),
+    ],
+    people: peopleOf(record).map((person, i, all) => ({
+      jobFunction: person.job,
+      billingBlockOrder: all.slice(0, i)
+        .filter((other) => other.job === person.job).length + 1,
+      displayName: person.name,
+      ...(person.sortName ? { sortName: person.sortName } : {}),
+    })),
+    originalLanguages: languages,
+    associatedOrgs: (record.AssociatedOrg || []).map((org) => {
+      const attributes = org.$ || {}
+      const result: MdmecAssociatedOrg = {}
+      if (attributes.organizationID) {
+        result.organizationID = attributes.organizationID
+        result.idType = attributes.idType || 'EIDR'
+      }
+      if (attributes.role) {
+        result.role = attributes.role
+      }
+      const name = orgNameOf(org)
+      if (name) {
+        result.displayName = name
+      }
+      return result
+    }),
+    parents: [],
+  }
+
+  if (record.ApproximateLength) {
+    metadata.runLength = record.ApproximateLength
+  }
+  const year = releaseYearOf(record.ReleaseDate)
+  if (year !== undefined) {
+    metadata.releaseYear = year
+    if (record.ReleaseDate!.length > 4) {
+      metadata.releaseDate = record.ReleaseDate
+    }
+  }
+  if (record.CountryOfOrigin && record.CountryOfOrigin.length > 0) {
+    metadata.countryOfOrigin = record.CountryOfOrigin[0]
+  }
+
+  const sequence = sequenceOf(full)
+  const house = houseSequence(full)
+  if (sequence !== undefined || house !== undefined) {
+    metadata.sequenceInfo = {
+      ...(sequence !== undefined ? { number: sequence } : {}),
+      ...(house !== undefined ? { houseSequence: house } : {}),
+    }
+  }
+  const parent = parentOf(full)
+  if (parent && parentRelationships[kind]) {
+    metadata.parents.push({
+      relationshipType: parentRelationships[kind]!,
+      parentContentID: contentIdOf(parent),
+    })
+  }
+  return metadata
+}
+
+// Serialize MovieLabs Common Metadata to a BasicMetadata XML document
+//
+// @param metadata - metadata, as returned by toMdmec
+// @param options - pretty (default true) for indented output
+//
+// @return XML document
+export function renderMdmec(
+  metadata: MdmecBasicMetadata,
+  options: { pretty?: boolean } = {},
+): string {
+  const list = <T>(items: T[], render: (item: T) => any) =>
+    items.length > 0 ? items.map(render) : undefined
+  const element: Record<string, any> = {
+    $: { 'xmlns:md': mdNamespace, ContentID: metadata.contentID },
+    'md:LocalizedInfo': metadata.localizedInfo.map((info) => ({
+      $: {
+        language: info.language,
+        ...(info.default ? { default: 'true' } : {}),
+      },
+      'md:TitleDisplayUnlimited': info.titleDisplayUnlimited,
+      'md:TitleSort': info.titleSort,
+      'md:Summary190': info.summary190,
+    })),
+    'md:RunLength': metadata.runLength,
+    'md:ReleaseYear': metadata.releaseYear,
+    'md:ReleaseDate': metadata.releaseDate,
+    'md:WorkType': metadata.workType,
+    'md:AltIdentifier': list(metadata.altIdentifiers, (altid) => ({
+      'md:Namespace': altid.namespace,
+      'md:Identifier': altid.identifier,
+    })),
+    'md:People': list(metadata.people, (person) => ({
+      'md:Job': {
+        'md:JobFunction': person.jobFunction,
+        'md:BillingBlockOrder': person.billingBlockOrder,
+      },
+      'md:Name': {
+        'md:DisplayName': person.displayName,
+        'md:SortName': person.sortName,
+      },
+    })),
+    'md:CountryOfOrigin': metadata.countryOfOrigin === undefined ?
+      undefined :
+      { 'md:country': metadata.countryOfOrigin },
+    'md:OriginalLanguage': list(metadata.originalLanguages, (l) => l),
+    'md:AssociatedOrg': list(metadata.associatedOrgs, (org) => ({
+      $: {
+        ...(org.organizationID ?
+          { organizationID: org.organizationID, idType: org.idType } :
+          {}),
+        ...(org.role ? { role: org.role } : {}),
+      },
+      'md:DisplayName': org.displayName,
+    })),
+    'md:SequenceInfo': metadata.sequenceInfo && {
+      'md:Number': metadata.sequenceInfo.number,
+      'md:HouseSequence': metadata.sequenceInfo.houseSequence,
+    },
+    'md:Parent': list(metadata.parents, (parent) => ({
+      $: { relationshipType: parent.relationshipType },
+      'md:ParentContentID': parent.parentContentID,
+    })),
+  }
+  const builder = new xml2js.Builder({
+    rootName: 'md:BasicMetadata',
+    xmldec: { version: '1.0', encoding: 'UTF-8' },
+    renderOpts: { pretty: options.pretty !== false },
+  })
+  return builder.buildObject(JSON.parse(JSON.stringify(element)))
+}
+
+// schema.org JSON-LD /////////////////////////////////////////////////
+
+export interface JsonLdNode {
+  '@context'?: string
+  '@type': string
+  '@id'?: string
+  [property: string]: unknown
+}
+
+export interface JsonLdOptions {
+  // Ancestors of the record, as returned by getAncestry, to link
+  // episodes and seasons to their season and series
+  ancestry?: HierarchyItem[]
+}
+
+const jsonLdTypes: Partial<Record<HierarchyKind, string>> = {
+  series: 'TVSeries',
+  season: 'TVSeason',
+  episode: 'TVEpisode',
+  clip: 'Clip',
+}
+
+const referentJsonLdTypes: Record<string, string> = {
+  Movie: 'Movie',
+  Short: 'Movie',
+  TV: 'Movie',
+}
+
+const orgProperties: Record<string, string> = {
+  producer: 'productionCompany',
+  distributor: 'publisher',
+}
+
+function languageValue(title: Title) {
+  return title.language ?
+    { '@language': title.language, '@value': title.title } :
+    title.title
+}
+
+function one<T>(values: T[]): T | T[] | undefined {
+  return values.length === 0 ? undefined :
+    values.length === 1 ? values[0] :
+    values
+}
+
+// Convert a content record to a schema.org JSON-LD node. Records are
+// identified by their DOI URL (https://doi.org/<id>). Alternate titles
+// are language tagged
+//
+// @param record - Full or Simple metadata record
+// @param options - ancestry of the record
+//
+// @return JSON-LD node, which can be serialized with JSON.stringify
+export function toJsonLd(
+  record: ContentRecord,
+  options: JsonLdOptions = {},
+): JsonLdNode {
+  const full = record as FullMetadata
+  const kind = kindOf(full)
+  const [title, ...alternates] = titlesOf(full)
+  const node: JsonLdNode = {
+    '@context': 'https://schema.org',
+    '@type': jsonLdTypes[kind] ||
+      referentJsonLdTypes[record.ReferentType || ''] ||
+      'CreativeWork',
+    '@id': doiUrlOf(record.ID),
+  }
+  const set = (property: string, value: unknown) => {
+    if (value !== undefined) {
+      node[property] = value
+    }
+  }
+
+  set('name', title && title.title)
+  set('alternateName', one(alternates.map(languageValue)))
+  set('inLanguage', one(languagesOf(record)))
+  set('datePublished', record.ReleaseDate)
+  if (kind !== 'series' && kind !== 'season') {
+    set('duration', record.ApproximateLength)
+  }
+  set('countryOfOrigin', one((record.CountryOfOrigin || [])
+    .map((country) => ({ '@type': 'Country', name: country }))))
+
+  const altids = alternateIdValues(record.AlternateID)
+  node.identifier = [
+    { '@type': 'PropertyValue', propertyID: 'EIDR', value: record.ID },
+    ...altids.map((altid) => ({
+      '@type': 'PropertyValue',
+      propertyID: altid.type === 'Proprietary' && altid.domain ?
+        altid.domain :
+        altid.type,
+      value: altid.value,
+    })),
+  ]
+  set('sameAs', one(altids
+    .filter((altid) => altid.type === 'IMDB')
+    .map((altid) => `https://www.imdb.com/title/${altid.value}/`)))
+
+  const people = peopleOf(record)
+  for (const job of ['Director', 'Actor'] as const) {
+    set(job.toLowerCase(), one(people
+      .filter((person) => person.job === job)
+      .map((person) => ({ '@type': 'Person', name: person.name }))))
+  }
+
+  const orgs: Record<string, JsonLdNode[]> = {}
+  for (const org of record.AssociatedOrg || []) {
+    const attributes = org.$ || {}
+    const property = orgProperties[attributes.role || ''] || 'contributor'
+    orgs[property] = [...(orgs[property] || []), {
+      '@type': 'Organization',
+      ...(attributes.organizationID ?
+        { '@id': doiUrlOf(attributes.organizationID) } :
+        {}),
+      ...(orgNameOf(org) ? { name: orgNameOf(org) } : {}),
+    }]
+  }
+  Object.keys(orgs).forEach((property) => set(property, one(orgs[property])))
+
+  const sequence = sequenceOf(full)
+  if (kind === 'episode') {
+    set('episodeNumber', sequence)
+  } else if (kind === 'season') {
+    set('seasonNumber', sequence)
+  }
+
+  const ancestry = options.ancestry || []
+  const ancestor = (ancestorKind: HierarchyKind, type: string) => {
+    const item = ancestry.filter((a) => a.kind === ancestorKind).pop()
+    return item && {
+      '@type': type,
+      '@id': doiUrlOf(item.id),
+      ...(item.title ? { name: item.title } : {}),
+      ...(item.sequence !== undefined && ancestorKind === 'season' ?
+        { seasonNumber: item.sequence } :
+        {}),
+    }
+  }
+  if (kind === 'episode' || kind === 'season') {
+    if (kind === 'episode') {
+      set('partOfSeason', ancestor('season', 'TVSeason'))
+    }
+    set('partOfSeries', ancestor('series', 'TVSeries'))
+  }
+  const parent = parentOf(full)
+  if (parent && !node.partOfSeason && !node.partOfSeries) {
+    set(kind === 'edit' || kind === 'manifestation' ? 'isBasedOn' : 'isPartOf',
+      { '@id': doiUrlOf(parent) })
+  }
+  return node
+}
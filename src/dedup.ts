@@ -0,0 +1,227 @@
+import { JsonQuery } from './jsonQuery'
+import { SimpleMetadata } from './models'
+
+// Pre-registration duplicate detection. A candidate record is turned
+// into a JSON query that matches registry records with all significant
+// words of the title (words other than articles and the like) and at
+// least one other matching signal (release year, length, country of
+// origin or director). Each result is then scored against the candidate
+// so callers can decide whether to register.
+
+type Obj = Record<string, any>
+
+export interface DuplicateCandidate {
+  title: string
+  releaseYear?: number | string
+  length?: string | number
+  countryOfOrigin?: string
+  directors?: string[]
+}
+
+export type DuplicateField =
+  'title' | 'releaseYear' | 'length' | 'countryOfOrigin' | 'directors'
+
+export interface DuplicateMatch {
+  id: string
+  score: number
+  matchedFields: DuplicateField[]
+  record: SimpleMetadata
+}
+
+const weights: Record<DuplicateField, number> = {
+  title: 0.4,
+  releaseYear: 0.2,
+  length: 0.15,
+  countryOfOrigin: 0.1,
+  directors: 0.15,
+}
+
+// Return the text content of an xml2js value, which is either a
+// string or an object with the text under '_' when the element has
+// attributes
+function text(value: any): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+  if (typeof value === 'object') {
+    return text(Array.isArray(value) ? value[0] : value._)
+  }
+  return String(value)
+}
+
+function texts(value: any): string[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  return (Array.isArray(value) ? value : [value]).map(text)
+}
+
+// Lowercase words of a text in any script. Latin diacritics are removed,
+// and marks of other scripts are kept as part of their words
+function words(str: string) {
+  return str
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .normalize('NFC')
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter((w) => 0 < w.length)
+}
+
+// Words too common to tell titles apart
+const stopWords = [
+  'a', 'an', 'and', 'at', 'for', 'in', 'of', 'on', 'the', 'to',
+  'das', 'de', 'der', 'die', 'el', 'la', 'las', 'le', 'les', 'los',
+]
+
+// Distinct words of a title without stop words, or all its words if
+// the title has only stop words
+function significantWords(title: string) {
+  const all = words(title).filter((w, i, list) => list.indexOf(w) === i)
+  const significant = all.filter((w) => stopWords.indexOf(w) === -1)
+  return significant.length === 0 ? all : significant
+}
+
+function titleSimilarity(a: string, b: string) {
+  const wa = new Set(words(a))
+  const wb = new Set(words(b))
+  if (wa.size === 0 || wb.size === 0) {
+    return 0
+  }
+  const common = Array.from(wa).filter((w) => wb.has(w)).length
+  return common / (wa.size + wb.size - common)
+}
+
+// Convert an ISO 8601 duration (e.g. PT1H35M) or a number of minutes
+// into minutes
+export function lengthInMinutes(length: string | number): number {
+  if (typeof length === 'number') {
+    return length
+  }
+  const match = /^PT(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?$/
+    .exec(length.trim().toUpperCase())
+  if (!match || match[0] === 'PT') {
+    throw new Error(`Invalid length: ${length}`)
+  }
+  const [, h, m, s] = match
+  return Number(h || 0) * 60 + Number(m || 0) + Number(s || 0) / 60
+}
+
+function year(date: string | number) {
+  const match = /^(\d{4})/.exec(String(date).trim())
+  return match ? Number(match[1]) : undefined
+}
+
+function recordDirectors(record: Obj) {
+  const credits = record.Credits && record.Credits.Director
+  const simple = record.Directors && record.Directors.Director
+  return [credits, simple, record.Director]
+    .filter(Boolean)
+    .map((list) => (Array.isArray(list) ? list : [list]))
+    .flat()
+    .map((d: any) => text(d && typeof d === 'object' &&
+      ('DisplayName' in d || 'md:DisplayName' in d) ?
+      d.DisplayName || d['md:DisplayName'] :
+      d))
+    .filter((name) => 0 < name.length)
+}
+
+export function buildDuplicateQuery(
+  candidate: DuplicateCandidate,
+): JsonQuery {
+  if (!candidate || typeof candidate.title !== 'string' ||
+    words(candidate.title).length === 0) {
+    throw new Error(`Invalid duplicate candidate title: ${
+      candidate && candidate.title
+    }`)
+  }
+
+  const signals: JsonQuery[] = []
+  if (candidate.releaseYear !== undefined) {
+    const y = year(candidate.releaseYear)
+    if (y === undefined) {
+      throw new Error(`Invalid release year: ${candidate.releaseYear}`)
+    }
+    signals.push({ date: { between: [String(y - 1), String(y + 1)] } })
+  }
+  if (candidate.length !== undefined) {
+    const minutes = lengthInMinutes(candidate.length)
+    signals.push({ length: { between: [
+      Math.floor(minutes * 0.9),
+      Math.ceil(minutes * 1.1),
+    ] } })
+  }
+  if (candidate.countryOfOrigin) {
+    signals.push({ coo: { exact: candidate.countryOfOrigin } })
+  }
+  for (const director of candidate.directors || []) {
+    signals.push({ director: { contains: director } })
+  }
+
+  const clauses: JsonQuery[] = significantWords(candidate.title)
+    .map((w) => ({ anytitle: { words: w } }))
+  if (0 < signals.length) {
+    clauses.push(signals.length === 1 ? signals[0] : { or: signals })
+  }
+  return clauses.length === 1 ? clauses[0] : { and: clauses }
+}
+
+export function scoreDuplicate(
+  candidate: DuplicateCandidate,
+  record: SimpleMetadata,
+): DuplicateMatch {
+  const scores: Partial<Record<DuplicateField, number>> = {}
+
+  const titles = [
+    ...texts(record.ResourceName),
+    // Full metadata also has alternate titles
+    ...texts((record as Obj).AlternateResourceName),
+  ]
+  scores.title = Math.max(0, ...titles.map((title) =>
+    titleSimilarity(candidate.title, title)))
+
+  if (candidate.releaseYear !== undefined) {
+    const a = year(candidate.releaseYear)
+    const b = year(text(record.ReleaseDate))
+    const diff = a === undefined || b === undefined ?
+      Infinity :
+      Math.abs(a - b)
+    scores.releaseYear = diff === 0 ? 1 : diff === 1 ? 0.5 : 0
+  }
+
+  if (candidate.length !== undefined) {
+    let ratio = Infinity
+    try {
+      const a = lengthInMinutes(candidate.length)
+      const b = lengthInMinutes(text(record.ApproximateLength))
+      ratio = Math.abs(a - b) / Math.max(a, b, 1)
+    } catch {
+      // Missing or invalid record length scores zero
+    }
+    scores.length = ratio <= 0.05 ? 1 : ratio <= 0.1 ? 0.5 : 0
+  }
+
+  if (candidate.countryOfOrigin) {
+    const coo = candidate.countryOfOrigin.toUpperCase()
+    scores.countryOfOrigin = texts(record.CountryOfOrigin)
+      .some((c) => c.toUpperCase() === coo) ? 1 : 0
+  }
+
+  if (candidate.directors && 0 < candidate.directors.length) {
+    const directors = recordDirectors(record)
+    const found = candidate.directors.filter((director) =>
+      directors.some((d) => 0.5 <= titleSimilarity(director, d)))
+    scores.directors = found.length / candidate.directors.length
+  }
+
+  const fields = Object.keys(scores) as DuplicateField[]
+  const total = fields.reduce((sum, f) => sum + weights[f], 0)
+  const score = fields.reduce((sum, f) => sum + weights[f] * scores[f]!, 0)
+
+  return {
+    id: text(record.ID),
+    score: Math.round(score / total * 1000) / 1000,
+    matchedFields: fields.filter((f) => 0.5 <= scores[f]!),
+    record,
+  }
+}
@@ -0,0 +1,209 @@
+// Field level comparison of records, e.g. two resolve results or two
+// versions of the same record. Fields are reported by path, with the
+// syntax of export paths:
+//
+//   ResourceName                      text of an element
+//   ResourceName.@lang                attribute of an element
+//   Credits.Actor[Chloe Bennet]       repeated element, by identity
+//
+// Repeated elements are matched by identity rather than by position, so
+// reordered credits are not reported as changes:
+//
+//   Actor, Director   display name
+//   AlternateID       type, domain and value, e.g. IMDB:tt6324278
+//   AssociatedOrg     role and organization ID (or display name)
+//   others            text of the element, or the whole element
+//
+// Elements with the same identity are numbered from the second one on,
+// e.g. Actor[Jane Doe#2]. Added and removed elements are reported with
+// their whole value, and changed text values with their values before and
+// after.
+
+type Obj = Record<string, any>
+
+export interface FieldChange {
+  path: string
+  // Value in the first record. Missing for added fields
+  before?: unknown
+  // Value in the second record. Missing for removed fields
+  after?: unknown
+}
+
+export interface RecordDiff {
+  added: FieldChange[]
+  removed: FieldChange[]
+  changed: FieldChange[]
+}
+
+export interface DiffOptions {
+  // Fields or paths to ignore, e.g. Status or Credits.Actor
+  ignore?: string[]
+}
+
+function isObject(value: unknown): value is Obj {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+}
+
+// Text of leaf values: primitives, and sequence numbers converted by
+// parseJsonWithValue ({ value })
+function leafText(value: unknown): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined
+  }
+  if (typeof value !== 'object') {
+    return String(value)
+  }
+  if (isObject(value) && Object.keys(value).length === 1 &&
+    'value' in value && typeof value.value !== 'object') {
+    return String(value.value)
+  }
+  return undefined
+}
+
+function textOf(value: unknown): string | undefined {
+  const text = leafText(value)
+  if (text !== undefined) {
+    return text
+  }
+  return isObject(value) && '_' in value ? leafText(value._) : undefined
+}
+
+function attributeOf(value: unknown, name: string): string | undefined {
+  return isObject(value) && isObject(value.$) ? value.$[name] : undefined
+}
+
+function creditName(value: unknown): string | undefined {
+  return isObject(value) ?
+    textOf(value.DisplayName) || textOf(value['md:DisplayName']) :
+    undefined
+}
+
+const identities: Record<string, (value: unknown) => string | undefined> = {
+  Actor: creditName,
+  Director: creditName,
+  AlternateID: (value) => [
+    attributeOf(value, 'xsi:type') || attributeOf(value, 'type'),
+    attributeOf(value, 'domain'),
+    textOf(value),
+  ].filter((part) => part !== undefined).join(':'),
+  AssociatedOrg: (value) => [
+    attributeOf(value, 'role'),
+    attributeOf(value, 'organizationID') || creditName(value),
+  ].filter((part) => part !== undefined).join(':'),
+}
+
+function identityOf(name: string, value: unknown): string {
+  const identity = identities[name] ? identities[name](value) : undefined
+  if (identity) {
+    return identity
+  }
+  const text = textOf(value)
+  return text !== undefined ? text : JSON.stringify(value)
+}
+
+class Differ {
+  public diff: RecordDiff = { added: [], removed: [], changed: [] }
+
+  constructor(private ignore: string[]) {
+  }
+
+  public compare(path: string, name: string, a: unknown, b: unknown) {
+    if (this.ignored(path) || (a === undefined && b === undefined)) {
+      return
+    }
+    if (a === undefined) {
+      this.diff.added.push({ path, after: b })
+      return
+    }
+    if (b === undefined) {
+      this.diff.removed.push({ path, before: a })
+      return
+    }
+    if (Array.isArray(a) || Array.isArray(b)) {
+      this.compareArrays(path, name, ([] as unknown[]).concat(a),
+        ([] as unknown[]).concat(b))
+      return
+    }
+    const ta = leafText(a)
+    const tb = leafText(b)
+    if (ta !== undefined && tb !== undefined) {
+      if (ta !== tb) {
+        this.diff.changed.push({ path, before: a, after: b })
+      }
+      return
+    }
+    // Text elements with and without attributes
+    const oa: Obj = ta === undefined ? a as Obj : { _: a }
+    const ob: Obj = tb === undefined ? b as Obj : { _: b }
+    this.compareObjects(path, oa, ob)
+  }
+
+  private compareObjects(path: string, a: Obj, b: Obj) {
+    this.compare(path, '', a._, b._)
+    const attributes = (obj: Obj) => isObject(obj.$) ? obj.$ : {}
+    const aa = attributes(a)
+    const ba = attributes(b)
+    for (const key of union(Object.keys(aa), Object.keys(ba))) {
+      this.compare(`${path}.@${key}`, key, aa[key], ba[key])
+    }
+    const keys = union(Object.keys(a), Object.keys(b))
+      .filter((key) => key !== '_' && key !== '$')
+    for (const key of keys) {
+      this.compare(path ? `${path}.${key}` : key, key, a[key], b[key])
+    }
+  }
+
+  private compareArrays(path: string, name: string, a: unknown[],
+    b: unknown[]) {
+    const ka = keyed(name, a)
+    const kb = keyed(name, b)
+    for (const key of union(Array.from(ka.keys()), Array.from(kb.keys()))) {
+      this.compare(`${path}[${key}]`, name, ka.get(key), kb.get(key))
+    }
+  }
+
+  private ignored(path: string) {
+    return this.ignore.some((prefix) => path === prefix ||
+      path.startsWith(`${prefix}.`) || path.startsWith(`${prefix}[`))
+  }
+}
+
+function union(a: string[], b: string[]): string[] {
+  return [...a, ...b.filter((key) => a.indexOf(key) === -1)]
+}
+
+function keyed(name: string, values: unknown[]): Map<string, unknown> {
+  const map = new Map<string, unknown>()
+  for (const value of values) {
+    const identity = identityOf(name, value)
+    let key = identity
+    for (let n = 2; map.has(key); n++) {
+      key = `${identity}#${n}`
+    }
+    map.set(key, value)
+  }
+  return map
+}
+
+// Compare two records, e.g. two resolve results
+//
+// @param a - first record, e.g. the earlier version
+// @param b - second record
+// @param options - fields to ignore
+//
+// @return added, removed and changed fields of b, relative to a
+export function diffRecords(
+  a: unknown,
+  b: unknown,
+  options: DiffOptions = {},
+): RecordDiff {
+  const differ = new Differ(options.ignore || [])
+  differ.compare('', '', a, b)
+  return differ.diff
+}
+
+// Whether a diff has no changes
+export function isEmptyDiff(diff: RecordDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 &&
+    diff.changed.length === 0
+}
@@ -0,0 +1,55 @@
+import { quote } from './jsonQuery'
+import { AssociatedOrg, FullMetadata, Party } from './models'
+
+// Party (10.5237) and service (10.5239) directory queries. Parties and
+// services are searched with the same expression syntax as content
+// records, with paths under /Party or /Service:
+//
+//   (/Party/PartyName/DisplayName "dreamworks")
+//   (/Service/ParentParty 10.5237/5E6F-7081)
+//
+// A string that does not start with '(' is a name, which matches the
+// display and alternate names of parties, and the display names of
+// services.
+
+export type DirectoryKind = 'party' | 'service'
+
+const namePaths: Record<DirectoryKind, string[]> = {
+  party: ['/Party/PartyName/DisplayName', '/Party/PartyName/AlternateName'],
+  service: ['/Service/DisplayName'],
+}
+
+export function buildDirectoryQuery(
+  kind: DirectoryKind,
+  nameOrExpr: string,
+): string {
+  const str = typeof nameOrExpr === 'string' ? nameOrExpr.trim() : ''
+  if (str.length === 0) {
+    throw new Error(`Empty ${kind} query`)
+  }
+  if (str.startsWith('(')) {
+    return str
+  }
+  const clauses = namePaths[kind].map((path) => `(${path} ${quote(str)})`)
+  return clauses.length === 1 ? clauses[0] : `(${clauses.join(' OR ')})`
+}
+
+export interface AssociatedOrgParty {
+  org: AssociatedOrg
+  role?: string
+  organizationId?: string
+  // Party record of the organization ID
+  party?: Party
+  // Set if the organization ID was not found in the registry
+  missing?: boolean
+  // Set if the organization ID is malformed or is not a party ID
+  invalid?: boolean
+}
+
+// Unique organization IDs of the associated orgs of a content record
+export function associatedOrgIds(record: FullMetadata): string[] {
+  return (record.AssociatedOrg || [])
+    .map((org) => org.$ && org.$.organizationID)
+    .filter((id, i, all): id is string =>
+      id !== undefined && all.indexOf(id) === i)
+}
@@ -0,0 +1,188 @@
+// Errors thrown by the connector. All errors are EIDRErrors with an HTTP
+// status, and failures with a known cause use one of the subclasses
+// below:
+//
+//   EIDRAuthenticationError     401  missing or rejected credentials
+//   EIDRAuthorizationError      403  credentials lack permission
+//   EIDRNotFoundError           404  record not found
+//   EIDRInvalidIdError          400  malformed or unsupported ID
+//   EIDRInvalidQueryError       400  invalid query expression or JSON query
+//   EIDRThrottledError          429  too many requests
+//   EIDRUnavailableError        503  registry unreachable or unavailable
+//   EIDRMalformedResponseError  502  response not understood
+//
+// Errors reported by the registry also carry the Status.Code and
+// Status.Type of the response, and errors of connector actions carry the
+// name of the action (e.g. resolve or query) as operation.
+
+export interface EIDRErrorInfo {
+  // Registry Status.Code
+  code?: number
+  // Registry Status.Type, e.g. 'not found'
+  type?: string
+  // Connector action, e.g. resolve
+  operation?: string
+}
+
+export class EIDRError extends Error {
+  public code?: number
+  public type?: string
+  public operation?: string
+
+  constructor(
+    message: string,
+    public status: number,
+    public details: string = message,
+    info: EIDRErrorInfo = {},
+  ) {
+    super(`EIDRConnector: ${message}`)
+    // Subclasses of Error lose their prototype when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = new.target.name
+    if (info.code !== undefined) {
+      this.code = info.code
+    }
+    if (info.type !== undefined) {
+      this.type = info.type
+    }
+    if (info.operation !== undefined) {
+      this.operation = info.operation
+    }
+  }
+}
+
+export class EIDRAuthenticationError extends EIDRError {
+  constructor(message: string, details?: string, info?: EIDRErrorInfo) {
+    super(message, 401, details, info)
+  }
+}
+
+export class EIDRAuthorizationError extends EIDRError {
+  constructor(message: string, details?: string, info?: EIDRErrorInfo) {
+    super(message, 403, details, info)
+  }
+}
+
+export class EIDRNotFoundError extends EIDRError {
+  constructor(message: string, details?: string, info?: EIDRErrorInfo) {
+    super(message, 404, details, info)
+  }
+}
+
+export class EIDRInvalidIdError extends EIDRError {
+  constructor(message: string, details?: string, info?: EIDRErrorInfo) {
+    super(message, 400, details, info)
+  }
+}
+
+export class EIDRInvalidQueryError extends EIDRError {
+  constructor(message: string, details?: string, info?: EIDRErrorInfo) {
+    super(message, 400, details, info)
+  }
+}
+
+export class EIDRThrottledError extends EIDRError {
+  constructor(message: string, details?: string, info?: EIDRErrorInfo) {
+    super(message, 429, details, info)
+  }
+}
+
+export class EIDRUnavailableError extends EIDRError {
+  constructor(message: string, details?: string, info?: EIDRErrorInfo) {
+    super(message, 503, details, info)
+  }
+}
+
+export class EIDRMalformedResponseError extends EIDRError {
+  constructor(message: string, details?: string, info?: EIDRErrorInfo) {
+    super(message, 502, details, info)
+  }
+}
+
+// Registry status codes
+export const registryStatusCodes = {
+  success: 0,
+  invalidRequest: 2,
+  notFound: 3,
+  authenticationFailure: 4,
+  authorizationFailure: 5,
+}
+
+// Operations whose invalid requests are invalid queries
+const queryOperations = ['query', 'queryParties', 'queryServices']
+
+// Error for a registry response with a non zero Status.Code. Throttling
+// and unavailability have no status code of their own, and are
+// recognized by their Status.Type
+//
+// @param status - Status element of the response
+// @param operation - connector action
+// @param details - details, defaults to Status.Details
+//
+// @return error, with the message Error <code> <type>
+export function registryError(
+  status: { Code?: string, Type?: string, Details?: string },
+  operation?: string,
+  details?: string,
+): EIDRError {
+  const code = Number(status.Code)
+  const type = String(status.Type || '')
+  const message = `Error ${status.Code} ${type}`
+  const info = { code, type, operation }
+  const text = details || status.Details || message
+
+  switch (code) {
+  case registryStatusCodes.notFound:
+    return new EIDRNotFoundError(message, text, info)
+  case registryStatusCodes.authenticationFailure:
+    return new EIDRAuthenticationError(message, text, info)
+  case registryStatusCodes.authorizationFailure:
+    return new EIDRAuthorizationError(message, text, info)
+  case registryStatusCodes.invalidRequest:
+    return queryOperations.indexOf(operation || '') === -1 ?
+      new EIDRError(message, 400, text, info) :
+      new EIDRInvalidQueryError(message, text, info)
+  }
+  if (/throttl|too many|rate limit/i.test(type)) {
+    return new EIDRThrottledError(message, text, info)
+  }
+  if (/unavailable|maintenance|busy/i.test(type)) {
+    return new EIDRUnavailableError(message, text, info)
+  }
+  return new EIDRError(message, 500, text, info)
+}
+
+// Error for an HTTP error response of the registry API
+//
+// @param status - HTTP status
+// @param details - details of the error
+// @param operation - connector action
+//
+// @return error, with the message API error
+export function httpError(
+  status: number,
+  details: string,
+  operation?: string,
+): EIDRError {
+  const info = { operation }
+  switch (status) {
+  case 401:
+    return new EIDRAuthenticationError('API error', details, info)
+  case 403:
+    return new EIDRAuthorizationError('API error', details, info)
+  case 404:
+    return new EIDRNotFoundError('API error', details, info)
+  case 429:
+    return new EIDRThrottledError('API error', details, info)
+  case 502:
+  case 503:
+  case 504:
+    return new EIDRUnavailableError('API error', details, info)
+  }
+  return new EIDRError('API error', status, details, info)
+}
+
+// Registry status code 3 (not found) or HTTP status 404
+export function isNotFound(e: unknown): boolean {
+  return e instanceof EIDRNotFoundError
+}
@@ -0,0 +1,310 @@
+import { Readable } from 'stream'
+
+// Export of resolve, query and queryAll results as CSV or JSON Lines.
+// Each record is flattened into one row with a column per mapping:
+//
+//   { header: 'Title', path: 'ResourceName' }
+//   { header: 'Actors', path: 'Credits.Actor.DisplayName', repeat: 'join' }
+//   { header: 'IMDb', path: 'AlternateID[@xsi:type=IMDB]', repeat: 'first' }
+//
+// Paths are separated by periods, like the rules in jsonPopulateValue:
+//
+//   *                 any field, at any depth below the current value
+//   @name             attribute of an XML element, e.g. AlternateID.@domain
+//   field[@name=x]    elements of field with attribute name equal to x
+//   field[name=x]     elements of field with child name equal to x
+//
+// Fields without a namespace prefix also match their md: variants, so
+// Credits.Actor.DisplayName matches md:DisplayName elements.
+//
+// Arrays are traversed transparently, so a path can match several values,
+// e.g. one per actor. The repeat rule of a column defines how repeated
+// values are exported:
+//
+//   join      values joined with the separator ('; ' by default)
+//   first     first value only
+//   count     number of values
+//   columns   one column per value, up to max (default 3). Columns are
+//             named <header> 1, <header> 2, ...
+//   array     JSON array of values (arrays in JSON Lines output)
+
+export type RepeatRule = 'join' | 'first' | 'count' | 'columns' | 'array'
+
+export interface ExportColumn {
+  path: string
+  // Defaults to the path
+  header?: string
+  // Default is join
+  repeat?: RepeatRule
+  // Separator of joined values
+  separator?: string
+  // Maximum number of columns of the columns rule
+  max?: number
+}
+
+export type ExportFormat = 'csv' | 'jsonl'
+
+export interface ExportOptions {
+  // Default is csv
+  format?: ExportFormat
+  // Column mappings, or paths. Default is defaultExportColumns
+  columns?: Array<ExportColumn | string>
+  // Write a header row to CSV output. Default is true
+  header?: boolean
+}
+
+export type FlatValue = string | number | string[]
+
+export type FlatRecord = Record<string, FlatValue>
+
+// Columns of the main fields of content records
+export const defaultExportColumns: ExportColumn[] = [
+  { header: 'ID', path: 'ID' },
+  { header: 'Title', path: 'ResourceName', repeat: 'first' },
+  { header: 'ReferentType', path: 'ReferentType' },
+  { header: 'StructuralType', path: 'StructuralType' },
+  { header: 'Mode', path: 'Mode' },
+  { header: 'ReleaseDate', path: 'ReleaseDate' },
+  { header: 'ApproximateLength', path: 'ApproximateLength' },
+  { header: 'OriginalLanguage', path: 'OriginalLanguage' },
+  { header: 'CountryOfOrigin', path: 'CountryOfOrigin' },
+  { header: 'Directors', path: 'Credits.Director.DisplayName' },
+  { header: 'Actors', path: 'Credits.Actor.DisplayName' },
+  { header: 'IMDb', path: 'AlternateID[@xsi:type=IMDB]' },
+  { header: 'Status', path: 'Status' },
+]
+
+interface Segment {
+  field: string
+  attribute?: boolean
+  filter?: { attribute: boolean, name: string, value: string }
+}
+
+function parseSegment(segment: string): Segment {
+  const match = /^([^[\]]+)\[(@?)([^=\]]+)=([^\]]*)\]$/.exec(segment)
+  if (match) {
+    return {
+      field: match[1],
+      filter: { attribute: match[2] === '@', name: match[3], value: match[4] },
+    }
+  }
+  if (segment.startsWith('@') && 1 < segment.length) {
+    return { field: segment.substring(1), attribute: true }
+  }
+  if (segment.length === 0 || /[[\]]/.test(segment)) {
+    throw new Error(`Invalid path segment: ${segment}`)
+  }
+  return { field: segment }
+}
+
+function parsePath(path: string): Segment[] {
+  if (typeof path !== 'string' || path.trim().length === 0) {
+    throw new Error(`Invalid path: ${path}`)
+  }
+  return path.trim().split('.').map(parseSegment)
+}
+
+// Text of an XML element: text with attributes (_), values converted by
+// parseJsonWithValue (value) or primitive values
+function textOf(value: any): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+  if (typeof value !== 'object') {
+    return String(value)
+  }
+  if ('_' in value) {
+    return textOf(value._)
+  }
+  if ('value' in value) {
+    return textOf(value.value)
+  }
+  return undefined
+}
+
+function matchesFilter(value: any, filter: Segment['filter']): boolean {
+  if (!filter) {
+    return true
+  }
+  const target = filter.attribute ?
+    value && value.$ && value.$[filter.name] :
+    value && value[filter.name]
+  return textOf(target) === filter.value
+}
+
+function children(value: any): any[] {
+  if (Array.isArray(value)) {
+    return value
+  }
+  return value && typeof value === 'object' ?
+    Object.keys(value).filter((key) => key !== '$').map((key) => value[key]) :
+    []
+}
+
+function selectSegments(value: any, segments: Segment[]): any[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  if (Array.isArray(value)) {
+    return ([] as any[]).concat(
+      ...value.map((item) => selectSegments(item, segments)),
+    )
+  }
+  if (segments.length === 0) {
+    return [value]
+  }
+  const [segment, ...rest] = segments
+  if (segment.field === '*') {
+    // One or more levels: match the rest on each child, or keep
+    // descending
+    return ([] as any[]).concat(...children(value).map((child) => [
+      ...selectSegments(child, rest),
+      ...selectSegments(child, segments),
+    ]))
+  }
+  if (typeof value !== 'object') {
+    return []
+  }
+  const field = segment.field
+  const next = segment.attribute ? value.$ && value.$[field] :
+    field in value || field.indexOf(':') !== -1 ? value[field] :
+    value[`md:${field}`]
+  const matches = (Array.isArray(next) ? next : [next])
+    .filter((item) => item !== undefined && item !== null &&
+      matchesFilter(item, segment.filter))
+  return selectSegments(matches, rest)
+}
+
+// Text values at a path of a record
+//
+// @param record - record, e.g. a FullMetadata or SimpleMetadata object
+// @param path - dotted path
+//
+// @return values, in document order
+export function selectValues(record: unknown, path: string): string[] {
+  return selectSegments(record, parsePath(path))
+    .map(textOf)
+    .filter((value): value is string => value !== undefined)
+}
+
+function headersOf(column: ExportColumn): string[] {
+  if (column.repeat !== 'columns') {
+    return [column.header!]
+  }
+  const max = column.max || 3
+  return Array.from({ length: max }, (_, i) => `${column.header} ${i + 1}`)
+}
+
+function normalizeColumns(
+  columns: Array<ExportColumn | string> = defaultExportColumns,
+): ExportColumn[] {
+  const normalized = columns.map((column) => {
+    const col = typeof column === 'string' ? { path: column } : column
+    parsePath(col.path)
+    if (col.repeat === 'columns' && col.max !== undefined &&
+      !(Number.isInteger(col.max) && 0 < col.max)) {
+      throw new Error(`Invalid max: ${col.max}`)
+    }
+    return { ...col, header: col.header || col.path }
+  })
+  const headers = ([] as string[]).concat(...normalized.map(headersOf))
+  headers.forEach((header, i) => {
+    if (headers.indexOf(header) !== i) {
+      throw new Error(`Duplicate column: ${header}`)
+    }
+  })
+  return normalized
+}
+
+// Flatten a record into a row with a field per column. Query results
+// with idOnly are strings, and are exported as records with an ID
+//
+// @param record - record to flatten
+// @param columns - column mappings or paths
+//
+// @return flat record, keyed by column headers
+export function flattenRecord(
+  record: unknown,
+  columns?: Array<ExportColumn | string>,
+): FlatRecord {
+  return flatten(record, normalizeColumns(columns))
+}
+
+function flatten(record: unknown, columns: ExportColumn[]): FlatRecord {
+  const obj = typeof record === 'string' ? { ID: record } : record
+  const flat: FlatRecord = {}
+  for (const column of columns) {
+    const values = selectValues(obj, column.path)
+    const header = column.header!
+    switch (column.repeat || 'join') {
+    case 'first':
+      flat[header] = values.length > 0 ? values[0] : ''
+      break
+    case 'count':
+      flat[header] = values.length
+      break
+    case 'columns':
+      headersOf(column).forEach((name, i) => flat[name] = values[i] || '')
+      break
+    case 'array':
+      flat[header] = values
+      break
+    case 'join':
+      flat[header] = values.join(column.separator || '; ')
+      break
+    default:
+      throw new Error(`Invalid repeat rule: ${column.repeat}`)
+    }
+  }
+  return flat
+}
+
+function csvField(value: FlatValue): string {
+  const str = Array.isArray(value) ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+function csvRow(values: FlatValue[]): string {
+  return `${values.map(csvField).join(',')}\r\n`
+}
+
+// Export records as lines of CSV or JSON Lines. Records are consumed one
+// at a time, so large query iterations are not held in memory
+//
+// @param records - records, e.g. the results of query, or the async
+//                  iterator of queryAll
+// @param options - format, columns and header
+//
+// @return async iterator of lines, each ending with a line break
+export async function* exportLines(
+  records: Iterable<unknown> | AsyncIterable<unknown>,
+  options: ExportOptions = {},
+): AsyncGenerator<string> {
+  const format = options.format || 'csv'
+  if (format !== 'csv' && format !== 'jsonl') {
+    throw new Error(`Invalid export format: ${format}`)
+  }
+  const columns = normalizeColumns(options.columns)
+  const headers = ([] as string[]).concat(...columns.map(headersOf))
+  if (format === 'csv' && options.header !== false) {
+    yield csvRow(headers)
+  }
+  for await (const record of records) {
+    const flat = flatten(record, columns)
+    yield format === 'csv' ?
+      csvRow(headers.map((header) => flat[header])) :
+      `${JSON.stringify(flat)}\n`
+  }
+}
+
+// Export records to a readable stream, e.g. to pipe into a file or an
+// HTTP response:
+//
+//   exportRecords(eidr.queryAll(q), { format: 'csv' })
+//     .pipe(fs.createWriteStream('results.csv'))
+export function exportRecords(
+  records: Iterable<unknown> | AsyncIterable<unknown>,
+  options: ExportOptions = {},
+): Readable {
+  return Readable.from(exportLines(records, options))
+}
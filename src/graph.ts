@@ -0,0 +1,199 @@
+import { EIDRMalformedResponseError } from './errors'
+
+// Node/edge model of the relationships between EIDR records, as returned
+// by the GetLightweightRelationships graph traversal. Graphs can be
+// merged, e.g. to collect all the relationships of a franchise, and
+// exported as JSON or as Graphviz DOT:
+//
+//   const graph = await eidr.graphTraversal(id,
+//     GraphTraversalTypes.GetLightweightRelationships)
+//   fs.writeFileSync('graph.dot', graph.toDot())
+//
+// and then: dot -Tsvg graph.dot > graph.svg
+
+// Graph traversal requests of the registry
+export enum GraphTraversalTypes {
+  FindAncestors = 'FindAncestors',
+  FindDescendants = 'FindDescendants',
+  GetDependents = 'GetDependents',
+  GetSeriesAncestry = 'GetSeriesAncestry',
+  GetLightweightRelationships = 'GetLightweightRelationships',
+  GetRemotestAncestor = 'GetRemotestAncestor',
+  GetLeafDescendants = 'GetLeafDescendants',
+  GetParent = 'GetParent',
+  GetChildren = 'GetChildren'
+}
+
+export const relationshipTypes = [
+  'isSeasonOf',
+  'isEpisodeOf',
+  'isEditOf',
+  'isClipOf',
+  'isManifestationOf',
+  'isPackagingOf',
+  'isCompilationOf',
+  'isCompositeOf',
+  'isPromotionOf',
+  'isSupplementalTo',
+  'isAlternateContentFor',
+] as const
+
+// Known relationship types. Other types reported by the registry are
+// kept as is
+export type RelationshipType =
+  | typeof relationshipTypes[number]
+  | (string & Record<never, never>)
+
+export interface GraphNode {
+  id: string
+  // Title or other label, e.g. for DOT output
+  label?: string
+}
+
+// The source record is related to the target record, e.g. an episode
+// (source) isEpisodeOf a season (target)
+export interface GraphEdge {
+  source: string
+  target: string
+  type: RelationshipType
+}
+
+export type EdgeDirection = 'outgoing' | 'incoming' | 'both'
+
+export interface RelationshipGraphJson {
+  root?: string
+  nodes: GraphNode[]
+  edges: GraphEdge[]
+}
+
+function toArray<T>(value?: T | T[]): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value]
+}
+
+function dotEscape(str: string) {
+  return str.replace(/\\/g, '\\\\').replace(/"/g, '\\"')
+}
+
+// Quoted DOT string, with lines separated by \n escapes
+function dotString(...lines: string[]) {
+  return `"${lines.map(dotEscape).join('\\n')}"`
+}
+
+export class RelationshipGraph {
+  private readonly nodeMap = new Map<string, GraphNode>()
+  private readonly edgeList: GraphEdge[] = []
+
+  constructor(public readonly root?: string, edges: GraphEdge[] = []) {
+    if (root) {
+      this.addNode(root)
+    }
+    edges.forEach((edge) => this.addEdge(edge))
+  }
+
+  // Parse the LightweightRelationships element of a registry response.
+  // Relationships with multiple types add an edge per type
+  public static fromResponse(response: Record<string, any>) {
+    const root = toArray(response.ID)[0]
+    const graph = new RelationshipGraph(
+      typeof root === 'string' ? root : undefined,
+    )
+    for (const relationship of toArray(response.Relationship)) {
+      const source = toArray(relationship.Source)[0]
+      const target = toArray(relationship.Target)[0]
+      if (typeof source !== 'string' || typeof target !== 'string') {
+        throw new EIDRMalformedResponseError(
+          'Unrecognized response',
+          'Invalid relationship: missing source or target',
+          { operation: 'graphTraversal' },
+        )
+      }
+      for (const type of toArray<string>(relationship.Type)) {
+        graph.addEdge({ source, target, type })
+      }
+    }
+    return graph
+  }
+
+  public static fromJSON(json: RelationshipGraphJson) {
+    const graph = new RelationshipGraph(json.root, json.edges)
+    json.nodes.forEach((node) => graph.addNode(node.id, node.label))
+    return graph
+  }
+
+  public getNodes(): GraphNode[] {
+    return Array.from(this.nodeMap.values())
+  }
+
+  public getEdges(): GraphEdge[] {
+    return this.edgeList.slice()
+  }
+
+  // Add a node or set the label of an existing node
+  public addNode(id: string, label?: string): GraphNode {
+    let node = this.nodeMap.get(id)
+    if (!node) {
+      node = { id }
+      this.nodeMap.set(id, node)
+    }
+    if (label !== undefined) {
+      node.label = label
+    }
+    return node
+  }
+
+  // Add an edge and its nodes. Duplicate edges are ignored
+  public addEdge(edge: GraphEdge) {
+    this.addNode(edge.source)
+    this.addNode(edge.target)
+    if (!this.edgeList.some((e) => e.source === edge.source &&
+      e.target === edge.target && e.type === edge.type)) {
+      this.edgeList.push({ ...edge })
+    }
+    return this
+  }
+
+  // Add the nodes and edges of other graphs
+  public merge(...graphs: RelationshipGraph[]) {
+    for (const graph of graphs) {
+      graph.getNodes().forEach((node) => this.addNode(node.id, node.label))
+      graph.getEdges().forEach((edge) => this.addEdge(edge))
+    }
+    return this
+  }
+
+  // Edges from (outgoing) or to (incoming) a node
+  public edgesOf(id: string, direction: EdgeDirection = 'both') {
+    return this.edgeList.filter((e) =>
+      ((direction !== 'incoming' && e.source === id) ||
+       (direction !== 'outgoing' && e.target === id)))
+  }
+
+  public toJSON(): RelationshipGraphJson {
+    return {
+      ...(this.root ? { root: this.root } : {}),
+      nodes: this.getNodes().map((node) => ({ ...node })),
+      edges: this.getEdges(),
+    }
+  }
+
+  // Graphviz DOT digraph. Nodes are labeled with their label and ID,
+  // edges with their relationship type. The root node is highlighted
+  public toDot(name = this.root || 'EIDR'): string {
+    const nodes = this.getNodes().map((node) => {
+      const label = node.label === undefined ?
+        dotString(node.id) :
+        dotString(node.label, node.id)
+      const style = node.id === this.root ? ', style=bold' : ''
+      return `  ${dotString(node.id)} [label=${label}${style}];`
+    })
+    const edges = this.edgeList.map((edge) =>
+      `  ${dotString(edge.source)} -> ${dotString(edge.target)} ` +
+      `[label=${dotString(edge.type)}];`)
+    return [
+      `digraph ${dotString(name)} {`,
+      ...nodes,
+      ...edges,
+      '}',
+    ].join('\n') + '\n'
+  }
+}
@@ -0,0 +1,160 @@
+import { ExtraObjectMetadata, FullMetadata, Text, ValueOf } from './models'
+
+// Typed trees for content hierarchies: series, seasons and episodes, or
+// abstractions and their edits, clips and manifestations. Nodes are built
+// from full metadata records by the getHierarchy and getAncestry actions
+
+export const hierarchyKinds = [
+  'series',
+  'season',
+  'episode',
+  'edit',
+  'clip',
+  'manifestation',
+  'compilation',
+  'other',
+] as const
+
+export type HierarchyKind = typeof hierarchyKinds[number]
+
+export interface HierarchyItem {
+  id: string
+  kind: HierarchyKind
+  title?: string
+  // Episode distribution number or season sequence number
+  sequence?: number
+  record?: FullMetadata
+  // Set if the record could not be found in the registry
+  missing?: boolean
+}
+
+export interface HierarchyNode extends HierarchyItem {
+  children: HierarchyNode[]
+  // Set if the node is also an ancestor of itself. Its children are
+  // not expanded
+  cycle?: boolean
+}
+
+const kinds: Record<keyof ExtraObjectMetadata, HierarchyKind> = {
+  SeriesInfo: 'series',
+  SeasonInfo: 'season',
+  EpisodeInfo: 'episode',
+  EditInfo: 'edit',
+  ClipInfo: 'clip',
+  ManifestationInfo: 'manifestation',
+  CompilationInfo: 'compilation',
+}
+
+function extraInfo(record: FullMetadata) {
+  const extra = record.ExtraObjectMetadata || {}
+  const key = (Object.keys(kinds) as Array<keyof ExtraObjectMetadata>)
+    .find((k) => extra[k] !== undefined)
+  return key && { key, info: extra[key] as Record<string, any> }
+}
+
+export function kindOf(record: FullMetadata): HierarchyKind {
+  const extra = extraInfo(record)
+  if (extra) {
+    return kinds[extra.key]
+  }
+  switch (record.ReferentType) {
+  case 'Series':
+    return 'series'
+  case 'Season':
+    return 'season'
+  default:
+    return 'other'
+  }
+}
+
+// ID of the parent record, if any
+export function parentOf(record: FullMetadata): string | undefined {
+  const extra = extraInfo(record)
+  return extra && typeof extra.info.Parent === 'string' ?
+    extra.info.Parent :
+    undefined
+}
+
+function textOf(text?: Text) {
+  return typeof text === 'string' ? text : text && text._
+}
+
+function numberOf(value?: ValueOf | string) {
+  const str = typeof value === 'string' ? value : value && value.value
+  const num = str === undefined ? NaN : parseFloat(str)
+  return isNaN(num) ? undefined : num
+}
+
+function sequenceInfo(record: FullMetadata) {
+  const episode = record.ExtraObjectMetadata &&
+    record.ExtraObjectMetadata.EpisodeInfo
+  return (episode && episode.SequenceInfo) || {}
+}
+
+export function houseSequence(record: FullMetadata): string | undefined {
+  const info = sequenceInfo(record)
+  const value = info.HouseSequence || info['md:HouseSequence']
+  return value && value.value
+}
+
+export function sequenceOf(record: FullMetadata): number | undefined {
+  const info = sequenceInfo(record)
+  const distribution = info.DistributionNumber ||
+    info['md:DistributionNumber']
+  if (distribution) {
+    return numberOf(distribution)
+  }
+  const season = record.ExtraObjectMetadata &&
+    record.ExtraObjectMetadata.SeasonInfo
+  return season && numberOf(season.SequenceNumber)
+}
+
+export function hierarchyItem(
+  id: string,
+  record: FullMetadata,
+): HierarchyItem {
+  const item: HierarchyItem = { id, kind: kindOf(record), record }
+  const title = textOf(record.ResourceName)
+  if (title !== undefined) {
+    item.title = title
+  }
+  const sequence = sequenceOf(record)
+  if (sequence !== undefined) {
+    item.sequence = sequence
+  }
+  return item
+}
+
+function compareDefined<T extends string | number>(
+  a: T | undefined,
+  b: T | undefined,
+) {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1
+  }
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function compareHouseSequence(a?: string, b?: string) {
+  const na = numberOf(a)
+  const nb = numberOf(b)
+  return na !== undefined && nb !== undefined ?
+    na - nb :
+    compareDefined(a, b)
+}
+
+// Order siblings by distribution (or season) number, then by house
+// sequence, release date and ID. Items without a value are ordered
+// after items with one
+export function compareItems(a: HierarchyItem, b: HierarchyItem): number {
+  return compareDefined(a.sequence, b.sequence) ||
+    compareHouseSequence(
+      a.record && houseSequence(a.record),
+      b.record && houseSequence(b.record),
+    ) ||
+    compareDefined(
+      a.record && a.record.ReleaseDate,
+      b.record && b.record.ReleaseDate,
+    ) ||
+    compareDefined(a.id, b.id)
+}
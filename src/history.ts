@@ -0,0 +1,149 @@
+import { PersistentStore } from 'reshuffle-base-connector'
+import { FullMetadata, Provenance } from './models'
+import { RecordDiff, diffRecords } from './diff'
+
+// Change history of records. The registry keeps only the creation and
+// last modification of a record (Provenance), so each call of getHistory
+// keeps a snapshot of the record when it was modified since the previous
+// snapshot, and builds the timeline of the record from its provenance and
+// its snapshots. Other actions, like resolve, keep no snapshots. Snapshots
+// are kept in any object implementing SnapshotStore: in memory
+// (MemorySnapshotStore below), in the Reshuffle datastore
+// (StoreSnapshotStore below, the default) or in an external service.
+//
+// Snapshots are plain JSON objects, ordered from oldest to newest.
+// Stores keep a limited number of snapshots per record (default 20) and
+// drop the oldest ones first.
+
+export interface RecordSnapshot {
+  // LastModificationDate of the record when the snapshot was taken
+  modified: string
+  // LastModifiedBy of the record when the snapshot was taken
+  modifiedBy?: string
+  // Time the snapshot was taken
+  taken: string
+  record: FullMetadata
+}
+
+export interface SnapshotStore {
+  // Snapshots of a record, from oldest to newest
+  list(key: string): Promise<RecordSnapshot[]>
+  // Add the newest snapshot of a record
+  add(key: string, snapshot: RecordSnapshot): Promise<void>
+}
+
+export type HistoryEntryType = 'created' | 'modified'
+
+export interface HistoryEntry {
+  type: HistoryEntryType
+  // CreationDate or LastModificationDate
+  date: string
+  // Party that created or modified the record
+  by?: string
+  // Snapshot of the record after the change, if one was taken
+  record?: FullMetadata
+  // Changes since the previous snapshot, if there is one. Changes of
+  // modifications without snapshots are included in the next entry
+  // with a snapshot
+  changes?: RecordDiff
+}
+
+export interface RecordHistory {
+  id: string
+  provenance: Provenance
+  // Entries from oldest to newest
+  entries: HistoryEntry[]
+}
+
+// In memory snapshot store
+export class MemorySnapshotStore implements SnapshotStore {
+  private snapshots = new Map<string, string>()
+
+  constructor(private maxSnapshots = 20) {
+  }
+
+  public async list(key: string) {
+    const json = this.snapshots.get(key)
+    return json ? JSON.parse(json) as RecordSnapshot[] : []
+  }
+
+  public async add(key: string, snapshot: RecordSnapshot) {
+    const snapshots = [...await this.list(key), snapshot]
+    this.snapshots.set(key,
+      JSON.stringify(snapshots.slice(-this.maxSnapshots)))
+  }
+}
+
+// Snapshot store backed by a Reshuffle persistent store
+export class StoreSnapshotStore implements SnapshotStore {
+  constructor(
+    private store: PersistentStore,
+    private prefix = 'eidr-history:',
+    private maxSnapshots = 20,
+  ) {
+  }
+
+  public async list(key: string) {
+    const snapshots = await this.store.get(this.prefix + key)
+    return Array.isArray(snapshots) ? snapshots as RecordSnapshot[] : []
+  }
+
+  public async add(key: string, snapshot: RecordSnapshot) {
+    const snapshots = [...await this.list(key), snapshot]
+    await this.store.set(this.prefix + key,
+      snapshots.slice(-this.maxSnapshots))
+  }
+}
+
+// Build the timeline of a record
+//
+// @param id - EIDR ID
+// @param provenance - current provenance of the record
+// @param snapshots - snapshots of the record, from oldest to newest
+//
+// @return history with a created entry, and a modified entry for each
+//         snapshot of a modification and for the last modification
+export function buildHistory(
+  id: string,
+  provenance: Provenance,
+  snapshots: RecordSnapshot[],
+): RecordHistory {
+  const created = provenance.CreationDate
+  const entries: HistoryEntry[] = []
+  if (created) {
+    entries.push({ type: 'created', date: created, by: provenance.CreatedBy })
+  }
+
+  // Keep the newest snapshot of each version
+  const versions = snapshots.filter((snapshot, i) =>
+    i === snapshots.length - 1 ||
+    snapshots[i + 1].modified !== snapshot.modified)
+
+  let previous: RecordSnapshot | undefined
+  for (const snapshot of versions) {
+    const last = entries[entries.length - 1]
+    if (last && last.date === snapshot.modified) {
+      last.record = snapshot.record
+    } else {
+      entries.push({
+        type: 'modified',
+        date: snapshot.modified,
+        by: snapshot.modifiedBy,
+        record: snapshot.record,
+        changes: previous && diffRecords(previous.record, snapshot.record),
+      })
+    }
+    previous = snapshot
+  }
+
+  const modified = provenance.LastModificationDate
+  const last = entries[entries.length - 1]
+  if (modified && modified !== created && (!last || last.date < modified)) {
+    entries.push({
+      type: 'modified',
+      date: modified,
+      by: provenance.LastModifiedBy,
+    })
+  }
+  return { id, provenance, entries }
+}
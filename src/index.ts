@@ -1,46 +1,441 @@
 import crypto from 'crypto'
 import xml2js from 'xml2js'
 import fetch from 'node-fetch'
-import { BaseConnector, Reshuffle } from 'reshuffle-base-connector'
-import { validateId } from './validate'
-import { buildJsonQuery } from './jsonQuery'
+import {
+  BaseConnector,
+  EventConfiguration,
+  Reshuffle,
+} from 'reshuffle-base-connector'
+import { normalizeId } from './validate'
+import { JsonQuery, buildJsonQuery } from './jsonQuery'
+import { QueryBuilder } from './queryBuilder'
 import { parseJsonWithValue } from './jsonPopulateValue'
+import {
+  AlternateIDs,
+  DOIKernel,
+  FullMetadata,
+  LinkedAlternateIDs,
+  Party,
+  Provenance,
+  QueryResult,
+  ResolveResult,
+  Service,
+  SimpleMetadata,
+} from './models'
+import {
+  AlternateIDValue,
+  AssociatedOrgValue,
+  BaseObjectDataValue,
+  RegistrationRecord,
+  renderRegistration,
+} from './registration'
+import {
+  CacheFlags,
+  CacheStats,
+  MemoryCache,
+  ResponseCache,
+} from './cache'
+import {
+  RateLimitOptions,
+  RetryOptions,
+  TokenBucket,
+  backoffDelay,
+  limitConcurrency,
+  parseRetryAfter,
+  sleep,
+} from './retry'
+import {
+  DuplicateCandidate,
+  DuplicateMatch,
+  buildDuplicateQuery,
+  scoreDuplicate,
+} from './dedup'
+import {
+  EIDRAuthenticationError,
+  EIDRError,
+  EIDRInvalidIdError,
+  EIDRInvalidQueryError,
+  EIDRMalformedResponseError,
+  EIDRUnavailableError,
+  httpError,
+  isNotFound,
+  registryError,
+} from './errors'
+import { GraphTraversalTypes, RelationshipGraph } from './graph'
+import {
+  AssociatedOrgParty,
+  DirectoryKind,
+  associatedOrgIds,
+  buildDirectoryQuery,
+} from './directory'
+import {
+  AlternateIdLookup,
+  AlternateIdMatch,
+  AlternateIdResult,
+  buildAlternateIdQuery,
+  matchAlternateIds,
+  normalizeAlternateId,
+} from './altid'
+import {
+  HierarchyItem,
+  HierarchyKind,
+  HierarchyNode,
+  compareItems,
+  hierarchyItem,
+  parentOf,
+} from './hierarchy'
+import {
+  WatchEvent,
+  WatchOptions,
+  WatchSource,
+  pollWatch,
+} from './watch'
+import {
+  ListModification,
+  canonicalContentId,
+  renderAlias,
+  renderAlternateIDs,
+  renderAssociatedOrgs,
+  renderModifyBase,
+  renderPromote,
+} from './modification'
+import {
+  CredentialProfile,
+  CredentialProfiles,
+  EIDREnvironment,
+  environmentEndpoint,
+  environments,
+  profilesFromEnv,
+  profilesFromFile,
+  redactSecrets,
+} from './profiles'
+import {
+  RecordHistory,
+  RecordSnapshot,
+  SnapshotStore,
+  StoreSnapshotStore,
+  buildHistory,
+} from './history'
+import { diffRecords, isEmptyDiff } from './diff'
+import {
+  apiVersionAdapter,
+  apiVersions,
+  defaultApiVersion,
+  normalizeResponse,
+} from './versions'
+
+export {
+  AlternateIDValue,
+  AssociatedOrgValue,
+  BaseObjectDataValue,
+  RegistrationKind,
+  RegistrationRecord,
+} from './registration'
+export { DuplicateCandidate, DuplicateMatch } from './dedup'
+export {
+  NormalizedId,
+  checkDigit,
+  normalizeId,
+  validateId,
+  verifyCheckDigit,
+} from './validate'
+export * from './models'
+export {
+  CacheFlags,
+  CacheStats,
+  MemoryCache,
+  ResponseCache,
+  StoreCache,
+} from './cache'
+export {
+  CreditMatch,
+  DateMatch,
+  ExistsElement,
+  IdMatch,
+  JsonQuery,
+  Length,
+  LengthMatch,
+  OrgMatch,
+  PathMatch,
+  TextElement,
+  TextMatch,
+  buildJsonQuery,
+} from './jsonQuery'
+export {
+  ElementQueryBuilder,
+  OrgQueryBuilder,
+  PathQueryBuilder,
+  Q,
+  QueryBuilder,
+  QueryLike,
+  TextQueryBuilder,
+} from './queryBuilder'
+export {
+  EIDRAuthenticationError,
+  EIDRAuthorizationError,
+  EIDRError,
+  EIDRErrorInfo,
+  EIDRInvalidIdError,
+  EIDRInvalidQueryError,
+  EIDRMalformedResponseError,
+  EIDRNotFoundError,
+  EIDRThrottledError,
+  EIDRUnavailableError,
+  isNotFound,
+  registryStatusCodes,
+} from './errors'
+export { MockEIDRServer } from './mock/server'
+export {
+  QueryClause,
+  QueryExpression,
+  QueryNary,
+  QueryNot,
+  QueryOperator,
+  QueryTerm,
+  QueryToken,
+  QuerySyntaxError,
+  formatQuery,
+  parseQuery,
+  toJsonQuery,
+  tokenizeQuery,
+} from './queryParser'
+export { HierarchyItem, HierarchyKind, HierarchyNode } from './hierarchy'
+export { AssociatedOrgParty } from './directory'
+export {
+  ExportColumn,
+  ExportFormat,
+  ExportOptions,
+  FlatRecord,
+  FlatValue,
+  RepeatRule,
+  defaultExportColumns,
+  exportLines,
+  exportRecords,
+  flattenRecord,
+  selectValues,
+} from './export'
+export {
+  JsonLdNode,
+  JsonLdOptions,
+  MdmecAltIdentifier,
+  MdmecAssociatedOrg,
+  MdmecBasicMetadata,
+  MdmecLocalizedInfo,
+  MdmecParent,
+  MdmecPerson,
+  MdmecSequenceInfo,
+  renderMdmec,
+  toJsonLd,
+  toMdmec,
+} from './convert'
+export {
+  CredentialProfile,
+  CredentialProfiles,
+  EIDREnvironment,
+  environments,
+  profilesFromEnv,
+  profilesFromFile,
+  redactSecrets,
+} from './profiles'
+export {
+  ApiVersionAdapter,
+  apiVersions,
+  defaultApiVersion,
+  registerApiVersion,
+} from './versions'
+export {
+  DiffOptions,
+  FieldChange,
+  RecordDiff,
+  diffRecords,
+  isEmptyDiff,
+} from './diff'
+export {
+  HistoryEntry,
+  HistoryEntryType,
+  MemorySnapshotStore,
+  RecordHistory,
+  RecordSnapshot,
+  SnapshotStore,
+  StoreSnapshotStore,
+} from './history'
+export {
+  EIDRRouter,
+  RouteRequest,
+  RouteResponse,
+  RouterOptions,
+} from './router'
+export {
+  IdWatchOptions,
+  QueryWatchOptions,
+  WatchEvent,
+  WatchEventType,
+  WatchOptions,
+} from './watch'
+export {
+  AlternateIdLookup,
+  AlternateIdMatch,
+  AlternateIdResult,
+  normalizeAlternateId,
+} from './altid'
+export {
+  EdgeDirection,
+  GraphEdge,
+  GraphNode,
+  GraphTraversalTypes,
+  RelationshipGraph,
+  RelationshipGraphJson,
+  RelationshipType,
+  relationshipTypes,
+} from './graph'
 
-const availableApiVersions = ['2.6.0', '2.7.0', '2.7.1']
-const eidrApiVersion = '2.7.1'
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const eidrConnectorVersion = require('../package.json').version
 
 type Obj = Record<string, any>
 type Options = Record<string, any>
 
-enum GraphTraversalTypes {
-  FindAncestors = 'FindAncestors',
-  FindDescendants = 'FindDescendants',
-  GetDependents = 'GetDependents',
-  GetSeriesAncestry = 'GetSeriesAncestry',
-  GetLightweightRelationships = 'GetLightweightRelationships',
-  GetRemotestAncestor = 'GetRemotestAncestor',
-  GetLeafDescendants = 'GetLeafDescendants',
-  GetParent = 'GetParent',
-  GetChildren = 'GetChildren'
+// Result type of each graph traversal
+export interface GraphTraversalResults {
+  [GraphTraversalTypes.FindAncestors]: SimpleMetadata[]
+  [GraphTraversalTypes.FindDescendants]: SimpleMetadata[]
+  [GraphTraversalTypes.GetDependents]: SimpleMetadata[]
+  [GraphTraversalTypes.GetSeriesAncestry]: SimpleMetadata[]
+  [GraphTraversalTypes.GetLightweightRelationships]: RelationshipGraph
+  [GraphTraversalTypes.GetRemotestAncestor]: SimpleMetadata | null
+  [GraphTraversalTypes.GetLeafDescendants]: SimpleMetadata[]
+  [GraphTraversalTypes.GetParent]: SimpleMetadata | null
+  [GraphTraversalTypes.GetChildren]: SimpleMetadata[]
+}
+
+interface RequestOptions {
+  signal?: AbortSignal
+  timeout?: number
+}
+
+interface ActionOptions extends CacheFlags, RequestOptions {
 }
 
-interface QueryOptions {
+// Query expression string, JSON query or query builder
+type QueryInput = string | JsonQuery | QueryBuilder
+
+interface QueryOptions extends RequestOptions {
   idOnly?: boolean
   pageNumber?: number
   pageSize?: number
   root?: string
 }
 
-class EIDRError extends Error {
-  constructor(
-    message: string,
-    public status: number,
-    public details: string = message,
-  ) {
-    super(`EIDRConnector: ${message}`)
-  }
+interface QueryAllOptions extends RequestOptions {
+  idOnly?: boolean
+  pageSize?: number
+  root?: string
+  limit?: number
+  concurrency?: number
+}
+
+interface DirectoryQueryOptions extends RequestOptions {
+  pageNumber?: number
+  pageSize?: number
+}
+
+interface SimpleQueryOptions {
+  all?: boolean
+  limit?: number
+}
+
+type PartyID = `10.5237/${string}`
+type ServiceID = `10.5239/${string}`
+
+interface DuplicateOptions extends RequestOptions {
+  // Minimum score of returned matches. Default is 0.5
+  minScore?: number
+  // Number of records per query page. Default is 25
+  pageSize?: number
+  // Maximum number of records to score. Default is 100
+  limit?: number
+}
+
+interface HierarchyOptions extends ActionOptions {
+  // Maximum depth below the root. Unlimited by default
+  depth?: number
+  // Kinds of descendants to include. All by default
+  include?: HierarchyKind[]
+  // Maximum number of concurrent registry requests. Default is 4
+  concurrency?: number
+}
+
+interface AlternateIdOptions extends ActionOptions {
+  // Maximum number of matching records. Default is 25
+  pageSize?: number
+}
+
+interface AlternateIdBatchOptions extends AlternateIdOptions {
+  // Maximum number of concurrent lookups. Default is 4
+  concurrency?: number
+}
+
+interface AssociatedOrgOptions extends ActionOptions {
+  // Maximum number of concurrent party resolutions. Default is 4
+  concurrency?: number
+}
+
+interface HistoryOptions extends RequestOptions {
+  // Keep a snapshot of the current version of the record. Default is true
+  snapshot?: boolean
+}
+
+interface ResolveManyOptions extends ActionOptions {
+  // Resolution type of all IDs. Default is Full
+  type?: string
+  // Maximum number of concurrent resolutions. Default is 8
+  concurrency?: number
+  onProgress?: (progress: ResolveProgress) => void
+}
+
+// Result of resolving one ID of a batch (see resolveMany)
+export type ResolveOutcome =
+  | { id: string, ok: true, value: ResolveResult }
+  | { id: string, ok: false, status: number, error: Error }
+
+export interface ResolveProgress {
+  // Normalized ID that was just resolved
+  id: string
+  ok: boolean
+  completed: number
+  failed: number
+  // Number of unique valid IDs in the batch
+  total: number
+}
+
+interface OperationOptions extends RequestOptions {
+  immediate?: boolean
+}
+
+interface StatusOptions {
+  signal?: AbortSignal
+  wait?: boolean
+  pollInterval?: number
+  timeout?: number
+}
+
+interface OperationStatus {
+  token: string
+  status: 'pending' | 'success' | 'error'
+  id?: string
+  code: string
+  type: string
+  details?: string
+}
+
+interface ModificationResult {
+  id: string
+  status: 'applied' | 'pending'
+  token?: string
+}
+
+function requestOptions(options: RequestOptions): RequestOptions {
+  return { signal: options.signal, timeout: options.timeout }
 }
 
 interface CredentialsInterface {
@@ -48,75 +443,195 @@ interface CredentialsInterface {
   partyId: string
   password?: string
   shadow?: string
+  environment?: EIDREnvironment
   domain?: string
+  endpoint?: string
 }
 
+// Credentials object, credentials string (Eidr <userId>:<partyId>:<shadow>)
+// or the name of a credential profile of the connector
 type Credentials = string | CredentialsInterface
 
 class Authorization {
   public readonly endpoint: string
   public readonly headers: Obj = {}
   public readonly registered: boolean = false
+  public readonly partyId?: string
+  // Passwords and shadows, to be redacted from logged errors
+  public readonly secrets: string[] = []
 
-  constructor(credentials: Credentials) {
+  constructor(
+    credentials: Credentials | CredentialProfile,
+    defaultEndpoint = environments.production,
+  ) {
 
     function validate(tag: string, value: string): string {
       if (typeof value !== 'string' || value.trim().length === 0) {
-        throw new EIDRError(`Invalid ${tag}`, 401)
+        throw new EIDRAuthenticationError(`Invalid ${tag}`)
       }
       return value.trim()
     }
 
     if (typeof credentials === 'string') {
       if (!/^Eidr [^\s]+:[^\s]+:[^\s]+$/.test(credentials)) {
-        throw new EIDRError('Invalid credentials string', 401)
+        throw new EIDRAuthenticationError('Invalid credentials string')
       }
       const [userId, partyId, shadow] = credentials.substr(5).split(':')
       this.headers = { Authorization: `Eidr ${userId}:${partyId}:${shadow}` }
       this.registered = true
+      this.partyId = partyId
+      this.secrets = [shadow]
 
     } else if (credentials.userId) {
       const userId = validate('userId', credentials.userId)
-      const partyId = validate('partyId', credentials.partyId)
+      const partyId = validate('partyId', credentials.partyId!)
 
       let shadow
       if (credentials.password) {
         const password = validate('password', credentials.password)
         shadow = crypto.createHash('md5').update(password).digest('base64')
+        this.secrets = [password]
       } else if (credentials.shadow) {
         shadow = validate('shadow', credentials.shadow)
       } else {
-        throw new EIDRError(
+        throw new EIDRAuthenticationError(
           'Missing password',
-          401,
           'Password of shadow must be part of credentials'
         )
       }
 
       this.headers = { Authorization: `Eidr ${userId}:${partyId}:${shadow}` }
       this.registered = true
+      this.partyId = partyId
+      this.secrets = [...this.secrets, shadow]
     }
 
-    const domain = typeof credentials === 'string' || !credentials.domain ?
-      'resolve.eidr.org' :
-      validate('domain', credentials.domain)
-    this.endpoint = `https://${domain}/EIDR/`
+    // The endpoint option overrides the registry base URL, e.g. to
+    // point the connector at a local mock server over http
+    if (typeof credentials === 'string') {
+      this.endpoint = defaultEndpoint
+    } else if (credentials.endpoint) {
+      const endpoint = validate('endpoint', credentials.endpoint)
+      if (!/^https?:\/\/[^\s/]+/.test(endpoint)) {
+        throw new EIDRError(
+          'Invalid endpoint',
+          400,
+          `Endpoint must be an http or https URL: ${endpoint}`,
+        )
+      }
+      this.endpoint = endpoint.endsWith('/') ? endpoint : `${endpoint}/`
+    } else if (credentials.environment) {
+      try {
+        this.endpoint = environmentEndpoint(credentials.environment)
+      } catch (e) {
+        throw new EIDRError('Invalid environment', 400, (e as Error).message)
+      }
+    } else if (credentials.domain) {
+      this.endpoint = `https://${validate('domain', credentials.domain)}/EIDR/`
+    } else {
+      this.endpoint = defaultEndpoint
+    }
   }
 }
 
 export class EIDRConnector extends BaseConnector {
   private authorization: Authorization
   private xmlOptions: Obj
+  private cache?: ResponseCache
+  private cacheHits = 0
+  private cacheMisses = 0
+  // Cache keys of each EIDR ID, deleted when the record is modified
+  private cacheKeys = new Map<string, Set<string>>()
+  private retryOptions: RetryOptions
+  private timeout: number
+  private rateLimiter?: TokenBucket
+  private watchInterval: number
+  private watchTimers: Record<string, ReturnType<typeof setTimeout>> = {}
+  private watchPolls: Record<string, Promise<WatchEvent[]>> = {}
+  private profiles: CredentialProfiles = {}
+  private apiVersion: string
+  private profileAuthorizations: Record<string, Authorization> = {}
+  private snapshotStore?: SnapshotStore
 
   constructor(app: Reshuffle, options: Options = {
 
   }, id?: string) {
     super(app, options, id)
     this.authorization = new Authorization(options as Credentials)
+
+    // Named credential profiles, selected per action by passing the
+    // profile name as credentials. Profiles are merged from
+    // options.profilesFile, environment variables (options.profilesEnv,
+    // true or a variable name prefix) and options.profiles, in that
+    // order. Set options.profile to use a profile by default
+    try {
+      this.profiles = {
+        ...(options.profilesFile ?
+          profilesFromFile(options.profilesFile) :
+          {}),
+        ...(options.profilesEnv ?
+          profilesFromEnv(process.env, options.profilesEnv === true ?
+            undefined :
+            options.profilesEnv) :
+          {}),
+        ...(options.profiles || {}),
+      }
+    } catch (e) {
+      throw new EIDRError('Invalid profiles', 400, (e as Error).message)
+    }
+    if (options.profile) {
+      this.authorization = this.profileAuthorization(options.profile)
+    }
+
+    // Default registry API version of all actions. Actions can use
+    // another version with their apiVersion argument
+    this.apiVersion = options.apiVersion || defaultApiVersion
+    this.version(this.apiVersion)
+
     this.xmlOptions = {
       trim: true,
       explicitArray: false,
     }
+
+    // Set options.cache to true for the default in memory cache, to
+    // MemoryCache options ({ maxEntries, ttl }), or to any object
+    // implementing the ResponseCache interface
+    const cache = options.cache
+    if (cache === true) {
+      this.cache = new MemoryCache()
+    } else if (cache && typeof cache.get === 'function') {
+      this.cache = cache as ResponseCache
+    } else if (cache && typeof cache === 'object') {
+      this.cache = new MemoryCache(cache)
+    }
+
+    // Idempotent requests are retried on network errors and 5xx
+    // responses. All requests are retried on 429 (Too Many Requests).
+    // Set options.rateLimit to { requestsPerSecond, burst? } to limit
+    // the request rate of all actions of this connector
+    this.retryOptions = {
+      retries: options.retries === undefined ? 3 : options.retries,
+      retryDelay: options.retryDelay || 500,
+      maxRetryDelay: options.maxRetryDelay || 10000,
+    }
+    this.timeout = options.timeout || 30000
+    if (options.rateLimit) {
+      try {
+        this.rateLimiter =
+          new TokenBucket(options.rateLimit as RateLimitOptions)
+      } catch (e) {
+        throw new EIDRError('Invalid rate limit', 400, (e as Error).message)
+      }
+    }
+
+    // Milliseconds between polls of watches (see on) that do not set
+    // their own interval
+    this.watchInterval = options.watchInterval || 5 * 60 * 1000
+
+    // Record snapshots of getHistory are kept in the Reshuffle datastore,
+    // unless options.snapshotStore is set to an object implementing the
+    // SnapshotStore interface
+    this.snapshotStore = options.snapshotStore
   }
 
   private renderOperationRequest(operation: string) {
@@ -163,146 +678,1012 @@ export class EIDRConnector extends BaseConnector {
     path: string,
     auth: Authorization = this.authorization,
     body?: string,
-    customEidrVersion?: string
+    customEidrVersion?: string,
+    options: RequestOptions & { idempotent?: boolean, operation?: string } = {},
   ) {
+    const { operation } = options
+    const version = this.version(customEidrVersion)
+    const idempotent = options.idempotent ?? method === 'GET'
+    const { retries } = this.retryOptions
 
-    const res = await fetch(auth.endpoint + path, {
-      method,
-      headers: {
-        ...auth.headers,
-        'Content-Type': 'text/xml',
-        'EIDR-Version': customEidrVersion || eidrApiVersion,
-      },
-      ...(body ? { body } : {}),
-    })
+    for (let attempt = 0; ; attempt++) {
+      let res
+      try {
+        if (this.rateLimiter) {
+          await this.rateLimiter.take(options.signal)
+        }
+        res = await fetch(auth.endpoint + path, {
+          method,
+          headers: {
+            ...auth.headers,
+            'Content-Type': 'text/xml',
+            'EIDR-Version': version,
+          },
+          ...(body ? { body } : {}),
+          signal: options.signal,
+          timeout: options.timeout || this.timeout,
+        })
+      } catch (e) {
+        const error = e as Error & { type?: string }
+        if (error.name === 'AbortError') {
+          throw new EIDRError('Aborted', 499, `Request aborted: ${path}`,
+            { operation })
+        }
+        if (idempotent && attempt < retries) {
+          await this.retryDelay(backoffDelay(attempt, this.retryOptions),
+            path, options.signal, operation)
+          continue
+        }
+        throw error.type === 'request-timeout' ?
+          new EIDRError('Timeout', 504, `Request timed out: ${path}`,
+            { operation }) :
+          new EIDRUnavailableError('Network error',
+            this.redact(error.message, auth), { operation })
+      }
 
-    if (res.status !== 200) {
-      throw new EIDRError(
-        'API error',
+      if (res.status === 200) {
+        const xml = await res.text()
+        let obj: Obj
+        try {
+          obj = await xml2js.parseStringPromise(xml, this.xmlOptions)
+        } catch (e) {
+          throw new EIDRMalformedResponseError(
+            'Unrecognized response',
+            this.redact(
+              `Invalid XML response from registry: ${(e as Error).message}`,
+              auth,
+            ),
+            { operation },
+          )
+        }
+        return this.redactStatus(normalizeResponse(version, obj, path), auth)
+      }
+
+      const retryable = res.status === 429 ||
+        (idempotent && (res.status === 408 || 500 <= res.status))
+      if (retryable && attempt < retries) {
+        const retryAfter = parseRetryAfter(res.headers.get('Retry-After'))
+        await this.retryDelay(
+          retryAfter === undefined ?
+            backoffDelay(attempt, this.retryOptions) :
+            Math.min(retryAfter, this.retryOptions.maxRetryDelay),
+          path,
+          options.signal,
+          operation,
+        )
+        continue
+      }
+
+      throw httpError(
         res.status,
-        `HTTP error accessing EIDR registry API: ${res.status} ${res.statusText}`,
+        this.redact('HTTP error accessing EIDR registry API: ' +
+          `${res.status} ${res.statusText}`, auth),
+        operation,
       )
     }
+  }
 
-    const xml = await res.text()
-    return xml2js.parseStringPromise(xml, this.xmlOptions)
+  // Redact the status details of a registry response. All errors and
+  // operation statuses with text of the registry are built from these
+  // details or by request() itself, so secrets echoed by the registry
+  // never reach callers or logs
+  private redactStatus(obj: Obj, auth: Authorization) {
+    const res = obj && obj.Response
+    for (const op of [res, res && res.OperationStatus]) {
+      if (op && op.Status && typeof op.Status.Details === 'string') {
+        op.Status.Details = this.redact(op.Status.Details, auth)
+      }
+    }
+    return obj
+  }
+
+  private async retryDelay(
+    ms: number,
+    path: string,
+    signal?: AbortSignal,
+    operation?: string,
+  ) {
+    try {
+      await sleep(ms, signal)
+    } catch (e) {
+      if ((e as Error).name === 'AbortError') {
+        throw new EIDRError('Aborted', 499, `Request aborted: ${path}`,
+          { operation })
+      }
+      throw e
+    }
+  }
+
+  private async cached<T>(
+    key: string,
+    id: string,
+    flags: CacheFlags,
+    fetchValue: () => Promise<T>,
+  ): Promise<T> {
+    if (!this.cache || flags.bypass) {
+      return fetchValue()
+    }
+    if (!flags.refresh) {
+      const value = await this.cache.get(key)
+      if (value !== undefined) {
+        this.cacheHits++
+        return value
+      }
+    }
+    this.cacheMisses++
+    const value = await fetchValue()
+    await this.cache.set(key, value)
+    const normalized = normalizeId(id)
+    const recordId = normalized.valid ? normalized.id : id
+    const keys = this.cacheKeys.get(recordId) || new Set<string>()
+    this.cacheKeys.set(recordId, keys.add(key))
+    return value
+  }
+
+  // Delete the cached resolutions and graph traversals of records, e.g.
+  // after they are modified. Only entries cached by this connector are
+  // deleted: entries of other connectors sharing the cache expire with
+  // their time to live
+  //
+  // @param ids - canonical EIDR IDs
+  private async invalidate(ids: string[]) {
+    for (const id of ids) {
+      const keys = this.cacheKeys.get(id)
+      this.cacheKeys.delete(id)
+      if (this.cache && keys) {
+        await Promise.all(Array.from(keys)
+          .map((key) => this.cache!.delete(key)))
+      }
+    }
+  }
+
+  private profileAuthorization(name: string): Authorization {
+    if (!(name in this.profileAuthorizations)) {
+      if (!Object.prototype.hasOwnProperty.call(this.profiles, name)) {
+        throw new EIDRAuthenticationError(
+          'Unknown profile',
+          `Unknown credential profile: ${name}`,
+        )
+      }
+      this.profileAuthorizations[name] =
+        new Authorization(this.profiles[name], this.authorization.endpoint)
+    }
+    return this.profileAuthorizations[name]
+  }
+
+  // Authorization of credentials passed to an action: a profile name,
+  // credentials string or object, or the connector credentials
+  private authorizationFor(credentials?: Credentials): Authorization {
+    if (!credentials) {
+      return this.authorization
+    }
+    if (typeof credentials === 'string' && !credentials.startsWith('Eidr ')) {
+      return this.profileAuthorization(credentials)
+    }
+    return new Authorization(credentials, this.authorization.endpoint)
+  }
+
+  // Validate a requested API version
+  //
+  // @param apiVersion - requested version, or undefined for the default
+  //                     version of the connector
+  //
+  // @return supported version
+  private version(apiVersion?: string): string {
+    const version = apiVersion || this.apiVersion
+    try {
+      apiVersionAdapter(version)
+    } catch (e) {
+      throw new EIDRError('Unsupported API version', 400,
+        (e as Error).message)
+    }
+    return version
+  }
+
+  // Key suffix of credentials with an endpoint other than the connector
+  // endpoint, e.g. a sandbox profile
+  private registryScope(credentials?: Credentials): string {
+    const { endpoint } = this.authorizationFor(credentials)
+    return endpoint === this.authorization.endpoint ? '' : `@${endpoint}`
+  }
+
+  // Cache key suffix of credentials: the party of registered
+  // credentials, since parties may see different records, and their
+  // registry
+  private cacheScope(credentials?: Credentials): string {
+    const { partyId } = this.authorizationFor(credentials)
+    return `${partyId ? `:${partyId}` : ''}${this.registryScope(credentials)}`
+  }
+
+  // Redact the passwords and shadows of the connector, its profiles and
+  // the credentials of a request
+  private redact(text: string, auth?: Authorization): string {
+    const secrets = [
+      ...this.authorization.secrets,
+      ...(auth ? auth.secrets : []),
+      ...Object.keys(this.profileAuthorizations)
+        .map((name) => this.profileAuthorizations[name].secrets),
+      ...Object.keys(this.profiles).map((name) => this.profiles[name])
+        .map((profile) => [profile.password, profile.shadow]),
+    ]
+    return redactSecrets(text, ([] as Array<string | undefined>)
+      .concat(...secrets)
+      .filter((secret): secret is string => secret !== undefined))
+  }
+
+  private registeredAuthorization(credentials?: Credentials) {
+    const auth = this.authorizationFor(credentials)
+    if (!auth.registered) {
+      throw new EIDRAuthenticationError(
+        'Unregistered',
+        'Query requires registered user credentials'
+      )
+    }
+    return auth
+  }
+
+  private assertResponseStatus(res: Obj, operation: string) {
+    if (!res || !res.Status) {
+      throw new EIDRMalformedResponseError(
+        'Unrecognized response',
+        'Unrecognized response from registry',
+        { operation },
+      )
+    }
+    if (res.Status.Code !== '0') {
+      throw registryError(res.Status, operation)
+    }
+  }
+
+  private parseOperationStatus(token: string, res: Obj): OperationStatus {
+    const op = res.OperationStatus || res
+    const status = op.Status || {}
+    const type = String(status.Type || '').toLowerCase()
+    return {
+      token,
+      status:
+        type === 'pending' ? 'pending' :
+        status.Code === '0' ? 'success' :
+        'error',
+      ...(op.ID ? { id: op.ID } : {}),
+      code: status.Code,
+      type: status.Type,
+      ...(status.Details ? { details: status.Details } : {}),
+    }
+  }
+
+  private queryExpression(exprOrObj: QueryInput): string {
+    const expr =
+      typeof exprOrObj === 'string' ? exprOrObj :
+      exprOrObj instanceof QueryBuilder ? exprOrObj.toString() :
+      typeof exprOrObj === 'object' ? buildJsonQuery(exprOrObj) :
+      undefined
+
+    if (expr === undefined) {
+      throw new EIDRInvalidQueryError(
+        'Invalid query',
+        `Query must be a string or an object: ${typeof exprOrObj}`,
+      )
+    }
+    return expr
+  }
+
+  // Events /////////////////////////////////////////////////////////
+
+  // Watch records or query results for changes. Watches are polled when
+  // the connector starts, then every interval milliseconds, and can be
+  // polled on demand with poll. The first poll of a watch records the
+  // current state, and later polls fire a WatchEvent for each change:
+  //
+  //   new        a record matches the query
+  //   modified   the LastModificationDate of a record changed
+  //   deleted    a record was deleted or can no longer be resolved
+  //   aliased    a record became an alias of another record
+  //   status     the status of a record changed otherwise
+  //   child      a record has a new child (with children: true)
+  //
+  // The state of each watch is kept in the persistent store of the app
+  // under eidr-watch:<eventId>
+  //
+  // @param options - { ids, children?, interval? } or
+  //                  { query, root?, limit?, interval? }
+  // @param handler - event handler
+  // @param eventId - event ID. Defaults to an ID derived from options,
+  //                  so that watches keep their state across restarts
+  //
+  // @return event configuration
+  public on(
+    options: WatchOptions,
+    handler?: any,
+    eventId?: string,
+  ): EventConfiguration {
+    const watch = this.watchOptions(options)
+    const id = eventId || crypto.createHash('sha1')
+      .update(JSON.stringify(watch))
+      .digest('hex')
+    const event = new EventConfiguration(id, this, watch)
+    this.eventConfigurations[id] = event
+    if (handler) {
+      this.app.when(event, handler)
+    }
+    if (this.started) {
+      this.scheduleWatch(event, 0)
+    }
+    return event
+  }
+
+  // Poll watches once and fire their events
+  //
+  // @param eventId - event ID of the watch to poll. Default is all
+  //                  watches
+  //
+  // @return fired events
+  public async poll(eventId?: string): Promise<WatchEvent[]> {
+    const events = Object.values(this.eventConfigurations)
+      .filter((event) => eventId === undefined || event.id === eventId)
+    if (eventId !== undefined && events.length === 0) {
+      throw new EIDRError('Unknown event', 404, `Unknown event: ${eventId}`)
+    }
+    const fired: WatchEvent[] = []
+    for (const event of events) {
+      fired.push(...await this.pollEvent(event))
+    }
+    return fired
+  }
+
+  public onStart() {
+    Object.values(this.eventConfigurations)
+      .forEach((event) => this.scheduleWatch(event, 0))
+  }
+
+  public onStop() {
+    Object.keys(this.watchTimers).forEach((id) => this.unscheduleWatch(id))
+  }
+
+  public onRemoveEvent(event: EventConfiguration) {
+    this.unscheduleWatch(event.id)
+  }
+
+  private watchOptions(options: WatchOptions): WatchOptions {
+    const { interval } = options || {}
+    if (interval !== undefined && !(0 < interval)) {
+      throw new EIDRError('Invalid watch', 400, `Invalid interval: ${interval}`)
+    }
+    if (options && 'ids' in options && Array.isArray(options.ids)) {
+      const ids = options.ids.map((id) => {
+        const normalized = normalizeId(id)
+        if (!normalized.valid) {
+          throw new EIDRInvalidIdError(
+            'Invalid ID',
+            `Invalid EIDR ID: ${normalized.reason}`,
+          )
+        }
+        return normalized.id
+      })
+      return { ...options, ids: ids.filter((id, i) => ids.indexOf(id) === i) }
+    }
+    if (options && 'query' in options) {
+      return { ...options, query: this.queryExpression(options.query) }
+    }
+    throw new EIDRError(
+      'Invalid watch',
+      400,
+      'Watch options must include ids or query',
+    )
+  }
+
+  private scheduleWatch(event: EventConfiguration, delay: number) {
+    this.unscheduleWatch(event.id)
+    this.watchTimers[event.id] = setTimeout(async () => {
+      delete this.watchTimers[event.id]
+      try {
+        await this.pollEvent(event)
+      } catch (e) {
+        this.app.getLogger().error(this.redact(
+          `EIDRConnector: Watch ${event.id} failed: ${(e as Error).message}`,
+        ))
+      }
+      if (this.started && this.eventConfigurations[event.id] === event &&
+        !this.watchTimers[event.id]) {
+        this.scheduleWatch(event, event.options.interval || this.watchInterval)
+      }
+    }, delay)
+  }
+
+  private unscheduleWatch(eventId: string) {
+    clearTimeout(this.watchTimers[eventId])
+    delete this.watchTimers[eventId]
+  }
+
+  // Poll a watch, sharing polls that are already in progress so that
+  // events are not fired twice
+  private pollEvent(event: EventConfiguration): Promise<WatchEvent[]> {
+    if (!(event.id in this.watchPolls)) {
+      this.watchPolls[event.id] = (async () => {
+        try {
+          const events = await pollWatch(
+            this.watchSource(),
+            this.app.getPersistentStore(),
+            `eidr-watch:${event.id}`,
+            event.options as WatchOptions,
+          )
+          for (const watchEvent of events) {
+            await this.app.handleEvent(event.id, watchEvent)
+          }
+          return events
+        } finally {
+          delete this.watchPolls[event.id]
+        }
+      })()
+    }
+    return this.watchPolls[event.id]
+  }
+
+  private watchSource(): WatchSource {
+    const options = { bypass: true }
+    const notFound = async <T>(promise: Promise<T>) => {
+      try {
+        return await promise
+      } catch (e) {
+        if (isNotFound(e)) {
+          return undefined
+        }
+        throw e
+      }
+    }
+    return {
+      provenance: (id) => notFound(
+        this.resolve(id, 'Provenance', undefined, undefined, options),
+      ),
+      simple: (id) => notFound(
+        this.resolve(id, 'Simple', undefined, undefined, options),
+      ),
+      children: async (id) => {
+        const children = await this.graphTraversal(
+          id,
+          GraphTraversalTypes.GetChildren,
+          undefined,
+          undefined,
+          options,
+        )
+        return children.map((child) => child.ID)
+      },
+      queryIds: async ({ query, root, limit = 1000 }) => {
+        const ids: string[] = []
+        const all = this.queryAll(query, { idOnly: true, root, limit })
+        for await (const id of all) {
+          ids.push(id)
+        }
+        return ids
+      },
+    }
   }
 
   // Actions ////////////////////////////////////////////////////////
 
   public info() {
+    const stats = this.cache && this.cache.stats ?
+      this.cache.stats() :
+      { evictions: 0 }
+    const cache: CacheStats = {
+      enabled: this.cache !== undefined,
+      hits: this.cacheHits,
+      misses: this.cacheMisses,
+      ...stats,
+    }
     return {
-      eidrApiVersion,
+      eidrApiVersion: this.apiVersion,
       eidrConnectorVersion,
-      availableApiVersions,
+      availableApiVersions: apiVersions(),
+      cache,
+      endpoint: this.redact(this.authorization.endpoint),
+      profiles: Object.keys(this.profiles),
     }
   }
 
-  public async graphTraversal(
+  // Traverse the graph of relationships of a record. Traversals of
+  // single records (GetParent, GetRemotestAncestor) return the record
+  // or null, GetLightweightRelationships returns a RelationshipGraph,
+  // and other traversals return a list of records
+  //
+  // @param id - EIDR ID
+  // @param graphRequest - traversal type
+  //
+  // @return traversal result, typed by GraphTraversalResults
+  public async graphTraversal<T extends GraphTraversalTypes>(
     id: string,
-    graphRequest: GraphTraversalTypes,
+    graphRequest: T,
     credentials?: Credentials,
-    apiVersion?: string
-  ) {
-    const auth: Authorization = credentials ?
-      new Authorization(credentials) :
-      this.authorization
-    if (!auth.registered) {
-      throw new EIDRError(
-        'Unregistered',
-        401,
-        'Query requires registered user credentials'
-      )
-    }
+    apiVersion?: string,
+    options: ActionOptions = {},
+  ): Promise<GraphTraversalResults[T]> {
+    const auth = this.registeredAuthorization(credentials)
 
     if (!graphRequest || Object.values(GraphTraversalTypes)
       .indexOf(graphRequest) === -1) {
       throw new EIDRError(
         'Invalid graph traversal request',
-        500,
-        `A valid graph request type must be provided: 
+        400,
+        `A valid graph request type must be provided:
         FindAncestors, FindDescendants, GetDependents,
         GetSeriesAncestry, GetLightweightRelationships,
         GetRemotestAncestor, GetLeafDescendants, GetParent,
         GetChildren`,
+        { operation: 'graphTraversal' },
       )
     }
 
     if (!id) {
-      throw new EIDRError(
+      throw new EIDRInvalidIdError(
         'Invalid graph traversal request',
-        500,
         'EIDR ID must be provided',
+        { operation: 'graphTraversal' },
       )
     }
 
-    const req = this.renderGraphTraversalRequest(id, graphRequest);
+    const version = this.version(apiVersion)
+    const scope = this.cacheScope(credentials)
+    const key = `graph:${version}:${graphRequest}:${id}${scope}`
+    const result: Obj = await this.cached(key, id, options, async () => {
+      const req = this.renderGraphTraversalRequest(id, graphRequest)
+      const obj = await this.request(
+        'POST',
+        'object/graph',
+        auth,
+        req,
+        apiVersion,
+        {
+          ...requestOptions(options),
+          idempotent: true,
+          operation: 'graphTraversal',
+        },
+      )
+      const res = obj.Response
+
+      this.assertResponseStatus(res, 'graphTraversal')
+
+      // Cached values must be plain JSON objects, so results are typed
+      // below
+      return graphRequest === GraphTraversalTypes.GetLightweightRelationships ?
+        { LightweightRelationships: res.LightweightRelationships || {} } :
+        { SimpleMetadata: res.SimpleMetadata ?
+          parseJsonWithValue(res.SimpleMetadata) :
+          [] }
+    })
+
+    if (graphRequest === GraphTraversalTypes.GetLightweightRelationships) {
+      return RelationshipGraph.fromResponse(
+        result.LightweightRelationships,
+      ) as GraphTraversalResults[T]
+    }
+    const records: SimpleMetadata[] = Array.isArray(result.SimpleMetadata) ?
+      result.SimpleMetadata :
+      [result.SimpleMetadata]
+    if (graphRequest === GraphTraversalTypes.GetParent ||
+      graphRequest === GraphTraversalTypes.GetRemotestAncestor) {
+      return (records[0] || null) as GraphTraversalResults[T]
+    }
+    return records as GraphTraversalResults[T]
+  }
+
+  // Build the tree of descendants of a record, e.g. the seasons and
+  // episodes of a series. Children are ordered by distribution number,
+  // then house sequence. Records that cannot be found are included as
+  // missing nodes, and records that are their own ancestors are included
+  // as cycle nodes, without children. Records of kinds that are not
+  // included are still traversed, and their included descendants take
+  // their place in the tree
+  //
+  // @param rootId - EIDR ID of the root record
+  // @param options - depth, include, concurrency and action options
+  //
+  // @return root node
+  public async getHierarchy(
+    rootId: string,
+    options: HierarchyOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<HierarchyNode> {
+    const depth = options.depth === undefined ? Infinity : options.depth
+    if (!(0 <= depth)) {
+      throw new EIDRError('Invalid depth', 400, `Invalid depth: ${depth}`,
+        { operation: 'getHierarchy' })
+    }
+    const run = limitConcurrency(options.concurrency || 4)
+
+    const rootRecord = await run(() =>
+      this.resolve(rootId, 'Full', credentials, apiVersion, options))
+    const root = hierarchyItem(rootRecord.ID, rootRecord)
+
+    const children = async (id: string): Promise<string[]> => {
+      const res = await run(() => this.graphTraversal(id,
+        GraphTraversalTypes.GetChildren, credentials, apiVersion, options))
+      return res.map((child) => child.ID)
+    }
+
+    const included = (item: HierarchyItem) => item.missing ||
+      !options.include || options.include.indexOf(item.kind) !== -1
+
+    // Nodes of the children of an item, with the included descendants
+    // of excluded children in their place
+    const build = async (
+      item: HierarchyItem,
+      level: number,
+      ancestors: string[],
+    ): Promise<HierarchyNode[]> => {
+      if (item.missing || depth <= level) {
+        return []
+      }
+      const items = await Promise.all((await children(item.id))
+        .map(async (id): Promise<HierarchyNode | HierarchyItem> =>
+          ancestors.indexOf(id) === -1 ?
+            this.hierarchyItem(id, run, credentials, apiVersion, options) :
+            { id, kind: 'other', cycle: true, children: [] }))
+      const nodes = await Promise.all(items.sort(compareItems)
+        .map(async (child): Promise<HierarchyNode[]> => {
+          if ('cycle' in child) {
+            return [child as HierarchyNode]
+          }
+          const descendants =
+            await build(child, level + 1, [...ancestors, child.id])
+          return included(child) ?
+            [{ ...child, children: descendants }] :
+            descendants
+        }))
+      return ([] as HierarchyNode[]).concat(...nodes)
+    }
+
+    return { ...root, children: await build(root, 0, [root.id]) }
+  }
+
+  // Find the ancestors of a record, e.g. the season and series of an
+  // episode
+  //
+  // @param id - EIDR ID
+  //
+  // @return breadcrumb from the remotest ancestor to the record itself.
+  //         A parent that cannot be found is included as a missing item
+  public async getAncestry(
+    id: string,
+    options: ActionOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<HierarchyItem[]> {
+    const record = await this.resolve(id, 'Full', credentials, apiVersion,
+      options)
+    const item = hierarchyItem(record.ID, record)
+    const breadcrumb = [item]
+    const run = limitConcurrency(1)
+
+    for (let parent = parentOf(record);
+      parent && !breadcrumb.some((i) => i.id === parent);) {
+      const ancestor = await this.hierarchyItem(parent, run, credentials,
+        apiVersion, options)
+      breadcrumb.unshift(ancestor)
+      parent = ancestor.record && parentOf(ancestor.record)
+    }
+    return breadcrumb
+  }
+
+  private async hierarchyItem(
+    id: string,
+    run: <T>(task: () => Promise<T>) => Promise<T>,
+    credentials?: Credentials,
+    apiVersion?: string,
+    options: ActionOptions = {},
+  ): Promise<HierarchyItem> {
+    try {
+      const record = await run(() =>
+        this.resolve(id, 'Full', credentials, apiVersion, options))
+      return hierarchyItem(id, record)
+    } catch (e) {
+      if (isNotFound(e)) {
+        return { id, kind: 'other', missing: true }
+      }
+      throw e
+    }
+  }
+
+  // Get the change timeline of a record. The registry only keeps the
+  // creation and last modification of records, so each call keeps a
+  // snapshot of new versions of the record, and modifications between
+  // snapshots are described by the differences of the snapshots
+  //
+  // @param id - EIDR ID
+  // @param options - snapshot and request options
+  //
+  // @return provenance and timeline of the record
+  public async getHistory(
+    id: string,
+    options: HistoryOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<RecordHistory> {
+    const resolveOptions = { ...requestOptions(options), bypass: true }
+    const resolveProvenance = () =>
+      this.resolve(id, 'Provenance', credentials, apiVersion, resolveOptions)
+    const modificationDate = (provenance: Provenance) =>
+      provenance.LastModificationDate || provenance.CreationDate
+
+    // The provenance is resolved again after the record, so a snapshot is
+    // only kept when the record was not modified in between
+    const before = await resolveProvenance()
+    const record = await this.resolve(id, 'Full', credentials, apiVersion,
+      resolveOptions)
+    const provenance = await resolveProvenance()
+    const unchanged = modificationDate(before) === modificationDate(provenance)
+    id = record.ID || id
+
+    if (!this.snapshotStore) {
+      this.snapshotStore = new StoreSnapshotStore(
+        this.app.getPersistentStore())
+    }
+    const key = `${id}${this.registryScope(credentials)}`
+    let snapshots = await this.snapshotStore.list(key)
+    const latest = snapshots[snapshots.length - 1]
+    const modified = modificationDate(provenance)
+    // Without provenance dates, new versions are told apart by content
+    const version = !latest || (modified ?
+      latest.modified !== modified :
+      !isEmptyDiff(diffRecords(latest.record, record)))
+    if (options.snapshot !== false && unchanged && version) {
+      const taken = new Date().toISOString()
+      const snapshot: RecordSnapshot = {
+        modified: modified || taken,
+        modifiedBy: provenance.LastModifiedBy,
+        taken,
+        record,
+      }
+      await this.snapshotStore.add(key, snapshot)
+      snapshots = [...snapshots, snapshot]
+    }
+    return buildHistory(id, provenance, snapshots)
+  }
+
+  public async register(
+    record: RegistrationRecord,
+    options: OperationOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<string> {
+    const auth = this.registeredAuthorization(credentials)
+
+    let operation: string
+    try {
+      operation = renderRegistration(record)
+    } catch (e) {
+      throw new EIDRError('Invalid registration', 400, (e as Error).message,
+        { operation: 'register' })
+    }
+
+    const req = this.renderOperationRequest(operation)
     const obj = await this.request(
       'POST',
-      'object/graph',
+      `object/${options.immediate ? '?immediate=true' : ''}`,
       auth,
       req,
-      apiVersion
+      apiVersion,
+      { ...requestOptions(options), operation: 'register' },
     )
     const res = obj.Response
+    this.assertResponseStatus(res, 'register')
 
-    if (res.Status.Code !== '0') {
-      throw new EIDRError(
-        `Error ${res.Status.Code} ${res.Status.Type}`,
-        (res.Status.Code === '4' || res.Status.Code === '5') ? 403 : 500,
-        res.Status.Details,
+    if (!res.Token) {
+      throw new EIDRMalformedResponseError(
+        'Unrecognized response',
+        'Registry did not return an operation token',
+        { operation: 'register' },
       )
     }
+    return String(res.Token)
+  }
+
+  public async findDuplicates(
+    candidate: DuplicateCandidate,
+    options: DuplicateOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<DuplicateMatch[]> {
+    let expr: JsonQuery
+    try {
+      expr = buildDuplicateQuery(candidate)
+    } catch (e) {
+      throw new EIDRInvalidQueryError('Invalid candidate',
+        (e as Error).message, { operation: 'findDuplicates' })
+    }
+
+    const results = this.queryAll(
+      expr,
+      {
+        ...requestOptions(options),
+        pageSize: options.pageSize || 25,
+        limit: options.limit || 100,
+      },
+      credentials,
+      apiVersion,
+    )
 
-    return res.SimpleMetadata ? parseJsonWithValue(res.SimpleMetadata) : null
+    const minScore = options.minScore === undefined ? 0.5 : options.minScore
+    const matches: DuplicateMatch[] = []
+    for await (const record of results) {
+      const match = scoreDuplicate(candidate, record)
+      if (minScore <= match.score) {
+        matches.push(match)
+      }
+    }
+    return matches.sort((a, b) => b.score - a.score)
   }
 
-  public async query(
-    exprOrObj: string | Obj,
-    options: QueryOptions = {},
+  // Find the EIDR records with an alternate ID, e.g. an IMDb or ISAN
+  // ID. Known alternate ID types are normalized (see altid.ts), and
+  // matches are verified against the alternate IDs of each record
+  //
+  // @param type - alternate ID type, e.g. IMDB, ISAN, TRIB or Proprietary
+  // @param value - alternate ID
+  // @param domain - alternate ID domain, required for Proprietary IDs
+  //
+  // @return matching EIDR IDs, flagged as ambiguous if there is more
+  //         than one
+  public async findByAlternateId(
+    type: string,
+    value: string,
+    domain?: string,
+    options: AlternateIdOptions = {},
     credentials?: Credentials,
     apiVersion?: string,
-  ) {
-    const auth: Authorization = credentials ?
-      new Authorization(credentials) :
-      this.authorization
-    if (!auth.registered) {
-      throw new EIDRError(
-        'Unregistered',
-        401,
-        'Query requires registered user credentials'
-      )
+  ): Promise<AlternateIdResult> {
+    let lookup: AlternateIdLookup
+    try {
+      lookup = normalizeAlternateId({ type, value, domain })
+    } catch (e) {
+      throw new EIDRInvalidIdError('Invalid alternate ID',
+        (e as Error).message, { operation: 'findByAlternateId' })
     }
 
-    const expr =
-      typeof exprOrObj === 'string' ? exprOrObj :
-        typeof exprOrObj === 'object' ? buildJsonQuery(exprOrObj) :
-          undefined
+    const { results } = await this.query(
+      buildAlternateIdQuery(lookup),
+      { ...requestOptions(options), idOnly: true, pageSize: options.pageSize },
+      credentials,
+      apiVersion,
+    )
 
-    if (expr === undefined) {
-      throw new EIDRError(
-        'Invalid query',
-        500,
-        `Query must be a string or an object: ${typeof exprOrObj}`,
-      )
+    const records = await Promise.all(results.map((id) =>
+      this.resolve(id, 'AlternateIDs', credentials, apiVersion, options)))
+    const matches: AlternateIdMatch[] = records
+      .map((record) => matchAlternateIds(lookup, record.AlternateID)
+        .map((alternateId) => ({ id: record.ID, alternateId })))
+      .flat()
+    const ids = matches
+      .map((match) => match.id)
+      .filter((id, i, all) => all.indexOf(id) === i)
+
+    return {
+      ...lookup,
+      ...(ids.length === 1 ? { id: ids[0] } : {}),
+      ids,
+      ambiguous: 1 < ids.length,
+      matches,
+    }
+  }
+
+  // Find the EIDR records of a list of alternate IDs. Invalid alternate
+  // IDs do not fail the batch, but are reported in the error field of
+  // their result
+  //
+  // @param lookups - alternate IDs { type, value, domain? }
+  // @param options - concurrency and findByAlternateId options
+  //
+  // @return results of findByAlternateId, in the order of lookups
+  public async findByAlternateIds(
+    lookups: AlternateIdLookup[],
+    options: AlternateIdBatchOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<AlternateIdResult[]> {
+    const run = limitConcurrency(options.concurrency || 4)
+    return Promise.all(lookups.map(async (lookup) => {
+      try {
+        normalizeAlternateId(lookup)
+      } catch (e) {
+        return {
+          ...lookup,
+          ids: [],
+          ambiguous: false,
+          matches: [],
+          error: (e as Error).message,
+        }
+      }
+      return run(() => this.findByAlternateId(lookup.type, lookup.value,
+        lookup.domain, options, credentials, apiVersion))
+    }))
+  }
+
+  public async getStatus(
+    token: string,
+    options: StatusOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<OperationStatus> {
+    const auth = this.registeredAuthorization(credentials)
+
+    if (typeof token !== 'string' || !/^\d+$/.test(token.trim())) {
+      throw new EIDRInvalidIdError('Invalid token', `Invalid token: ${token}`,
+        { operation: 'getStatus' })
+    }
+
+    const wait = options.wait !== false
+    const pollInterval = options.pollInterval || 2000
+    const deadline = Date.now() + (options.timeout || 60000)
+    const pth = `status/${encodeURIComponent(token.trim())}`
+
+    for (;;) {
+      const obj = await this.request('GET', pth, auth, undefined, apiVersion,
+        { signal: options.signal, operation: 'getStatus' })
+      const res = obj.Response
+      this.assertResponseStatus(res, 'getStatus')
+
+      const status = this.parseOperationStatus(token, res)
+      if (status.status === 'success' && status.id) {
+        // Pending modifications are applied now
+        await this.invalidate([status.id])
+      }
+      if (status.status !== 'pending' || !wait) {
+        return status
+      }
+      if (deadline <= Date.now()) {
+        throw new EIDRError(
+          'Timeout',
+          504,
+          `Operation still pending: token=${token}`,
+          { operation: 'getStatus' },
+        )
+      }
+      await this.retryDelay(pollInterval, pth, options.signal, 'getStatus')
     }
+  }
+
+  public async query(
+    exprOrObj: QueryInput,
+    options: QueryOptions & { idOnly: true },
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<QueryResult<string>>
+
+  public async query(
+    exprOrObj: QueryInput,
+    options?: QueryOptions & { idOnly?: false },
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<QueryResult<SimpleMetadata>>
+
+  public async query(
+    exprOrObj: QueryInput,
+    options?: QueryOptions,
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<QueryResult<SimpleMetadata | string>>
+
+  public async query(
+    exprOrObj: QueryInput,
+    options: QueryOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<QueryResult<SimpleMetadata | string>> {
+    const auth = this.registeredAuthorization(credentials)
+
+    const expr = this.queryExpression(exprOrObj)
     const req = this.renderQueryRequest(expr, options)
     const obj = await this.request(
       'POST',
       `query/${options.idOnly ? '?type=ID' : ''}`,
       auth,
       req,
-      apiVersion
+      apiVersion,
+      { ...requestOptions(options), idempotent: true, operation: 'query' },
     )
     const res = obj.Response
 
-    if (res.Status.Code !== '0') {
-      throw new EIDRError(
-        `Error ${res.Status.Code} ${res.Status.Type}`,
-        (res.Status.Code === '4' || res.Status.Code === '5') ? 403 : 500,
-        res.Status.Details,
-      )
-    }
+    this.assertResponseStatus(res, 'query')
 
     if (res.QueryResults) {
       const data = res.QueryResults[options.idOnly ? 'ID' : 'SimpleMetadata']
@@ -313,42 +1694,392 @@ export class EIDRConnector extends BaseConnector {
       }
     }
 
-    throw new EIDRError(
+    throw new EIDRMalformedResponseError(
       'Unrecognized response',
-      500,
       'Unrecognized response from registry',
+      { operation: 'query' },
     )
   }
 
-  public async resolve(id: string,
-    type = 'Full',
+  // Search for parties by name or query expression, e.g.
+  // 'DreamWorks' or '(/Party/PartyName/DisplayName "dreamworks")'
+  //
+  // @param nameOrExpr - name, or query expression starting with '('
+  // @param options - pageNumber and pageSize
+  //
+  // @return { totalMatches, results } with party records
+  public async queryParties(
+    nameOrExpr: string,
+    options: DirectoryQueryOptions = {},
     credentials?: Credentials,
-    apiVersion?: string) {
+    apiVersion?: string,
+  ): Promise<QueryResult<Party>> {
+    return this.queryDirectory('party', nameOrExpr, options, credentials,
+      apiVersion)
+  }
 
-    if (!validateId(id)) {
-      throw new EIDRError('Invalid ID', 400, `Invalid EIDR ID: ${id}`)
+  // Search for services by name or query expression, e.g.
+  // '(/Service/ParentParty 10.5237/5E6F-7081)'
+  //
+  // @param nameOrExpr - name, or query expression starting with '('
+  // @param options - pageNumber and pageSize
+  //
+  // @return { totalMatches, results } with service records
+  public async queryServices(
+    nameOrExpr: string,
+    options: DirectoryQueryOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<QueryResult<Service>> {
+    return this.queryDirectory('service', nameOrExpr, options, credentials,
+      apiVersion)
+  }
+
+  private async queryDirectory<T>(
+    kind: DirectoryKind,
+    nameOrExpr: string,
+    options: DirectoryQueryOptions,
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<QueryResult<T>> {
+    const auth = this.registeredAuthorization(credentials)
+    const operation = kind === 'party' ? 'queryParties' : 'queryServices'
+
+    let expr: string
+    try {
+      expr = buildDirectoryQuery(kind, nameOrExpr)
+    } catch (e) {
+      throw new EIDRInvalidQueryError('Invalid query', (e as Error).message,
+        { operation })
     }
-    if (id.startsWith('10.5240')) {
-      return this.resolveContentID(id, type, credentials, apiVersion)
+
+    const req = this.renderQueryRequest(expr, options)
+    const obj = await this.request(
+      'POST',
+      `${kind}/query/`,
+      auth,
+      req,
+      apiVersion,
+      { ...requestOptions(options), idempotent: true, operation },
+    )
+    const res = obj.Response
+
+    this.assertResponseStatus(res, operation)
+
+    if (!res.QueryResults) {
+      throw new EIDRMalformedResponseError(
+        'Unrecognized response',
+        'Unrecognized response from registry',
+        { operation },
+      )
     }
-    if (id.startsWith('10.5239') || id.startsWith('10.5237')) {
-      return this.resolveOtherID(id, type, credentials, apiVersion)
+    const data = res.QueryResults[kind === 'party' ? 'Party' : 'Service']
+    const array: Obj[] = data ? (Array.isArray(data) ? data : [data]) : []
+    return {
+      totalMatches: Number(res.QueryResults.TotalMatches),
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars, no-shadow
+      results: parseJsonWithValue(array.map(({ $, ...record }) => record)),
     }
-    throw new EIDRError(
-      'Unsupported type',
-      500,
-      `Unsupported record type: ${id.substring(0, 7)}`,
+  }
+
+  public queryAll(
+    exprOrObj: QueryInput,
+    options: QueryAllOptions & { idOnly: true },
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): AsyncGenerator<string>
+
+  public queryAll(
+    exprOrObj: QueryInput,
+    options?: QueryAllOptions & { idOnly?: false },
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): AsyncGenerator<SimpleMetadata>
+
+  public queryAll(
+    exprOrObj: QueryInput,
+    options?: QueryAllOptions,
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): AsyncGenerator<SimpleMetadata | string>
+
+  public async * queryAll(
+    exprOrObj: QueryInput,
+    options: QueryAllOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): AsyncGenerator<SimpleMetadata | string> {
+    const { limit, concurrency = 1, ...queryOptions } = options
+    const pageSize = queryOptions.pageSize || 25
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 0)) {
+      throw new EIDRInvalidQueryError('Invalid limit',
+        `Invalid limit: ${limit}`, { operation: 'queryAll' })
+    }
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new EIDRInvalidQueryError('Invalid concurrency',
+        `Invalid concurrency: ${concurrency}`, { operation: 'queryAll' })
+    }
+
+    const fetchPage = (pageNumber: number) => this.query(
+      exprOrObj,
+      { ...queryOptions, pageSize, pageNumber },
+      credentials,
+      apiVersion,
     )
+
+    const first = await fetchPage(1)
+    const total = Math.min(
+      first.totalMatches,
+      limit === undefined ? Infinity : limit,
+    )
+    const pageCount = Math.ceil(total / pageSize)
+
+    // Prefetch up to `concurrency` pages ahead of the consumer. Errors
+    // on prefetched pages are surfaced when the page is consumed
+    const pending: Array<Promise<QueryResult<SimpleMetadata | string>>> = []
+    let nextPage = 2
+    const prefetch = () => {
+      while (pending.length < concurrency && nextPage <= pageCount) {
+        const page = fetchPage(nextPage++)
+        page.catch(() => undefined)
+        pending.push(page)
+      }
+    }
+
+    let count = 0
+    let page = first
+    for (;;) {
+      prefetch()
+      for (const result of page.results) {
+        if (total <= count) {
+          return
+        }
+        yield result
+        count++
+      }
+      const next = pending.shift()
+      if (!next || total <= count) {
+        return
+      }
+      page = await next
+      if (page.results.length === 0) {
+        return
+      }
+    }
+  }
+
+  public async resolve(id: PartyID, type?: 'Full',
+    credentials?: Credentials, apiVersion?: string,
+    options?: ActionOptions): Promise<Party>
+
+  public async resolve(id: ServiceID, type?: 'Full',
+    credentials?: Credentials, apiVersion?: string,
+    options?: ActionOptions): Promise<Service>
+
+  public async resolve(id: string, type?: 'Full' | 'SelfDefined',
+    credentials?: Credentials, apiVersion?: string,
+    options?: ActionOptions): Promise<FullMetadata>
+
+  public async resolve(id: string, type: 'Simple',
+    credentials?: Credentials, apiVersion?: string,
+    options?: ActionOptions): Promise<SimpleMetadata>
+
+  public async resolve(id: string, type: 'DOIKernel',
+    credentials?: Credentials, apiVersion?: string,
+    options?: ActionOptions): Promise<DOIKernel>
+
+  public async resolve(id: string, type: 'Provenance',
+    credentials?: Credentials, apiVersion?: string,
+    options?: ActionOptions): Promise<Provenance>
+
+  public async resolve(id: string, type: 'AlternateIDs',
+    credentials?: Credentials, apiVersion?: string,
+    options?: ActionOptions): Promise<AlternateIDs>
+
+  public async resolve(id: string, type: 'LinkedAlternateIDs',
+    credentials?: Credentials, apiVersion?: string,
+    options?: ActionOptions): Promise<LinkedAlternateIDs>
+
+  public async resolve(id: string, type?: string,
+    credentials?: Credentials, apiVersion?: string,
+    options?: ActionOptions): Promise<ResolveResult>
+
+  public async resolve(id: string,
+    type = 'Full',
+    credentials?: Credentials,
+    apiVersion?: string,
+    options: ActionOptions = {}): Promise<ResolveResult> {
+
+    const normalized = normalizeId(id)
+    if (!normalized.valid) {
+      throw new EIDRInvalidIdError(
+        'Invalid ID',
+        `Invalid EIDR ID: ${normalized.reason}`,
+        { operation: 'resolve' },
+      )
+    }
+    id = normalized.id
+
+    const version = this.version(apiVersion)
+    const scope = this.cacheScope(credentials)
+    const key = `resolve:${version}:${type}:${id}${scope}`
+    return this.cached(key, id, options, async () => {
+      if (id.startsWith('10.5240')) {
+        return this.resolveContentID(id, type, credentials, apiVersion,
+          requestOptions(options))
+      }
+      if (id.startsWith('10.5239') || id.startsWith('10.5237')) {
+        return this.resolveOtherID(id, type, credentials, apiVersion,
+          requestOptions(options))
+      }
+      throw new EIDRInvalidIdError(
+        'Unsupported type',
+        `Unsupported record type: ${id.substring(0, 7)}`,
+        { operation: 'resolve' },
+      )
+    })
+  }
+
+  // Resolve a batch of content, party and service IDs. IDs are
+  // validated and deduplicated up front, then resolved concurrently.
+  // Failures are reported in the results instead of failing the batch,
+  // unless the batch is aborted
+  //
+  // @param ids - EIDR IDs, in any form accepted by resolve
+  // @param options - type, concurrency, onProgress and resolve options
+  //
+  // @return map from each ID in ids to its outcome, in the order of ids
+  public async resolveMany(
+    ids: string[],
+    options: ResolveManyOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<Map<string, ResolveOutcome>> {
+    const { type = 'Full', concurrency = 8, onProgress } = options
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new EIDRError(
+        'Invalid concurrency',
+        400,
+        `Invalid concurrency: ${concurrency}`,
+        { operation: 'resolveMany' },
+      )
+    }
+
+    const valid = new Set<string>()
+    const normalized = ids.map((id) => {
+      const norm = normalizeId(id)
+      if (norm.valid) {
+        valid.add(norm.id)
+        return norm.id
+      }
+      const error = new EIDRInvalidIdError('Invalid ID',
+        `Invalid EIDR ID: ${norm.reason}`, { operation: 'resolve' })
+      return { id, ok: false as const, status: error.status, error }
+    })
+
+    const unique = Array.from(valid)
+    const outcomes = new Map<string, ResolveOutcome>()
+    const progress = { completed: 0, failed: 0, total: unique.length }
+    const run = limitConcurrency(concurrency)
+    await Promise.all(unique.map((id) => run(async () => {
+      let outcome: ResolveOutcome
+      try {
+        const value = await this.resolve(id, type, credentials, apiVersion,
+          options)
+        outcome = { id, ok: true, value }
+      } catch (e) {
+        const status = (e as EIDRError).status || 500
+        if (status === 499) {
+          throw e
+        }
+        outcome = { id, ok: false, status, error: e as Error }
+        progress.failed++
+      }
+      progress.completed++
+      outcomes.set(id, outcome)
+      if (onProgress) {
+        onProgress({ id, ok: outcome.ok, ...progress })
+      }
+    })))
+
+    const results = new Map<string, ResolveOutcome>()
+    ids.forEach((id, i) => {
+      const norm = normalized[i]
+      results.set(id, typeof norm === 'string' ? outcomes.get(norm)! : norm)
+    })
+    return results
+  }
+
+  // Resolve the organization IDs of the associated orgs of a content
+  // record to party records
+  //
+  // @param recordOrId - full metadata record, or its EIDR ID
+  // @param options - concurrency and resolve options
+  //
+  // @return associated orgs, in record order, with their party records.
+  //         Organization IDs that are not found are flagged as missing
+  public async resolveAssociatedOrgs(
+    recordOrId: FullMetadata | string,
+    options: AssociatedOrgOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ): Promise<AssociatedOrgParty[]> {
+    const record = typeof recordOrId === 'string' ?
+      await this.resolve(recordOrId, 'Full', credentials, apiVersion,
+        options) :
+      recordOrId
+
+    const run = limitConcurrency(options.concurrency || 4)
+    const parties = new Map<string, Party>()
+    // Organization IDs that are malformed or not party IDs
+    const invalid = new Set<string>()
+    await Promise.all(associatedOrgIds(record).map(async (id) => {
+      const normalized = normalizeId(id)
+      if (!normalized.valid || !normalized.id.startsWith('10.5237/')) {
+        invalid.add(id)
+        return
+      }
+      try {
+        parties.set(id, await run(() => this.resolve(id as PartyID, 'Full',
+          credentials, apiVersion, options)))
+      } catch (e) {
+        if (e instanceof EIDRInvalidIdError) {
+          invalid.add(id)
+        } else if (!isNotFound(e)) {
+          throw e
+        }
+      }
+    }))
+
+    return (record.AssociatedOrg || []).map((org) => {
+      const attributes = org.$ || {}
+      const result: AssociatedOrgParty = { org }
+      if (attributes.role) {
+        result.role = attributes.role
+      }
+      const id = attributes.organizationID
+      if (id) {
+        result.organizationId = id
+        const party = parties.get(id)
+        if (party) {
+          result.party = party
+        } else if (invalid.has(id)) {
+          result.invalid = true
+        } else {
+          result.missing = true
+        }
+      }
+      return result
+    })
   }
 
   private async resolveContentID(
     id: string, type = 'Full',
     credentials?: Credentials,
-    apiVersion?: string) {
+    apiVersion?: string,
+    options: RequestOptions = {}) {
 
-    const auth: Authorization | undefined = credentials ?
-      new Authorization(credentials) :
-      undefined
+    const auth = this.authorizationFor(credentials)
 
     if (
       type !== 'AlternateIDs' &&
@@ -361,20 +2092,22 @@ export class EIDRConnector extends BaseConnector {
     ) {
       throw new EIDRError(
         'Unsupported type',
-        500,
+        400,
         `Unsupported resolution type: id=${id} type=${type}`,
+        { operation: 'resolve' },
       )
     }
 
     const pth = `object/${encodeURIComponent(id)}?type=${type}`
-    const res = await this.request('GET', pth, auth, undefined, apiVersion)
+    const res = await this.request('GET', pth, auth, undefined, apiVersion,
+      { ...requestOptions(options), operation: 'resolve' })
     if (res.Response &&
       res.Response.Status &&
       res.Response.Status.Code !== '0') {
 
-      throw new EIDRError(
-        `Error ${res.Response.Status.Code} ${res.Response.Status.Type}`,
-        500,
+      throw registryError(
+        res.Response.Status,
+        'resolve',
         `Registry error: id=${id} type=${res.Response.Status.Type}`,
       )
     }
@@ -382,10 +2115,10 @@ export class EIDRConnector extends BaseConnector {
     if (type === 'Full' || type === 'SelfDefined') {
       const attr = `${type}Metadata`
       if (!res[attr] || !res[attr].BaseObjectData) {
-        throw new EIDRError(
+        throw new EIDRMalformedResponseError(
           'Unrecognized response',
-          500,
           `Unrecognized response resolving: id=${id} type=${type}`,
+          { operation: 'resolve' },
         )
       }
       return parseJsonWithValue({
@@ -397,10 +2130,10 @@ export class EIDRConnector extends BaseConnector {
     if (type === 'AlternateIDs' || type === 'LinkedAlternateIDs') {
       const prop = type.slice(0, -1)
       if (!res[type]) {
-        throw new EIDRError(
+        throw new EIDRMalformedResponseError(
           'Unrecognized response',
-          500,
           `Unrecognized response resolving: id=${id} type=${type}`,
+          { operation: 'resolve' },
         )
       }
       return parseJsonWithValue({
@@ -412,10 +2145,10 @@ export class EIDRConnector extends BaseConnector {
     // type === 'Simple'|| type === 'Provenance' || type === 'DOIKernel'
     const attr = `${type === 'DOIKernel' ? 'kernel' : type}Metadata`
     if (!res[attr]) {
-      throw new EIDRError(
+      throw new EIDRMalformedResponseError(
         'Unrecognized response',
-        500,
         `Unrecognized response resolving: id=${id} type=${type}`,
+        { operation: 'resolve' },
       )
     }
     // eslint-disable-next-line @typescript-eslint/no-unused-vars, no-shadow
@@ -427,29 +2160,30 @@ export class EIDRConnector extends BaseConnector {
     id: string,
     type = 'Full',
     credentials?: Credentials,
-    apiVersion?: string) {
+    apiVersion?: string,
+    options: RequestOptions = {}) {
     if (type !== 'Full' && type !== 'DOIKernel') {
       throw new EIDRError(
         'Unsupported type',
-        500,
+        400,
         `Unsupported resolution: id=${id} type=${type}`,
+        { operation: 'resolve' },
       )
     }
 
-    const auth: Authorization | undefined = credentials ?
-      new Authorization(credentials) :
-      undefined
+    const auth = this.authorizationFor(credentials)
 
     const prefix = id.startsWith('10.5237') ? 'party' : 'service'
     const pth = `${prefix}/resolve/${encodeURIComponent(id)}?type=${type}`
-    const res = await this.request('GET', pth, auth, undefined, apiVersion)
+    const res = await this.request('GET', pth, auth, undefined, apiVersion,
+      { ...requestOptions(options), operation: 'resolve' })
 
     if (res.Response &&
       res.Response.Status &&
       res.Response.Status.Code !== '0') {
-      throw new EIDRError(
-        `Error ${res.Response.Status.Code} ${res.Response.Status.Type}`,
-        500,
+      throw registryError(
+        res.Response.Status,
+        'resolve',
         `Registry error: id=${id} type=${res.Response.Status.Type}`,
       )
     }
@@ -457,10 +2191,10 @@ export class EIDRConnector extends BaseConnector {
     const which = id.startsWith('10.5237') ? 'Party' : 'Service'
     const payload = res && res[type === 'Full' ? which : 'kernelMetadata']
     if (!payload) {
-      throw new EIDRError(
+      throw new EIDRMalformedResponseError(
         'Unrecognized response',
-        500,
         `Unrecognized response resolving: id=${id} type=${type}`,
+        { operation: 'resolve' },
       )
     }
 
@@ -469,15 +2203,155 @@ export class EIDRConnector extends BaseConnector {
     return parseJsonWithValue(response)
   }
 
+  private async modify(
+    id: string,
+    render: () => string,
+    options: OperationOptions,
+    credentials?: Credentials,
+    apiVersion?: string,
+    related: string[] = [],
+  ): Promise<ModificationResult> {
+    const auth = this.registeredAuthorization(credentials)
+
+    try {
+      id = canonicalContentId(id)
+    } catch (e) {
+      throw new EIDRInvalidIdError('Invalid modification',
+        (e as Error).message, { operation: 'modify' })
+    }
+    let operation: string
+    try {
+      operation = render()
+    } catch (e) {
+      throw new EIDRError('Invalid modification', 400, (e as Error).message,
+        { operation: 'modify' })
+    }
+
+    const req = this.renderOperationRequest(operation)
+    const obj = await this.request(
+      'POST',
+      `object/modify${options.immediate ? '?immediate=true' : ''}`,
+      auth,
+      req,
+      apiVersion,
+      { ...requestOptions(options), operation: 'modify' },
+    )
+    const res = obj.Response
+    this.assertResponseStatus(res, 'modify')
+
+    if (res.Token) {
+      return { id, status: 'pending', token: String(res.Token) }
+    }
+    // Cached results of the record, and of related records like an alias
+    // target, are out of date
+    await this.invalidate([id, ...related.map(canonicalContentId)])
+    return { id, status: 'applied' }
+  }
+
+  public async modifyBase(
+    id: string,
+    base: BaseObjectDataValue,
+    options: OperationOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ) {
+    return this.modify(
+      id,
+      () => renderModifyBase(id, base),
+      options,
+      credentials,
+      apiVersion,
+    )
+  }
+
+  public async modifyAlternateIds(
+    id: string,
+    op: ListModification,
+    altids: AlternateIDValue[],
+    options: OperationOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ) {
+    return this.modify(
+      id,
+      () => renderAlternateIDs(op, id, altids),
+      options,
+      credentials,
+      apiVersion,
+    )
+  }
+
+  public async modifyAssociatedOrgs(
+    id: string,
+    op: ListModification,
+    orgs: AssociatedOrgValue[],
+    options: OperationOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ) {
+    return this.modify(
+      id,
+      () => renderAssociatedOrgs(op, id, orgs),
+      options,
+      credentials,
+      apiVersion,
+    )
+  }
+
+  public async promote(
+    id: string,
+    options: OperationOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ) {
+    return this.modify(
+      id,
+      () => renderPromote(id),
+      options,
+      credentials,
+      apiVersion,
+    )
+  }
+
+  public async alias(
+    id: string,
+    target: string,
+    options: OperationOptions = {},
+    credentials?: Credentials,
+    apiVersion?: string,
+  ) {
+    return this.modify(
+      id,
+      () => renderAlias(id, target),
+      options,
+      credentials,
+      apiVersion,
+      [target],
+    )
+  }
+
   public async simpleQuery(
-    exprOrObj: string | Obj,
-    compareFunction?: (a: Obj, b: Obj) => number,
+    exprOrObj: QueryInput,
+    compareFunction?: (a: SimpleMetadata, b: SimpleMetadata) => number,
     credentials?: Credentials,
+    options: SimpleQueryOptions = {},
   ) {
-    const { results } = await this.query(exprOrObj, {}, credentials)
-    const defaultCompareFunction = ((a: any, b: any) => (
-      (new Date(b.ReleaseDate)).getTime() -
-      (new Date(a.ReleaseDate)).getTime()
+    let results: SimpleMetadata[] = []
+    if (options.all) {
+      const iterator = this.queryAll(
+        exprOrObj,
+        { limit: options.limit },
+        credentials,
+      )
+      for await (const result of iterator) {
+        results.push(result)
+      }
+    } else {
+      results = (await this.query(exprOrObj, {}, credentials)).results
+    }
+    const defaultCompareFunction = ((a: SimpleMetadata, b: SimpleMetadata) => (
+      (new Date(b.ReleaseDate as string)).getTime() -
+      (new Date(a.ReleaseDate as string)).getTime()
     ))
     return results.sort(compareFunction || defaultCompareFunction)
   }
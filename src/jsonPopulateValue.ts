@@ -14,6 +14,26 @@ const jsonFormatWithValueRules = [
   //   '*.SequenceInfo.DistributionNumber',   // Example with wildcard
 ]
 
+// Defines the property paths of repeatable elements. With xml2js
+// 'explicitArray: false' a repeatable element is a single value when
+// it appears once, and an array otherwise. These paths are always
+// converted into arrays. Same syntax as above, including wildcards
+const jsonArrayRules = [
+  'AlternateResourceName',
+  'OriginalLanguage',
+  'VersionLanguage',
+  'AssociatedOrg',
+  'AssociatedOrg.AlternateName',
+  'CountryOfOrigin',
+  'AlternateID',
+  'LinkedAlternateID',
+  'Credits.Actor',
+  'Credits.Director',
+  'ExtraObjectMetadata.EditInfo.EditClass',
+  'ExtraObjectMetadata.EditInfo.EditDetails',
+  'PartyName.AlternateName',
+]
+
 // Recursion to convert primitive values in specified path
 // of the JSON to an object
 function parseJsonWithOneRule(jsonToParse: any, fields: string[]) {
@@ -65,10 +85,56 @@ function parseJsonWithOneRule(jsonToParse: any, fields: string[]) {
   }
 }
 
-export function parseJsonWithValue(json: any) {
+// Recursion to convert single values in specified path of
+// the JSON to an array
+function ensureArrayWithOneRule(jsonToParse: any, fields: string[]) {
+  if (!fields?.length || !jsonToParse || typeof jsonToParse !== 'object') {
+    return
+  }
+
+  const currentField = fields[0]
+  const subFields = fields.slice(1)
+
+  if (currentField === '*') {
+    Object.keys(jsonToParse).forEach((value) => {
+      ensureArrayWithOneRule(jsonToParse[value], fields)
+      ensureArrayWithOneRule(jsonToParse[value], subFields)
+    })
+    return
+  }
+
+  const value = jsonToParse[currentField]
+  if (value === undefined || value === null) {
+    return
+  }
+
+  if (fields.length === 1) {
+    if (!Array.isArray(value)) {
+      jsonToParse[currentField] = [value]
+    }
+    return
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((arrItem: any) => ensureArrayWithOneRule(arrItem, subFields))
+  } else {
+    ensureArrayWithOneRule(value, subFields)
+  }
+}
+
+export function parseJsonWithValue(json: any): any {
   if (!json || typeof json !== 'object') {
     return json
   }
+  if (Array.isArray(json)) {
+    json.forEach((item) => {
+      jsonArrayRules.forEach((rule) =>
+        ensureArrayWithOneRule(item, rule.split('.')))
+    })
+  } else {
+    jsonArrayRules.forEach((rule) =>
+      ensureArrayWithOneRule(json, rule.split('.')))
+  }
   jsonFormatWithValueRules.forEach((rule) =>
     parseJsonWithOneRule(json, rule.split('.')))
   return json
@@ -1,27 +1,118 @@
-import { validateId } from './validate'
+import { EIDRInvalidQueryError } from './errors'
+import { normalizeId } from './validate'
 
 type Obj = Record<string, any>
 
+// JSON query types. Every query object has exactly one property, so
+// the types below are unions of single property objects, and objects
+// with more than one property fail to compile
+
+type Only<T, K extends keyof T> =
+  { [P in K]: T[P] } & { [P in Exclude<keyof T, K>]?: never }
+
+type OneOf<T> = { [K in keyof T]: Only<T, K> }[keyof T]
+
+export type TextElement =
+  'title' | 'alttitle' | 'anytitle' | 'coo' | 'struct' | 'reftype' |
+  'status' | 'lang' | 'aoname' | 'aoaltname' | 'aoanyname' | 'aoid' |
+  'actor' | 'director' | 'contributor' | 'altid' | 'altidtype' |
+  'altiddomain'
+
+// Text elements with multiple paths do not support EXISTS queries
+type MultiPathElement =
+  'anytitle' | 'aoanyname' | 'actor' | 'director' | 'contributor'
+
+export type ExistsElement =
+  Exclude<TextElement, MultiPathElement> | 'date' | 'length'
+
+// Lengths are ISO 8601 durations, e.g. 'PT1H30M', or numbers of minutes
+export type Length = string | number
+
+interface TextMatchOperations {
+  words: string
+  contains: string
+  exact: string
+  in: string[]
+}
+
+export type TextMatch = OneOf<TextMatchOperations>
+
+export type IdMatch = OneOf<{ words: string, exact: string }>
+
+export type DateMatch = OneOf<{
+  date: string,
+  before: string,
+  after: string,
+  between: [string, string],
+}>
+
+export type LengthMatch = OneOf<{
+  length: Length,
+  maxlength: Length,
+  minlength: Length,
+  between: [Length, Length],
+}>
+
+export type OrgMatch =
+  ({ role: string } & { [P in keyof TextMatchOperations | 'id']?: never }) |
+  ({ role?: string } & OneOf<TextMatchOperations & { id: string }>)
+
+export type CreditMatch = { role?: string } & TextMatch
+
+export type PathMatch = { path: string } & OneOf<TextMatchOperations & {
+  min: string | number,
+  max: string | number,
+  between: [string | number, string | number],
+  exists: true,
+}>
+
+interface JsonQueryElements extends Record<TextElement, TextMatch> {
+  and: JsonQuery[]
+  or: JsonQuery[]
+  not: JsonQuery
+  id: IdMatch
+  date: DateMatch
+  length: LengthMatch
+  org: OrgMatch
+  credit: CreditMatch
+  path: PathMatch
+  exists: ExistsElement
+  isroot: boolean
+  parent: string
+}
+
+export type JsonQuery = OneOf<JsonQueryElements>
+
 function assertSingleProperty(obj: Obj) {
   if (typeof obj !== 'object') {
-    throw new Error(`Not an object: ${JSON.stringify(obj)}`)
+    throw new EIDRInvalidQueryError(`Not an object: ${JSON.stringify(obj)}`)
   }
   if (Object.keys(obj).length !== 1) {
-    throw new Error(
+    throw new EIDRInvalidQueryError(
       `Object must have one single property: ${JSON.stringify(obj)}`
     )
   }
   return [Object.keys(obj)[0], Object.values(obj)[0]]
 }
 
+function canonicalId(id: string, what: string) {
+  const normalized = normalizeId(id)
+  if (!normalized.valid) {
+    throw new EIDRInvalidQueryError(`Invalid ${what}: ${normalized.reason}`)
+  }
+  return normalized.id
+}
+
 function nary(op: string, expressions: string[]) {
   op = op.toUpperCase()
   if (!Array.isArray(expressions)) {
-    throw new Error(`${op} requires an array: ${expressions}`)
+    throw new EIDRInvalidQueryError(`${op} requires an array: ${expressions}`)
   }
   for (const expression of expressions) {
     if (typeof expression !== 'string' || expression.trim().length === 0) {
-      throw new Error(`${op} requires string expressions: ${expression}`)
+      throw new EIDRInvalidQueryError(
+        `${op} requires string expressions: ${expression}`,
+      )
     }
   }
   const many = 1 < expressions.length
@@ -36,21 +127,26 @@ function OR(expressions: string[]) {
 
 function NOT(expression: string) {
   if (typeof expression !== 'string' || expression.trim().length === 0) {
-    throw new Error(`NOT requires a string expression: ${expression}`)
+    throw new EIDRInvalidQueryError(
+      `NOT requires a string expression: ${expression}`,
+    )
   }
   return `(NOT ${expression})`
 }
 
-const textElements: Record<string, string[]> = {
+const basePath = '/FullMetadata/BaseObjectData/'
+
+export const textElements: Record<string, string[]> = {
   title: ['ResourceName'],
   alttitle: ['AlternateResourceName'],
   anytitle: ['ResourceName', 'AlternateResourceName'],
   coo: ['CountryOfOrigin'],
   struct: ['StructuralType'],
   reftype: ['ReferentType'],
+  status: ['Status'],
   lang: ['OriginalLanguage'],
   aoname: ['AssociatedOrg/DisplayName'],
-  aoaltname: ['Associatedorg/AlternateName'],
+  aoaltname: ['AssociatedOrg/AlternateName'],
   aoanyname: ['AssociatedOrg/DisplayName', 'AssociatedOrg/AlternateName'],
   aoid: ['AssociatedOrg@organizationID'],
   actor: ['Credits/Actor/DisplayName', 'Credits/Actor/SortName'],
@@ -61,86 +157,237 @@ const textElements: Record<string, string[]> = {
   altiddomain: ['AlternateID@domain'],
 }
 
-function textQuery(key: string, obj: Obj) {
-  const [op, list] = assertSingleProperty(obj)
+// Credit roles searched by credit queries without a role
+export const creditRoles = ['Director', 'Actor']
+
+// Quote a phrase, escaping double quotes and backslashes
+export function quote(phrase: string) {
+  return `"${phrase.replace(/(["\\])/g, '\\$1')}"`
+}
+
+// Quote single words that include special characters or would be
+// read as operators
+function word(w: string) {
+  return /[()"\\]/.test(w) || /^(AND|OR|NOT|IS|EXISTS|<=|>=)$/i.test(w) ?
+    quote(w) :
+    w
+}
+
+function textMatch(paths: string[], op: string, list: any) {
+  if (op === 'in') {
+    if (!Array.isArray(list) || list.length === 0 || !list.every((v) =>
+      typeof v === 'string' && 0 < v.trim().length)) {
+      throw new EIDRInvalidQueryError(
+        `Invalid in list: ${JSON.stringify(list)}`,
+      )
+    }
+    return OR(paths.map((p) =>
+      list.map((v: string) => `(${p} IS ${quote(v.trim())})`)).flat())
+  }
   if (typeof list !== 'string') {
-    throw new Error(`Invalid text query word list: ${list}`)
+    throw new EIDRInvalidQueryError(`Invalid text query word list: ${list}`)
   }
   const words = list.split(' ').filter((s) => 0 < s.length)
   if (words.length === 0) {
-    throw new Error(`Empty text query word list: ${list}`)
+    throw new EIDRInvalidQueryError(`Empty text query word list: ${list}`)
   }
-  const te = textElements[key].map((p) => `/FullMetadata/BaseObjectData/${p}`)
   switch (op) {
   case 'words':
-    return OR(te.map((p) => words.map((w) => `(${p} ${w})`)).flat())
+    return OR(paths.map((p) => words.map((w) => `(${p} ${word(w)})`)).flat())
   case 'contains':
-    return OR(te.map((p) => `(${p} "${words.join(' ')}")`))
+    return OR(paths.map((p) => `(${p} ${quote(words.join(' '))})`))
   case 'exact':
-    return OR(te.map((p) => `(${p} IS "${words.join(' ')}")`))
+    return OR(paths.map((p) => `(${p} IS ${quote(words.join(' '))})`))
   default:
-    throw new Error(`Invalid text query operation: ${op}`)
+    throw new EIDRInvalidQueryError(`Invalid text query operation: ${op}`)
   }
 }
 
+function textQuery(key: string, obj: Obj) {
+  const [op, list] = assertSingleProperty(obj)
+  return textMatch(textElements[key].map((p) => basePath + p), op, list)
+}
+
 function idQuery(obj: Obj) {
   const [op, list] = assertSingleProperty(obj)
   if (typeof list !== 'string') {
-    throw new Error(`Invalid ID list: ${list}`)
+    throw new EIDRInvalidQueryError(`Invalid ID list: ${list}`)
   }
-  const ids = list.split(' ').filter((s) => 0 < s.length)
+  const ids = list.split(' ')
+    .filter((s) => 0 < s.length)
+    .map((id) => canonicalId(id, 'ID'))
   if (ids.length === 0) {
-    throw new Error(`Empty ID list: ${list}`)
-  }
-  for (const id of ids) {
-    if (!validateId(id)) {
-      throw new Error(`Invalid ID: ${id}`)
-    }
+    throw new EIDRInvalidQueryError(`Empty ID list: ${list}`)
   }
   switch (op) {
   case 'words':
-    return OR(ids.map((id) => `/FullMetadata/BaseObjectData/ID ${id}`))
+    return OR(ids.map((id) => `(/FullMetadata/BaseObjectData/ID ${id})`))
   case 'exact':
     if (ids.length !== 1) {
-      throw new Error(`Excat ID expect single ID, but found ${ids.length}`)
+      throw new EIDRInvalidQueryError(
+        `Excat ID expect single ID, but found ${ids.length}`,
+      )
     }
     return `(/FullMetadata/BaseObjectData/ID ${ids[0]})`
   default:
-    throw new Error(`Invalid ID query operation: ${op}`)
+    throw new EIDRInvalidQueryError(`Invalid ID query operation: ${op}`)
   }
 }
 
-function dateQuery(obj: Obj) {
-  const [op, date] = assertSingleProperty(obj)
-  if (typeof date !== 'string' || date.trim().length === 0) {
-    throw new Error(`Invalid date: ${date}`)
+function between(path: string, range: any, format: (value: any) => string) {
+  if (!Array.isArray(range) || range.length !== 2) {
+    throw new EIDRInvalidQueryError(`Range must be a [from, to] array: ${
+      JSON.stringify(range)
+    }`)
   }
+  const [from, to] = range.map(format)
+  return `((${path} >= ${from}) AND (${path} <= ${to}))`
+}
+
+// Dates are ISO 8601 dates or date prefixes, e.g. 2000, 2000-05 or
+// 2000-05-19
+function date(value: any) {
+  if (typeof value !== 'string' || !/^[^\s()"]+$/.test(value.trim())) {
+    throw new EIDRInvalidQueryError(`Invalid date: ${value}`)
+  }
+  return value.trim()
+}
+
+function dateQuery(obj: Obj) {
+  const [op, value] = assertSingleProperty(obj)
+  const path = `${basePath}ReleaseDate`
   switch (op) {
   case 'date':
-    return `(/FullMetadata/BaseObjectData/ReleaseDate ${date})`
+    return `(${path} ${date(value)})`
   case 'before':
-    return `(/FullMetadata/BaseObjectData/ReleaseDate <= ${date})`
+    return `(${path} <= ${date(value)})`
   case 'after':
-    return `(/FullMetadata/BaseObjectData/ReleaseDate >= ${date})`
+    return `(${path} >= ${date(value)})`
+  case 'between':
+    return between(path, value, date)
   default:
-    throw new Error(`Invalid date query operation: ${op}`)
+    throw new EIDRInvalidQueryError(`Invalid date query operation: ${op}`)
   }
 }
 
-function lengthQuery(obj: Obj) {
-  const [op, length] = assertSingleProperty(obj)
-  if (typeof length !== 'string' || length.trim().length === 0) {
-    throw new Error(`Invalid length: ${length}`)
+// Lengths are ISO 8601 durations, e.g. PT1H30M, or numbers of minutes
+function duration(length: any) {
+  if (typeof length === 'number') {
+    if (!isFinite(length) || length < 0) {
+      throw new EIDRInvalidQueryError(`Invalid length: ${length}`)
+    }
+    const seconds = Math.round(length * 60)
+    return `PT${Math.floor(seconds / 60)}M${
+      seconds % 60 === 0 ? '' : `${seconds % 60}S`
+    }`
+  }
+  if (typeof length !== 'string' || !/^[^\s()"]+$/.test(length.trim())) {
+    throw new EIDRInvalidQueryError(`Invalid length: ${length}`)
   }
+  return length.trim()
+}
+
+function lengthQuery(obj: Obj) {
+  const [op, value] = assertSingleProperty(obj)
+  const path = `${basePath}ApproximateLength`
   switch (op) {
   case 'length':
-    return `(/FullMetadata/BaseObjectData/ApproximateLength ${length})`
+    return `(${path} ${duration(value)})`
   case 'maxlength':
-    return `(/FullMetadata/BaseObjectData/ApproximateLength <= ${length})`
+    return `(${path} <= ${duration(value)})`
   case 'minlength':
-    return `(/FullMetadata/BaseObjectData/ApproximateLength >= ${length})`
+    return `(${path} >= ${duration(value)})`
+  case 'between':
+    return between(path, value, duration)
+  default:
+    throw new EIDRInvalidQueryError(`Invalid length query operation: ${op}`)
+  }
+}
+
+// Split the role from an org or credit query, e.g.
+// { role: 'producer', contains: 'dreamworks' }
+function splitRole(what: string, obj: Obj): [string | undefined, Obj] {
+  if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+    throw new EIDRInvalidQueryError(
+      `Invalid ${what} query: ${JSON.stringify(obj)}`,
+    )
+  }
+  const { role, ...match } = obj
+  if (role !== undefined &&
+    (typeof role !== 'string' || !/^[A-Za-z][\w-]*$/.test(role))) {
+    throw new EIDRInvalidQueryError(`Invalid ${what} role: ${role}`)
+  }
+  return [role, match]
+}
+
+function orgQuery(obj: Obj) {
+  const [role, match] = splitRole('org', obj)
+  const clauses = role === undefined ?
+    [] :
+    [`(${basePath}AssociatedOrg@role IS ${quote(role)})`]
+  if (role === undefined || 0 < Object.keys(match).length) {
+    const [op, value] = assertSingleProperty(match)
+    clauses.push(op === 'id' ?
+      `(${basePath}AssociatedOrg@organizationID ${
+        canonicalId(value, 'organization ID')
+      })` :
+      textQuery('aoanyname', { [op]: value }))
+  }
+  return nary('and', clauses)
+}
+
+function creditQuery(obj: Obj) {
+  const [role, match] = splitRole('credit', obj)
+  const roles = role === undefined ?
+    creditRoles :
+    [role[0].toUpperCase() + role.substring(1)]
+  const [op, value] = assertSingleProperty(match)
+  return textMatch(
+    roles.map((r) => [
+      `${basePath}Credits/${r}/DisplayName`,
+      `${basePath}Credits/${r}/SortName`,
+    ]).flat(),
+    op,
+    value,
+  )
+}
+
+function scalar(value: any) {
+  const str = typeof value === 'number' ? String(value) : value
+  if (typeof str !== 'string' || !/^[^\s()"]+$/.test(str.trim())) {
+    throw new EIDRInvalidQueryError(`Invalid value: ${value}`)
+  }
+  return str.trim()
+}
+
+// Query any metadata element by its path, e.g.
+// { path: '/FullMetadata/BaseObjectData/Mode', exact: 'AudioVisual' }
+function pathQuery(obj: Obj) {
+  if (typeof obj !== 'object' || obj === null || Array.isArray(obj)) {
+    throw new EIDRInvalidQueryError(
+      `Invalid path query: ${JSON.stringify(obj)}`,
+    )
+  }
+  const { path, ...match } = obj
+  if (typeof path !== 'string' ||
+    !/^\/FullMetadata(\/[A-Za-z][\w.:-]*)+(@[A-Za-z][\w.:-]*)?$/.test(path)) {
+    throw new EIDRInvalidQueryError(`Invalid metadata path: ${path}`)
+  }
+  const [op, value] = assertSingleProperty(match)
+  switch (op) {
+  case 'exists':
+    if (value !== true) {
+      throw new EIDRInvalidQueryError(`exists value must be true: ${value}`)
+    }
+    return `(${path} EXISTS)`
+  case 'min':
+    return `(${path} >= ${scalar(value)})`
+  case 'max':
+    return `(${path} <= ${scalar(value)})`
+  case 'between':
+    return between(path, value, scalar)
   default:
-    throw new Error(`Invalid length query operation: ${op}`)
+    return textMatch([path], op, value)
   }
 }
 
@@ -152,43 +399,44 @@ function existsQuery(element: string) {
     return '(/FullMetadata/BaseObjectData/ApproximateLength EXISTS)'
   }
   if (!(element in textElements)) {
-    throw new Error(`Invalid element: ${element}`)
+    throw new EIDRInvalidQueryError(`Invalid element: ${element}`)
   }
   if (textElements[element].length !== 1) {
-    throw new Error(`Invalid element for EXISTS query: ${element}`)
+    throw new EIDRInvalidQueryError(
+      `Invalid element for EXISTS query: ${element}`,
+    )
   }
   return `(/FullMetadata/BaseObjectData/${textElements[element][0]} EXISTS)`
 }
 
+// Extra object metadata elements of records that have a parent
+export const parentInfoElements = [
+  'SeasonInfo',
+  'ClipInfo',
+  'ManifestationInfo',
+  'EpisodeInfo',
+  'EditInfo',
+]
+
 function isRootQuery(value :boolean) {
   if (typeof value !== 'boolean') {
-    throw new Error(`isroot value must be boolean: ${value}`)
-  }
-  const notRootQuery = OR([
-    '(/FullMetadata/ExtraObjectMetadata/SeasonInfo EXISTS)',
-    '(/FullMetadata/ExtraObjectMetadata/ClipInfo EXISTS)',
-    '(/FullMetadata/ExtraObjectMetadata/ManifestationInfo EXISTS)',
-    '(/FullMetadata/ExtraObjectMetadata/EpisodeInfo EXISTS)',
-    '(/FullMetadata/ExtraObjectMetadata/EditInfo EXISTS)',
-  ])
+    throw new EIDRInvalidQueryError(`isroot value must be boolean: ${value}`)
+  }
+  const notRootQuery = OR(parentInfoElements.map(
+    (e) => `(/FullMetadata/ExtraObjectMetadata/${e} EXISTS)`,
+  ))
   return value ? NOT(notRootQuery) : notRootQuery
 }
 
-function parentQuery(id: string) {
-  if (!validateId(id)) {
-    throw new Error(`Invalida parent ID: ${id}`)
-  }
-  return OR([
-    `(/FullMetadata/ExtraObjectMetadata/SeasonInfo/Parent ${id})`,
-    `(/FullMetadata/ExtraObjectMetadata/ClipInfo/Parent ${id})`,
-    `(/FullMetadata/ExtraObjectMetadata/ManifestationInfo/Parent ${id})`,
-    `(/FullMetadata/ExtraObjectMetadata/EpisodeInfo/Parent ${id})`,
-    `(/FullMetadata/ExtraObjectMetadata/EditInfo/Parent ${id})`,
-  ])
+function parentQuery(parent: string) {
+  const id = canonicalId(parent, 'parent ID')
+  return OR(parentInfoElements.map(
+    (e) => `(/FullMetadata/ExtraObjectMetadata/${e}/Parent ${id})`,
+  ))
 }
 
-export function buildJsonQuery(obj: Obj): string {
-  const [element, value] = assertSingleProperty(obj)
+export function buildJsonQuery(query: JsonQuery): string {
+  const [element, value] = assertSingleProperty(query)
   if (element === 'and' || element === 'or') {
     return nary(element, value.map(buildJsonQuery))
   }
@@ -216,94 +464,14 @@ export function buildJsonQuery(obj: Obj): string {
   if (element === 'parent') {
     return parentQuery(value)
   }
-  throw new Error(`Invalid element: ${element}`)
+  if (element === 'org') {
+    return orgQuery(value)
+  }
+  if (element === 'credit') {
+    return creditQuery(value)
+  }
+  if (element === 'path') {
+    return pathQuery(value)
+  }
+  throw new EIDRInvalidQueryError(`Invalid element: ${element}`)
 }
-
-// const qs = query(event.req.body)
-// console.log(qs)
-// await app.getConnector('eidr').query(qs)
-// return event.res.send(qs)
-
-// Tests:
-
-// { title: { words: 'star wars' }, length: 3 }
-// Error: Object must have one single property
-
-// { title: { words: 'star wars' } }
-// (
-//   (/FullMetadata/BaseObjectData/ResourceName star) OR
-//   (/FullMetadata/BaseObjectData/ResourceName wars)
-// )
-
-// { alltitles: { words: 'star wars' } }
-// (
-//   (/FullMetadata/BaseObjectData/ResourceName star) OR
-//   (/FullMetadata/BaseObjectData/ResourceName wars) OR
-//   (/FullMetadata/BaseObjectData/AlternateResourceName star) OR
-//   (/FullMetadata/BaseObjectData/AlternateResourceName wars)
-// )
-
-// { and: [{ title: { contains: 'star wars' } }, { coo: { exact: 'us' } }] }
-// (
-//   (/FullMetadata/BaseObjectData/ResourceName "star wars") AND
-//   (/FullMetadata/BaseObjectData/CountryOfOrigin IS "us")
-// )
-
-// { or: [{ title: { contains: 'star wars' } }, { coo: { exact: 'us' } }] }
-// (
-//   (/FullMetadata/BaseObjectData/ResourceName "star wars") OR
-//   (/FullMetadata/BaseObjectData/CountryOfOrigin IS "us")
-// )
-
-// { not: { title: { contains: 'star wars' } } }
-// (NOT (/FullMetadata/BaseObjectData/ResourceName "star wars"))
-
-// { date: { date: '2000' } }
-// (/FullMetadata/BaseObjectData/ReleaseDate 2000)
-
-// { date: { before: '2000' } }
-// (/FullMetadata/BaseObjectData/ReleaseDate <= 2000)
-
-// { date: { after: '2000' } }
-// (/FullMetadata/BaseObjectData/ReleaseDate >= 2000)
-
-// { length: { length: 'PT23M' } }
-// (/FullMetadata/BaseObjectData/ApproximateLength PT23M)
-
-// { length: { maxlength: 'PT23M' } }
-// (/FullMetadata/BaseObjectData/ApproximateLength <= PT23M)
-
-// { length: { minlength: 'PT23M' } }
-// (/FullMetadata/BaseObjectData/ApproximateLength >= PT23M)
-
-// { exists: 'actor' }
-// (/FullMetadata/BaseObjectData/Credits/Actor/DisplayName EXISTS)
-
-// { isroot: true }
-// (NOT (
-//   (/FullMetadata/ExtraObjectMetadata/SeasonInfo EXISTS) OR
-//   (/FullMetadata/ExtraObjectMetadata/ClipInfo EXISTS) OR
-//   (/FullMetadata/ExtraObjectMetadata/ManifestationInfo EXISTS) OR
-//   (/FullMetadata/ExtraObjectMetadata/EpisodeInfo EXISTS) OR
-//   (/FullMetadata/ExtraObjectMetadata/EditInfo EXISTS))
-// )
-
-// { parent: '10.5240/75C0-4663-9D6D-C864-1D9B-I' }
-// (
-//   (
-//     /FullMetadata/ExtraObjectMetadata/SeasonInfo/Parent
-//     10.5240/75C0-4663-9D6D-C864-1D9B-I
-//   ) OR (
-//     /FullMetadata/ExtraObjectMetadata/ClipInfo/Parent
-//     10.5240/75C0-4663-9D6D-C864-1D9B-I
-//   ) OR (
-//     /FullMetadata/ExtraObjectMetadata/ManifestationInfo/Parent
-//     10.5240/75C0-4663-9D6D-C864-1D9B-I
-//   ) OR (
-//     /FullMetadata/ExtraObjectMetadata/EpisodeInfo/Parent
-//     10.5240/75C0-4663-9D6D-C864-1D9B-I
-//   ) OR (
-//     /FullMetadata/ExtraObjectMetadata/EditInfo/Parent
-//     10.5240/75C0-4663-9D6D-C864-1D9B-I
-//   )
-// )
@@ -0,0 +1,113 @@
+import { QueryExpression } from '../queryParser'
+
+// Evaluator for EIDR query expressions, used by the mock registry server
+// to filter fixture records. Expressions are parsed with parseQuery (see
+// queryParser.ts).
+
+type Obj = Record<string, any>
+
+function localName(name: string) {
+  return name.substring(name.indexOf(':') + 1).toLowerCase()
+}
+
+function children(node: any, name: string): any[] {
+  if (!node || typeof node !== 'object') {
+    return []
+  }
+  const key = Object.keys(node)
+    .find((k) => k !== '$' && localName(k) === localName(name))
+  return key ? node[key] : []
+}
+
+export function textOf(node: any): string {
+  if (node === undefined || node === null) {
+    return ''
+  }
+  return typeof node === 'object' ? String(node._ || '') : String(node)
+}
+
+// Find the values of a path like /FullMetadata/BaseObjectData/Credits
+// /Director/DisplayName or /FullMetadata/BaseObjectData/AlternateID@type
+// in an xml2js record parsed with explicitArray (the FullMetadata node,
+// or the Party or Service node with paths under that root)
+export function lookup(
+  record: Obj,
+  path: string,
+  root = 'FullMetadata',
+): any[] {
+  const [elements, attribute] = path.split('@')
+  const segments = elements.split('/').filter((s) => 0 < s.length)
+  if (segments.length === 0 || localName(segments[0]) !== localName(root)) {
+    return []
+  }
+  let nodes = [record]
+  for (const segment of segments.slice(1)) {
+    nodes = nodes.map((node) => children(node, segment)).flat()
+  }
+  if (attribute === undefined) {
+    return nodes
+  }
+  return nodes
+    .map((node) => node && node.$ && Object.keys(node.$)
+      .filter((k) => localName(k) === localName(attribute))
+      .map((k) => node.$[k]))
+    .filter(Boolean)
+    .flat()
+}
+
+function words(str: string) {
+  return str.toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter((w) => 0 < w.length)
+}
+
+function minutes(duration: string) {
+  const match = /^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/.exec(duration)
+  return match ?
+    Number(match[1] || 0) * 60 + Number(match[2] || 0) +
+      Number(match[3] || 0) / 60 :
+    undefined
+}
+
+function compare(value: string, bound: string) {
+  const a = minutes(value)
+  const b = minutes(bound)
+  if (a !== undefined && b !== undefined) {
+    return a - b
+  }
+  const prefix = value.substring(0, bound.length)
+  return prefix < bound ? -1 : bound < prefix ? 1 : 0
+}
+
+export function evaluate(
+  expr: QueryExpression,
+  record: Obj,
+  root = 'FullMetadata',
+): boolean {
+  switch (expr.type) {
+  case 'and':
+    return expr.operands.every((e) => evaluate(e, record, root))
+  case 'or':
+    return expr.operands.some((e) => evaluate(e, record, root))
+  case 'not':
+    return !evaluate(expr.operand, record, root)
+  }
+
+  const nodes = lookup(record, expr.path, root)
+  if (expr.op === 'exists') {
+    return 0 < nodes.length
+  }
+  const values = nodes.map(textOf)
+  const term = expr.terms.map((t) => t.value).join(' ')
+  switch (expr.op) {
+  case 'is':
+    return values.some((v) => v.toLowerCase() === term.toLowerCase())
+  case 'lte':
+    return values.some((v) => compare(v, term) <= 0)
+  case 'gte':
+    return values.some((v) => 0 <= compare(v, term))
+  default:
+    return expr.terms.every((t) => values.some((v) => (t.phrase ?
+      ` ${words(v).join(' ')} `.includes(` ${words(t.value).join(' ')} `) :
+      words(v).includes(t.value.toLowerCase()) || v === t.value)))
+  }
+}
@@ -0,0 +1,775 @@
+import fs from 'fs'
+import http from 'http'
+import path from 'path'
+import xml2js from 'xml2js'
+import { QueryExpression, parseQuery } from '../queryParser'
+import { checkDigit } from '../validate'
+import { evaluate, lookup, textOf } from './expression'
+
+// Mock EIDR registry server for offline development and testing. The
+// server serves content, party and service records from XML fixtures:
+//
+//   <fixtures>/content/*.xml   FullMetadata records
+//   <fixtures>/party/*.xml     Party records
+//   <fixtures>/service/*.xml   Service records
+//
+// and supports the following endpoints of the registry API:
+//
+//   GET  /EIDR/object/<id>?type=<type>
+//   POST /EIDR/object/graph
+//   POST /EIDR/query/[?type=ID]
+//   GET  /EIDR/party/resolve/<id>?type=<type>
+//   GET  /EIDR/service/resolve/<id>?type=<type>
+//   POST /EIDR/party/query/
+//   POST /EIDR/service/query/
+//   POST /EIDR/object/[?immediate=true]
+//   POST /EIDR/object/modify[?immediate=true]
+//   GET  /EIDR/status/<token>
+//
+// Derived resolution types (Simple, DOIKernel, Provenance, AlternateIDs
+// and LinkedAlternateIDs) are computed from the full records. Queries,
+// graph traversals and registry operations require an Authorization
+// header.
+//
+// Registrations and modifications return an operation token. The
+// operation is applied after its status was polled pendingPolls times
+// (default 1). With immediate=true, registrations are applied right away
+// and modifications are applied without a token. Registered records get
+// IDs starting with 10.5240/FFFF-, and fail if their parent does not
+// exist. Aliased records resolve to their alias target.
+//
+// Requests received by the server are logged in `requests`, in the
+// order they were received. Call fail() to answer the next requests
+// with an HTTP error, e.g. to test retries.
+//
+// Usage:
+//
+//   const server = new MockEIDRServer()
+//   const endpoint = await server.start()
+//   const eidr = new EIDRConnector(app, { ...credentials, endpoint })
+//   ...
+//   await server.stop()
+
+type Obj = Record<string, any>
+
+interface MockServerOptions {
+  fixtures?: string
+  // Status polls of an operation answered with pending. Default is 1
+  pendingPolls?: number
+}
+
+export interface MockRequest {
+  method: string
+  // Path and query string
+  url: string
+  body: string
+}
+
+export interface MockFailure {
+  // HTTP status of the response. Default is 503
+  status?: number
+  headers?: Record<string, string>
+  // Milliseconds to wait before responding
+  delay?: number
+  // Only fail requests with this method
+  method?: string
+}
+
+interface MockOperation {
+  // Status polls left before the operation is applied
+  pending: number
+  apply: () => Obj
+  // Status of the applied operation
+  result?: Obj
+}
+
+// Status codes returned by the mock registry
+const statuses = {
+  invalidRequest: { Code: '2', Type: 'invalid request' },
+  notFound: { Code: '3', Type: 'not found' },
+  unauthenticated: { Code: '4', Type: 'authentication failure' },
+}
+
+const namespaces = {
+  xmlns: 'http://www.eidr.org/schema',
+  'xmlns:md': 'http://www.movielabs.com/schema/md/v2.1/md',
+  'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+}
+
+const simpleFields = [
+  'ID', 'StructuralType', 'Mode', 'ReferentType', 'ResourceName',
+  'OriginalLanguage', 'AssociatedOrg', 'ReleaseDate', 'CountryOfOrigin',
+  'Status', 'ApproximateLength', 'Credits',
+]
+
+const relationshipTypes: Record<string, string> = {
+  SeasonInfo: 'isSeasonOf',
+  EpisodeInfo: 'isEpisodeOf',
+  EditInfo: 'isEditOf',
+  ClipInfo: 'isClipOf',
+  ManifestationInfo: 'isManifestationOf',
+}
+
+function parentOfRecord(record: Obj): string | undefined {
+  if (!record.ExtraObjectMetadata) {
+    return undefined
+  }
+  for (const info of Object.keys(relationshipTypes)) {
+    const parent = lookup(record,
+      `/FullMetadata/ExtraObjectMetadata/${info}/Parent`)[0]
+    if (parent) {
+      return textOf(parent)
+    }
+  }
+  return undefined
+}
+
+export const defaultFixtures = path.join(__dirname, '..', '..', 'fixtures')
+
+export class MockEIDRServer {
+  public endpoint?: string
+  public requests: MockRequest[] = []
+  private server?: http.Server
+  private content = new Map<string, Obj>()
+  private parties = new Map<string, Obj>()
+  private services = new Map<string, Obj>()
+  // Revisions of content records replaced since the server was started
+  private revisions = new Map<string, number>()
+  private operations = new Map<string, MockOperation>()
+  private aliases = new Map<string, string>()
+  private registrations = 0
+  private failures: MockFailure[] = []
+  private builder = new xml2js.Builder({
+    headless: true,
+    renderOpts: { pretty: false },
+  })
+
+  constructor(private options: MockServerOptions = {}) {
+  }
+
+  public async start(port = 0): Promise<string> {
+    await this.load(this.options.fixtures || defaultFixtures)
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((e) => {
+        res.writeHead(500, { 'Content-Type': 'text/plain' })
+        res.end(String(e && e.message))
+      })
+    })
+    this.server = server
+    await new Promise<void>((resolve) => server.listen(port, resolve))
+    const address = server.address()
+    const actual = typeof address === 'object' && address ? address.port : port
+    this.endpoint = `http://localhost:${actual}/EIDR/`
+    return this.endpoint
+  }
+
+  public async stop() {
+    const server = this.server
+    this.server = undefined
+    if (server) {
+      await new Promise((resolve) => server.close(resolve))
+    }
+  }
+
+  // Add or replace a record from an XML string. The record type is
+  // detected from its root element (FullMetadata, Party or Service)
+  public async addRecord(xml: string) {
+    const obj = await xml2js.parseStringPromise(xml)
+    const [root] = Object.keys(obj)
+    const record = obj[root]
+    if (root === 'FullMetadata') {
+      const id = textOf(lookup(record, '/FullMetadata/BaseObjectData/ID')[0])
+      if (this.content.has(id)) {
+        this.revisions.set(id, (this.revisions.get(id) || 0) + 1)
+      }
+      this.content.set(id, record)
+    } else if (root === 'Party') {
+      this.parties.set(textOf(record.ID[0]), record)
+    } else if (root === 'Service') {
+      this.services.set(textOf(record.ID[0]), record)
+    } else {
+      throw new Error(`Unsupported fixture root element: ${root}`)
+    }
+  }
+
+  // Answer the next matching requests with an HTTP error instead of
+  // handling them
+  //
+  // @param failure - status, headers and delay of the error response,
+  //                  and the method of the requests to fail
+  // @param times - number of requests to fail. Default is 1
+  public fail(failure: MockFailure = {}, times = 1) {
+    for (let i = 0; i < times; i++) {
+      this.failures.push(failure)
+    }
+  }
+
+  // Remove a content, party or service record
+  public removeRecord(id: string) {
+    this.revisions.delete(id)
+    this.aliases.delete(id)
+    return this.content.delete(id) || this.parties.delete(id) ||
+      this.services.delete(id)
+  }
+
+  // Modification date of a content record. Records are modified one
+  // second after the fixture date each time they are replaced
+  private modificationDate(id: string) {
+    const revision = this.revisions.get(id) || 0
+    return new Date(Date.UTC(2020, 0, 1) + revision * 1000)
+      .toISOString().replace('.000Z', 'Z')
+  }
+
+  private async load(dir: string) {
+    for (const sub of ['content', 'party', 'service']) {
+      const subdir = path.join(dir, sub)
+      if (!fs.existsSync(subdir)) {
+        continue
+      }
+      const files = fs.readdirSync(subdir).filter((f) => f.endsWith('.xml'))
+      for (const file of files) {
+        await this.addRecord(fs.readFileSync(path.join(subdir, file), 'utf8'))
+      }
+    }
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const pth = decodeURIComponent(url.pathname)
+    const type = url.searchParams.get('type') || 'Full'
+    const body = await new Promise<string>((resolve, reject) => {
+      let data = ''
+      req.on('data', (chunk) => data += chunk)
+      req.on('end', () => resolve(data))
+      req.on('error', reject)
+    })
+    this.requests.push({ method: req.method || '', url: req.url || '', body })
+
+    const failure = this.failures.findIndex((f) =>
+      f.method === undefined || f.method === req.method)
+    if (failure !== -1) {
+      const [{ status = 503, headers = {}, delay = 0 }] =
+        this.failures.splice(failure, 1)
+      await new Promise((resolve) => setTimeout(resolve, delay))
+      res.writeHead(status, { 'Content-Type': 'text/plain', ...headers })
+      res.end(http.STATUS_CODES[status] || 'Error')
+      return
+    }
+
+    const send = (obj: Obj) => {
+      res.writeHead(200, { 'Content-Type': 'text/xml' })
+      res.end(this.builder.buildObject(obj))
+    }
+    const status = (st: Obj, details: string) =>
+      send({ Response: { Status: { ...st, Details: details } } })
+    const authorization = /^Eidr \S+:(\S+):\S+$/
+      .exec(String(req.headers.authorization || ''))
+    const authorized = authorization !== null
+
+    let match: RegExpExecArray | null
+    if (req.method === 'GET' &&
+      (match = /^\/EIDR\/object\/(10\.5240\/.+)$/.exec(pth))) {
+      return this.resolveContent(match[1], type, send, status)
+    }
+    if (req.method === 'GET' &&
+      (match = /^\/EIDR\/(party|service)\/resolve\/(.+)$/.exec(pth))) {
+      return this.resolveOther(match[1], match[2], type, send, status)
+    }
+    if (req.method === 'GET' &&
+      (match = /^\/EIDR\/status\/(.+)$/.exec(pth))) {
+      if (!authorized) {
+        return status(statuses.unauthenticated, 'Missing credentials')
+      }
+      return this.operationStatus(match[1], send, status)
+    }
+    if (req.method === 'POST' && pth === '/EIDR/object/') {
+      if (!authorization) {
+        return status(statuses.unauthenticated, 'Missing credentials')
+      }
+      const immediate = url.searchParams.get('immediate') === 'true'
+      return this.register(body, authorization[1], immediate, send, status)
+    }
+    if (req.method === 'POST' && pth === '/EIDR/object/modify') {
+      if (!authorized) {
+        return status(statuses.unauthenticated, 'Missing credentials')
+      }
+      const immediate = url.searchParams.get('immediate') === 'true'
+      return this.modify(body, immediate, send, status)
+    }
+    const directory = /^\/EIDR\/(party|service)\/query\/$/.exec(pth)
+    if (req.method === 'POST' && (directory ||
+      pth === '/EIDR/object/graph' || pth === '/EIDR/query/')) {
+      if (!authorized) {
+        return status(statuses.unauthenticated, 'Missing credentials')
+      }
+      let operation: Obj
+      try {
+        const request = await xml2js.parseStringPromise(body, {
+          explicitArray: false,
+        })
+        operation = request.Request.Operation
+      } catch (e) {
+        return status(statuses.invalidRequest, 'Malformed request')
+      }
+      if (directory) {
+        return this.queryDirectory(directory[1], operation, send, status)
+      }
+      return pth === '/EIDR/query/' ?
+        this.query(operation, type === 'ID', send, status) :
+        this.graph(operation, send, status)
+    }
+    res.writeHead(404, { 'Content-Type': 'text/plain' })
+    res.end(`Not found: ${req.method} ${pth}`)
+  }
+
+  private base(record: Obj) {
+    return record.BaseObjectData[0]
+  }
+
+  private simple(record: Obj) {
+    const base = this.base(record)
+    const simple: Obj = { $: namespaces }
+    for (const field of simpleFields) {
+      if (base[field]) {
+        simple[field] = base[field]
+      }
+    }
+    return simple
+  }
+
+  private resolveContent(
+    id: string,
+    type: string,
+    send: (obj: Obj) => void,
+    status: (st: Obj, details: string) => void,
+  ) {
+    const record = this.content.get(this.aliases.get(id) || id)
+    if (!record) {
+      return status(statuses.notFound, `ID not found: ${id}`)
+    }
+    const base = this.base(record)
+    const registrant = base.Administrators ?
+      base.Administrators[0].Registrant :
+      []
+    switch (type) {
+    case 'Full':
+      return send({ FullMetadata: record })
+    case 'SelfDefined':
+      return send({ SelfDefinedMetadata: record })
+    case 'Simple':
+      return send({ SimpleMetadata: this.simple(record) })
+    case 'DOIKernel':
+      return send({ kernelMetadata: {
+        $: namespaces,
+        referentDoiName: [id],
+        primaryReferentType: ['Creation'],
+        issueDate: base.ReleaseDate || [],
+      } })
+    case 'Provenance':
+      return send({ ProvenanceMetadata: {
+        $: namespaces,
+        Administrators: base.Administrators || [],
+        CreatedBy: registrant,
+        CreationDate: ['2020-01-01T00:00:00Z'],
+        LastModifiedBy: registrant,
+        LastModificationDate: [this.modificationDate(id)],
+      } })
+    case 'AlternateIDs':
+      return send({ AlternateIDs: {
+        $: namespaces,
+        ID: [id],
+        AlternateID: base.AlternateID || [],
+      } })
+    case 'LinkedAlternateIDs':
+      return send({ LinkedAlternateIDs: { $: namespaces, ID: [id] } })
+    default:
+      return status(statuses.invalidRequest, `Invalid type: ${type}`)
+    }
+  }
+
+  private resolveOther(
+    kind: string,
+    id: string,
+    type: string,
+    send: (obj: Obj) => void,
+    status: (st: Obj, details: string) => void,
+  ) {
+    const record = (kind === 'party' ? this.parties : this.services).get(id)
+    if (!record) {
+      return status(statuses.notFound, `ID not found: ${id}`)
+    }
+    if (type === 'Full') {
+      return send({ [kind === 'party' ? 'Party' : 'Service']: record })
+    }
+    if (type === 'DOIKernel') {
+      return send({ kernelMetadata: {
+        $: namespaces,
+        referentDoiName: [id],
+        primaryReferentType: ['Party'],
+      } })
+    }
+    return status(statuses.invalidRequest, `Invalid type: ${type}`)
+  }
+
+  private parentOf(id: string): string | undefined {
+    const record = this.content.get(id)
+    return record && parentOfRecord(record)
+  }
+
+  private relationshipOf(id: string) {
+    const extra = this.content.get(id)!.ExtraObjectMetadata
+    const info = extra &&
+      Object.keys(extra[0]).find((key) => key in relationshipTypes)
+    return info ? relationshipTypes[info] : undefined
+  }
+
+  private childrenOf(id: string) {
+    return Array.from(this.content.keys())
+      .filter((child) => this.parentOf(child) === id)
+      .sort()
+  }
+
+  private ancestorsOf(id: string) {
+    const ancestors = []
+    for (let p = this.parentOf(id); p && this.content.has(p);
+      p = this.parentOf(p)) {
+      ancestors.push(p)
+    }
+    return ancestors
+  }
+
+  private descendantsOf(id: string): string[] {
+    return this.childrenOf(id)
+      .map((child) => [child, ...this.descendantsOf(child)])
+      .flat()
+  }
+
+  // Queue an operation and send its token
+  private queueOperation(
+    apply: () => Obj,
+    immediate: boolean,
+    send: (obj: Obj) => void,
+  ) {
+    const token = String(this.operations.size + 1)
+    const operation: MockOperation = {
+      pending: immediate ? 0 : (this.options.pendingPolls ?? 1),
+      apply,
+    }
+    if (immediate) {
+      operation.result = apply()
+    }
+    this.operations.set(token, operation)
+    send({ Response: {
+      Status: { Code: '0', Type: 'success' },
+      Token: [token],
+    } })
+  }
+
+  private operationStatus(
+    token: string,
+    send: (obj: Obj) => void,
+    status: (st: Obj, details: string) => void,
+  ) {
+    const operation = this.operations.get(token)
+    if (!operation) {
+      return status(statuses.notFound, `Token not found: ${token}`)
+    }
+    if (0 < operation.pending) {
+      operation.pending--
+    } else if (!operation.result) {
+      operation.result = operation.apply()
+    }
+    send({ Response: {
+      Status: { Code: '0', Type: 'success' },
+      OperationStatus: {
+        Token: [token],
+        ...(operation.result || { Status: { Code: '0', Type: 'pending' } }),
+      },
+    } })
+  }
+
+  private async register(
+    body: string,
+    registrant: string,
+    immediate: boolean,
+    send: (obj: Obj) => void,
+    status: (st: Obj, details: string) => void,
+  ) {
+    let record: Obj
+    try {
+      const request = await xml2js.parseStringPromise(body)
+      const operation = request.Request.Operation[0]
+      const [create] = Object.keys(operation)
+      const kind = /^Create(\w+)$/.exec(create)![1]
+      record = operation[create][0][kind][0]
+    } catch (e) {
+      return status(statuses.invalidRequest, 'Malformed request')
+    }
+    const base = record.BaseObjectData && record.BaseObjectData[0]
+    if (!base) {
+      return status(statuses.invalidRequest, 'Missing BaseObjectData')
+    }
+
+    const suffix = `FFFF-0000-0000-0000-${
+      (++this.registrations).toString(16).toUpperCase().padStart(4, '0')
+    }`
+    const id = `10.5240/${suffix}-${checkDigit(suffix)}`
+    const full: Obj = {
+      $: namespaces,
+      BaseObjectData: [{
+        ID: [id],
+        ...base,
+        Status: base.Status || ['valid'],
+        Administrators: base.Administrators || [{ Registrant: [registrant] }],
+      }],
+      ...(record.ExtraObjectMetadata ?
+        { ExtraObjectMetadata: record.ExtraObjectMetadata } :
+        {}),
+    }
+
+    this.queueOperation(() => {
+      const parent = parentOfRecord(full)
+      if (parent && !this.content.has(parent)) {
+        return { Status: {
+          ...statuses.invalidRequest,
+          Details: `Parent not found: ${parent}`,
+        } }
+      }
+      this.content.set(id, full)
+      return { Status: { Code: '0', Type: 'success' }, ID: [id] }
+    }, immediate, send)
+  }
+
+  private async modify(
+    body: string,
+    immediate: boolean,
+    send: (obj: Obj) => void,
+    status: (st: Obj, details: string) => void,
+  ) {
+    let op: string
+    let modification: Obj
+    try {
+      const request = await xml2js.parseStringPromise(body)
+      const operation = request.Request.Operation[0]
+      op = Object.keys(operation)[0]
+      modification = operation[op][0]
+    } catch (e) {
+      return status(statuses.invalidRequest, 'Malformed request')
+    }
+    const id = textOf(modification.ID && modification.ID[0])
+    const record = this.content.get(id)
+    if (!record) {
+      return status(statuses.notFound, `ID not found: ${id}`)
+    }
+    const target = textOf(modification.AliasTarget &&
+      modification.AliasTarget[0])
+    if (op === 'Alias' && !this.content.has(target)) {
+      return status(statuses.notFound, `ID not found: ${target}`)
+    }
+    const apply = this.modification(op, id, record, modification)
+    if (!apply) {
+      return status(statuses.invalidRequest, `Invalid operation: ${op}`)
+    }
+
+    const applied = () => {
+      apply()
+      this.revisions.set(id, (this.revisions.get(id) || 0) + 1)
+      return { Status: { Code: '0', Type: 'success' }, ID: [id] }
+    }
+    if (immediate) {
+      applied()
+      return send({ Response: { Status: { Code: '0', Type: 'success' } } })
+    }
+    this.queueOperation(applied, false, send)
+  }
+
+  // Function applying a modification operation to a content record
+  private modification(
+    op: string,
+    id: string,
+    record: Obj,
+    modification: Obj,
+  ): (() => void) | undefined {
+    const base = this.base(record)
+    const sameAltId = (a: Obj, b: Obj) => textOf(a) === textOf(b) &&
+      a.$['xsi:type'] === b.$['xsi:type'] && a.$.domain === b.$.domain
+    const sameOrg = (a: Obj, b: Obj) => a.$.role === b.$.role &&
+      (a.$.organizationID ?
+        a.$.organizationID === b.$.organizationID :
+        textOf(lookup(a, '/AssociatedOrg/DisplayName', 'AssociatedOrg')[0]) ===
+          textOf(lookup(b, '/AssociatedOrg/DisplayName', 'AssociatedOrg')[0]))
+    const list = (field: string, same: (a: Obj, b: Obj) => boolean,
+      add: boolean) => () => {
+      const values: Obj[] = modification[field] || []
+      const current: Obj[] = (base[field] || [])
+        .filter((value: Obj) => !values.some((v) => same(v, value)))
+      base[field] = add ? [...current, ...values] : current
+    }
+
+    switch (op) {
+    case 'ModifyBase':
+      return () => {
+        record.BaseObjectData = [{
+          ID: base.ID,
+          ...modification.BaseObjectData[0],
+          Status: base.Status,
+          Administrators: base.Administrators,
+        }]
+      }
+    case 'AddAlternateIDs':
+    case 'RemoveAlternateIDs':
+      return list('AlternateID', sameAltId, op.startsWith('Add'))
+    case 'AddAssociatedOrgs':
+    case 'RemoveAssociatedOrgs':
+      return list('AssociatedOrg', sameOrg, op.startsWith('Add'))
+    case 'Promote':
+      return () => undefined
+    case 'Alias':
+      return () => {
+        base.Status = ['alias']
+        this.aliases.set(id, textOf(modification.AliasTarget[0]))
+      }
+    default:
+      return undefined
+    }
+  }
+
+  private graph(
+    operation: Obj,
+    send: (obj: Obj) => void,
+    status: (st: Obj, details: string) => void,
+  ) {
+    const [op] = Object.keys(operation || {})
+    const id = op && textOf(operation[op].ID)
+    if (!id || !this.content.has(id)) {
+      return status(statuses.notFound, `ID not found: ${id}`)
+    }
+
+    let ids: string[]
+    switch (op) {
+    case 'GetParent':
+      ids = this.ancestorsOf(id).slice(0, 1)
+      break
+    case 'GetChildren':
+    case 'GetDependents':
+      ids = this.childrenOf(id)
+      break
+    case 'FindAncestors':
+    case 'GetSeriesAncestry':
+      ids = this.ancestorsOf(id)
+      break
+    case 'GetRemotestAncestor':
+      ids = this.ancestorsOf(id).slice(-1)
+      break
+    case 'FindDescendants':
+      ids = this.descendantsOf(id)
+      break
+    case 'GetLeafDescendants':
+      ids = this.descendantsOf(id)
+        .filter((d) => this.childrenOf(d).length === 0)
+      break
+    case 'GetLightweightRelationships': {
+      const relationships = [id, ...this.childrenOf(id)]
+        .filter((source) => this.parentOf(source))
+        .map((source) => ({
+          Type: [this.relationshipOf(source)],
+          Source: [source],
+          Target: [this.parentOf(source)],
+        }))
+      return send({ Response: {
+        Status: { Code: '0', Type: 'success' },
+        LightweightRelationships: { ID: [id], Relationship: relationships },
+      } })
+    }
+    default:
+      return status(statuses.invalidRequest, `Invalid operation: ${op}`)
+    }
+
+    send({ Response: {
+      Status: { Code: '0', Type: 'success' },
+      SimpleMetadata: ids.map((i) => this.simple(this.content.get(i)!)),
+    } })
+  }
+
+  // Parse the query of a query operation, or send an error status
+  private parseQueryOperation(
+    operation: Obj,
+    status: (st: Obj, details: string) => void,
+  ): { query: Obj, expr: QueryExpression } | undefined {
+    const query = operation && operation.Query
+    if (!query || typeof query.Expression !== 'string') {
+      status(statuses.invalidRequest, 'Missing query expression')
+      return undefined
+    }
+    try {
+      return { query, expr: parseQuery(query.Expression) }
+    } catch (e) {
+      status(statuses.invalidRequest, (e as Error).message)
+      return undefined
+    }
+  }
+
+  private page(query: Obj, ids: string[]) {
+    const pageNumber = Number(query.PageNumber) || 1
+    const pageSize = Number(query.PageSize) || 25
+    return ids.slice((pageNumber - 1) * pageSize, pageNumber * pageSize)
+  }
+
+  private query(
+    operation: Obj,
+    idOnly: boolean,
+    send: (obj: Obj) => void,
+    status: (st: Obj, details: string) => void,
+  ) {
+    const parsed = this.parseQueryOperation(operation, status)
+    if (!parsed) {
+      return
+    }
+    const { query, expr } = parsed
+
+    const root = query.ID ? textOf(query.ID) : undefined
+    const candidates = root ?
+      this.descendantsOf(root) :
+      Array.from(this.content.keys())
+    const ids = candidates
+      .filter((id) => evaluate(expr, this.content.get(id)!))
+      .sort()
+    const page = this.page(query, ids)
+
+    send({ Response: {
+      Status: { Code: '0', Type: 'success' },
+      QueryResults: {
+        TotalMatches: String(ids.length),
+        ...(idOnly ?
+          { ID: page } :
+          { SimpleMetadata: page.map((id) =>
+            this.simple(this.content.get(id)!)) }),
+      },
+    } })
+  }
+
+  private queryDirectory(
+    kind: string,
+    operation: Obj,
+    send: (obj: Obj) => void,
+    status: (st: Obj, details: string) => void,
+  ) {
+    const parsed = this.parseQueryOperation(operation, status)
+    if (!parsed) {
+      return
+    }
+    const records = kind === 'party' ? this.parties : this.services
+    const root = kind === 'party' ? 'Party' : 'Service'
+    const ids = Array.from(records.keys())
+      .filter((id) => evaluate(parsed.expr, records.get(id)!, root))
+      .sort()
+
+    send({ Response: {
+      Status: { Code: '0', Type: 'success' },
+      QueryResults: {
+        TotalMatches: String(ids.length),
+        [root]: this.page(parsed.query, ids).map((id) => records.get(id)),
+      },
+    } })
+  }
+}
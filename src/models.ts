@@ -0,0 +1,227 @@
+// Response models for EIDR registry records, as returned by the
+// connector actions. Records are parsed from XML with xml2js, so:
+//
+// * Elements with attributes are objects holding the text under '_'
+//   and the attributes under '$' (see XmlText below). Elements without
+//   attributes are plain strings
+// * Repeatable elements are always arrays (see jsonArrayRules in
+//   jsonPopulateValue.ts)
+// * Sequence numbers are objects holding the text under 'value' (see
+//   jsonFormatWithValueRules in jsonPopulateValue.ts)
+//
+// Only the commonly used elements are listed. See the EIDR Data Fields
+// Reference for the full schema.
+
+export interface XmlText<A = Record<string, string>> {
+  _?: string
+  $?: A
+}
+
+export type Text<A = Record<string, string>> = string | XmlText<A>
+
+export interface ValueOf {
+  value: string
+}
+
+export type LocalizedText = Text<{ lang?: string, titleClass?: string }>
+
+export type AlternateID = Text<{
+  'xsi:type'?: string,
+  type?: string,
+  domain?: string,
+  relation?: string,
+}>
+
+export interface AssociatedOrg {
+  $?: { organizationID?: string, role?: string, idType?: string }
+  DisplayName?: Text
+  'md:DisplayName'?: Text
+  AlternateName?: Text[]
+}
+
+export interface Credit {
+  DisplayName?: Text
+  SortName?: Text
+  'md:DisplayName'?: Text
+  'md:SortName'?: Text
+}
+
+export interface Credits {
+  Actor?: Credit[]
+  Director?: Credit[]
+}
+
+export interface Administrators {
+  Registrant?: string
+  [role: string]: any
+}
+
+export interface BaseObjectData {
+  ID: string
+  StructuralType?: string
+  Mode?: string
+  ReferentType?: string
+  ResourceName: LocalizedText
+  AlternateResourceName?: LocalizedText[]
+  OriginalLanguage?: Text[]
+  VersionLanguage?: Text[]
+  AssociatedOrg?: AssociatedOrg[]
+  ReleaseDate?: string
+  CountryOfOrigin?: string[]
+  Status?: string
+  ApproximateLength?: string
+  AlternateID?: AlternateID[]
+  Administrators?: Administrators
+  Credits?: Credits
+  Description?: Text
+}
+
+export interface SequenceInfo {
+  DistributionNumber?: ValueOf
+  'md:DistributionNumber'?: ValueOf
+  HouseSequence?: ValueOf
+  'md:HouseSequence'?: ValueOf
+}
+
+export interface ParentInfo {
+  Parent?: string
+}
+
+export interface SeriesInfo {
+  SeriesClass?: string
+  EndDate?: string
+}
+
+export interface SeasonInfo extends ParentInfo {
+  SequenceNumber?: string
+  SeasonClass?: string
+}
+
+export interface EpisodeInfo extends ParentInfo {
+  SequenceInfo?: SequenceInfo
+  EpisodeClass?: string
+}
+
+export interface EditInfo extends ParentInfo {
+  EditUse?: string
+  EditClass?: string[]
+  EditDetails?: string[]
+}
+
+export interface ClipInfo extends ParentInfo {
+  ClipClass?: string
+}
+
+export interface ManifestationInfo extends ParentInfo {
+  ManifestationClass?: string
+}
+
+export interface CompilationInfo {
+  CompilationClass?: ValueOf
+  'md:CompilationClass'?: ValueOf
+}
+
+export interface ExtraObjectMetadata {
+  SeriesInfo?: SeriesInfo
+  SeasonInfo?: SeasonInfo
+  EpisodeInfo?: EpisodeInfo
+  EditInfo?: EditInfo
+  ClipInfo?: ClipInfo
+  ManifestationInfo?: ManifestationInfo
+  CompilationInfo?: CompilationInfo
+}
+
+export interface FullMetadata extends BaseObjectData {
+  ExtraObjectMetadata?: ExtraObjectMetadata
+}
+
+export interface SimpleMetadata {
+  ID: string
+  StructuralType?: string
+  Mode?: string
+  ReferentType?: string
+  ResourceName: LocalizedText
+  OriginalLanguage?: Text[]
+  AssociatedOrg?: AssociatedOrg[]
+  ReleaseDate?: string
+  CountryOfOrigin?: string[]
+  Status?: string
+  ApproximateLength?: string
+  AlternateID?: AlternateID[]
+  Credits?: Credits
+}
+
+export interface Provenance {
+  Administrators?: Administrators
+  CreatedBy?: string
+  CreationDate?: string
+  LastModifiedBy?: string
+  LastModificationDate?: string
+}
+
+export interface DOIKernel {
+  referentDoiName?: string
+  primaryReferentType?: string
+  registrationAgencyDoiName?: string
+  issueDate?: string
+  issueNumber?: string
+  referentCreation?: Record<string, any>
+  [element: string]: any
+}
+
+export interface AlternateIDs {
+  ID: string
+  AlternateID: AlternateID[]
+}
+
+export interface LinkedAlternateIDs {
+  ID: string
+  LinkedAlternateID: AlternateID[]
+}
+
+export interface PartyName {
+  DisplayName?: Text
+  'md:DisplayName'?: Text
+  SortName?: Text
+  AlternateName?: Text[]
+}
+
+export interface Party {
+  ID: string
+  PartyName?: PartyName
+  Contact?: Record<string, any>
+  Active?: string
+}
+
+export interface Service {
+  ID: string
+  DisplayName?: Text
+  Description?: Text
+  ParentParty?: string
+  Contact?: Record<string, any>
+  Active?: string
+}
+
+export type ContentResolutionType =
+  'AlternateIDs' |
+  'DOIKernel' |
+  'Full' |
+  'LinkedAlternateIDs' |
+  'Provenance' |
+  'SelfDefined' |
+  'Simple'
+
+export type ResolveResult =
+  FullMetadata |
+  SimpleMetadata |
+  Provenance |
+  DOIKernel |
+  AlternateIDs |
+  LinkedAlternateIDs |
+  Party |
+  Service
+
+export interface QueryResult<T> {
+  totalMatches: number
+  results: T[]
+}
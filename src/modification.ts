@@ -0,0 +1,99 @@
+import { normalizeId } from './validate'
+import {
+  AlternateIDValue,
+  AssociatedOrgValue,
+  BaseObjectDataValue,
+  escapeXml,
+  renderAlternateID,
+  renderAssociatedOrg,
+  renderBaseObjectData,
+  xmlNamespaces,
+} from './registration'
+
+// Render EIDR modification requests for existing records. These
+// operations change a record in place and are wrapped by the
+// connector's operation request:
+//
+//   ModifyBase                                 replace base object data
+//   AddAlternateIDs, RemoveAlternateIDs        maintain alternate IDs
+//   AddAssociatedOrgs, RemoveAssociatedOrgs    maintain associated orgs
+//   Promote                                    promote a record
+//   Alias                                      alias a record to another
+
+export type ListModification = 'Add' | 'Remove'
+
+// Canonical form of a content ID, in any form accepted by resolve
+export function canonicalContentId(id: string): string {
+  const normalized = normalizeId(id)
+  if (!normalized.valid || !normalized.id.startsWith('10.5240')) {
+    throw new Error(`Invalid content ID: ${id}`)
+  }
+  return normalized.id
+}
+
+function contentId(id: string, tag = 'ID') {
+  return `<${tag}>${escapeXml(canonicalContentId(id))}</${tag}>`
+}
+
+function listOperation(op: ListModification, list: string) {
+  if (op !== 'Add' && op !== 'Remove') {
+    throw new Error(`Invalid list modification: ${op}`)
+  }
+  return `${op}${list}`
+}
+
+function nonEmpty<T>(values: T[], name: string) {
+  if (!Array.isArray(values) || values.length === 0) {
+    throw new Error(`Missing ${name}`)
+  }
+  return values
+}
+
+function modification(op: string, body: string) {
+  return `<${op} ${xmlNamespaces}>${body}</${op}>`
+}
+
+export function renderModifyBase(
+  id: string,
+  base: BaseObjectDataValue,
+): string {
+  return modification('ModifyBase', contentId(id) + renderBaseObjectData(base))
+}
+
+export function renderAlternateIDs(
+  op: ListModification,
+  id: string,
+  altids: AlternateIDValue[],
+): string {
+  return modification(
+    listOperation(op, 'AlternateIDs'),
+    contentId(id) +
+      nonEmpty(altids, 'alternate IDs').map(renderAlternateID).join(''),
+  )
+}
+
+export function renderAssociatedOrgs(
+  op: ListModification,
+  id: string,
+  orgs: AssociatedOrgValue[],
+): string {
+  return modification(
+    listOperation(op, 'AssociatedOrgs'),
+    contentId(id) +
+      nonEmpty(orgs, 'associated orgs').map(renderAssociatedOrg).join(''),
+  )
+}
+
+export function renderPromote(id: string): string {
+  return modification('Promote', contentId(id))
+}
+
+export function renderAlias(id: string, target: string): string {
+  if (canonicalContentId(id) === canonicalContentId(target)) {
+    throw new Error(`Cannot alias a record to itself: ${id}`)
+  }
+  return modification(
+    'Alias',
+    contentId(id) + contentId(target, 'AliasTarget'),
+  )
+}
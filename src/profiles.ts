@@ -0,0 +1,166 @@
+import fs from 'fs'
+
+// Named credential profiles, e.g. one per party account or environment.
+// Profiles are passed to the connector in its profiles option, or loaded
+// from a JSON file:
+//
+//   {
+//     "profiles": {
+//       "studio-a": { "userId": "...", "partyId": "...", "password": "..." },
+//       "sandbox": { "userId": "...", "partyId": "...", "shadow": "...",
+//                    "environment": "sandbox" }
+//     }
+//   }
+//
+// or from environment variables:
+//
+//   EIDR_USER_ID, EIDR_PARTY_ID, ...                profile "default"
+//   EIDR_PROFILE_STUDIO_A_USER_ID, ...              profile "studio-a"
+//
+// with the fields USER_ID, PARTY_ID, PASSWORD, SHADOW, ENVIRONMENT,
+// DOMAIN and ENDPOINT. Profile names are lower cased, with underscores
+// replaced by hyphens.
+
+export type EIDREnvironment = 'production' | 'sandbox'
+
+// Registry base URL of each environment
+export const environments: Record<EIDREnvironment, string> = {
+  production: 'https://resolve.eidr.org/EIDR/',
+  sandbox: 'https://sandbox1.eidr.org/EIDR/',
+}
+
+export interface CredentialProfile {
+  userId?: string
+  partyId?: string
+  password?: string
+  shadow?: string
+  // Environment preset. Ignored if endpoint is set
+  environment?: EIDREnvironment
+  domain?: string
+  endpoint?: string
+}
+
+export type CredentialProfiles = Record<string, CredentialProfile>
+
+const envFields: Record<string, keyof CredentialProfile> = {
+  USER_ID: 'userId',
+  PARTY_ID: 'partyId',
+  PASSWORD: 'password',
+  SHADOW: 'shadow',
+  ENVIRONMENT: 'environment',
+  DOMAIN: 'domain',
+  ENDPOINT: 'endpoint',
+}
+
+const profileFields = Object.keys(envFields).map((key) => envFields[key])
+
+// Registry base URL of an environment
+//
+// @param environment - production or sandbox
+//
+// @return base URL, ending with a slash
+export function environmentEndpoint(environment: string): string {
+  if (!(environment in environments)) {
+    throw new Error(`Invalid environment: ${environment}`)
+  }
+  return environments[environment as EIDREnvironment]
+}
+
+function validateProfile(name: string, profile: unknown): CredentialProfile {
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile)) {
+    throw new Error(`Invalid profile: ${name}`)
+  }
+  const obj = profile as Record<string, unknown>
+  for (const key of Object.keys(obj)) {
+    if (profileFields.indexOf(key as keyof CredentialProfile) === -1) {
+      throw new Error(`Invalid profile field: ${name}.${key}`)
+    }
+    if (typeof obj[key] !== 'string') {
+      throw new Error(`Invalid profile value: ${name}.${key}`)
+    }
+  }
+  if (obj.environment !== undefined) {
+    environmentEndpoint(obj.environment as string)
+  }
+  return obj as CredentialProfile
+}
+
+// Load profiles from environment variables
+//
+// @param env - environment variables. Default is process.env
+// @param prefix - variable name prefix. Default is EIDR
+//
+// @return profiles by name
+export function profilesFromEnv(
+  env: Record<string, string | undefined> = process.env,
+  prefix = 'EIDR',
+): CredentialProfiles {
+  const fields = Object.keys(envFields).join('|')
+  const pattern =
+    new RegExp(`^${prefix}_(?:PROFILE_([A-Z0-9_]+?)_)?(${fields})$`)
+  const profiles: Record<string, Record<string, string>> = {}
+  for (const key of Object.keys(env).sort()) {
+    const match = pattern.exec(key)
+    const value = env[key]
+    if (match && value !== undefined && value.length > 0) {
+      const name = match[1] ?
+        match[1].toLowerCase().replace(/_/g, '-') :
+        'default'
+      profiles[name] = { ...profiles[name], [envFields[match[2]]]: value }
+    }
+  }
+  const result: CredentialProfiles = {}
+  Object.keys(profiles).forEach((name) =>
+    result[name] = validateProfile(name, profiles[name]))
+  return result
+}
+
+// Load profiles from a JSON file, with profiles by name under a profiles
+// property, or at the top level
+//
+// @param file - path of the file
+//
+// @return profiles by name
+export function profilesFromFile(file: string): CredentialProfiles {
+  let json: any
+  try {
+    json = JSON.parse(fs.readFileSync(file, 'utf8'))
+  } catch (e) {
+    throw new Error(`Invalid profiles file: ${file}: ${(e as Error).message}`)
+  }
+  const profiles = json && typeof json.profiles === 'object' ?
+    json.profiles :
+    json
+  if (!profiles || typeof profiles !== 'object' || Array.isArray(profiles)) {
+    throw new Error(`Invalid profiles file: ${file}`)
+  }
+  const result: CredentialProfiles = {}
+  Object.keys(profiles).forEach((name) =>
+    result[name] = validateProfile(name, profiles[name]))
+  return result
+}
+
+function escapeRegExp(str: string) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Redact secrets from a text, e.g. an error message before it is
+// logged. The shadow of Authorization headers (Eidr user:party:shadow)
+// is always redacted
+//
+// @param text - text to redact
+// @param secrets - passwords, shadows and other values to redact
+//
+// @return text with secrets replaced by [REDACTED]
+export function redactSecrets(text: string, secrets: string[] = []): string {
+  let redacted = String(text)
+    .replace(/(Eidr [^\s:]+:[^\s:]+:)[^\s"',;]+/g, '$1[REDACTED]')
+  secrets
+    .filter((secret) => typeof secret === 'string' && secret.length > 0)
+    .sort((a, b) => b.length - a.length)
+    .forEach((secret) => {
+      redacted = redacted
+        .replace(new RegExp(escapeRegExp(secret), 'g'), '[REDACTED]')
+    })
+  return redacted
+}
@@ -0,0 +1,244 @@
+import { EIDRInvalidQueryError } from './errors'
+import {
+  ExistsElement,
+  JsonQuery,
+  Length,
+  TextElement,
+  TextMatch,
+  buildJsonQuery,
+} from './jsonQuery'
+
+// Typed fluent builder for JSON queries. Builders are immutable, so
+// partial queries can be shared and extended:
+//
+//   const starWars = Q.title.contains('star wars')
+//   const query = starWars
+//     .and(Q.coo.is('US'))
+//     .releasedAfter('1977')
+//
+// Builders can be passed to the query, queryAll and simpleQuery actions,
+// and compile to the same expression as buildJsonQuery on their JSON
+// form (see toJSON below).
+
+export type QueryLike = QueryBuilder | JsonQuery
+
+export class QueryBuilder {
+  constructor(private readonly query: JsonQuery) {
+  }
+
+  public and(...queries: QueryLike[]): QueryBuilder {
+    return this.combine('and', queries)
+  }
+
+  public or(...queries: QueryLike[]): QueryBuilder {
+    return this.combine('or', queries)
+  }
+
+  public not(): QueryBuilder {
+    return new QueryBuilder({ not: this.query })
+  }
+
+  public releasedAfter(date: string): QueryBuilder {
+    return this.and({ date: { after: date } })
+  }
+
+  public releasedBefore(date: string): QueryBuilder {
+    return this.and({ date: { before: date } })
+  }
+
+  public releasedBetween(from: string, to: string): QueryBuilder {
+    return this.and({ date: { between: [from, to] } })
+  }
+
+  public longerThan(length: Length): QueryBuilder {
+    return this.and({ length: { minlength: length } })
+  }
+
+  public shorterThan(length: Length): QueryBuilder {
+    return this.and({ length: { maxlength: length } })
+  }
+
+  // JSON query, as accepted by buildJsonQuery. Also used by
+  // JSON.stringify
+  public toJSON(): JsonQuery {
+    return this.query
+  }
+
+  // EIDR query expression
+  public toString(): string {
+    return buildJsonQuery(this.query)
+  }
+
+  // Chained operations of the same type are flattened, so
+  // a.and(b).and(c) builds { and: [a, b, c] }
+  private combine(op: 'and' | 'or', queries: QueryLike[]) {
+    const own = op === 'and' ?
+      ('and' in this.query && this.query.and) :
+      ('or' in this.query && this.query.or)
+    const operands = [...(own || [this.query]), ...queries.map(toJson)]
+    return new QueryBuilder(
+      (op === 'and' ? { and: operands } : { or: operands }),
+    )
+  }
+}
+
+function toJson(query: QueryLike): JsonQuery {
+  return query instanceof QueryBuilder ? query.toJSON() : query
+}
+
+export class TextQueryBuilder<T> {
+  constructor(private readonly build: (match: TextMatch) => T) {
+  }
+
+  // Any of the words
+  public words(words: string): T {
+    return this.build({ words })
+  }
+
+  // The phrase
+  public contains(phrase: string): T {
+    return this.build({ contains: phrase })
+  }
+
+  // Exactly the value
+  public is(value: string): T {
+    return this.build({ exact: value })
+  }
+
+  // Exactly any of the values
+  public in(values: string[]): T {
+    return this.build({ in: values })
+  }
+}
+
+function textQuery(element: TextElement, match: TextMatch) {
+  const query: Partial<Record<TextElement, TextMatch>> = {}
+  query[element] = match
+  return new QueryBuilder(query as JsonQuery)
+}
+
+// Optional role of org and credit queries
+function withRole(role?: string) {
+  return role === undefined ? {} : { role }
+}
+
+// Builder for text elements with a single path, which also support
+// EXISTS queries
+export class ElementQueryBuilder extends TextQueryBuilder<QueryBuilder> {
+  constructor(private readonly element: TextElement & ExistsElement) {
+    super((match) => textQuery(element, match))
+  }
+
+  public exists(): QueryBuilder {
+    return new QueryBuilder({ exists: this.element })
+  }
+}
+
+export class OrgQueryBuilder extends TextQueryBuilder<QueryBuilder> {
+  constructor(private readonly role?: string) {
+    super((match) =>
+      new QueryBuilder({ org: { ...withRole(role), ...match } }))
+  }
+
+  // Organization with the given ID
+  public id(id: string): QueryBuilder {
+    return new QueryBuilder({ org: { ...withRole(this.role), id } })
+  }
+
+  // Any organization with the role
+  public exists(): QueryBuilder {
+    if (this.role === undefined) {
+      throw new EIDRInvalidQueryError('Org EXISTS query requires a role')
+    }
+    return new QueryBuilder({ org: { role: this.role } })
+  }
+}
+
+export class PathQueryBuilder extends TextQueryBuilder<QueryBuilder> {
+  constructor(private readonly path: string) {
+    super((match) => new QueryBuilder({ path: { path, ...match } }))
+  }
+
+  public min(value: string | number): QueryBuilder {
+    return new QueryBuilder({ path: { path: this.path, min: value } })
+  }
+
+  public max(value: string | number): QueryBuilder {
+    return new QueryBuilder({ path: { path: this.path, max: value } })
+  }
+
+  public between(min: string | number, max: string | number): QueryBuilder {
+    return new QueryBuilder({
+      path: { path: this.path, between: [min, max] },
+    })
+  }
+
+  public exists(): QueryBuilder {
+    return new QueryBuilder({ path: { path: this.path, exists: true } })
+  }
+}
+
+function singleElement(name: TextElement & ExistsElement) {
+  return new ElementQueryBuilder(name)
+}
+
+function multiElement(name: TextElement) {
+  return new TextQueryBuilder((match) => textQuery(name, match))
+}
+
+export const Q = {
+  title: singleElement('title'),
+  alttitle: singleElement('alttitle'),
+  anytitle: multiElement('anytitle'),
+  coo: singleElement('coo'),
+  struct: singleElement('struct'),
+  reftype: singleElement('reftype'),
+  status: singleElement('status'),
+  lang: singleElement('lang'),
+  aoname: singleElement('aoname'),
+  aoaltname: singleElement('aoaltname'),
+  aoanyname: multiElement('aoanyname'),
+  aoid: singleElement('aoid'),
+  actor: multiElement('actor'),
+  director: multiElement('director'),
+  contributor: multiElement('contributor'),
+  altid: singleElement('altid'),
+  altidtype: singleElement('altidtype'),
+  altiddomain: singleElement('altiddomain'),
+
+  id: (...ids: string[]) => new QueryBuilder(ids.length === 1 ?
+    { id: { exact: ids[0] } } :
+    { id: { words: ids.join(' ') } }),
+
+  releasedOn: (date: string) => new QueryBuilder({ date: { date } }),
+  releasedAfter: (date: string) => new QueryBuilder({ date: { after: date } }),
+  releasedBefore: (date: string) =>
+    new QueryBuilder({ date: { before: date } }),
+  releasedBetween: (from: string, to: string) =>
+    new QueryBuilder({ date: { between: [from, to] } }),
+  hasReleaseDate: () => new QueryBuilder({ exists: 'date' }),
+
+  length: (length: Length) => new QueryBuilder({ length: { length } }),
+  longerThan: (length: Length) =>
+    new QueryBuilder({ length: { minlength: length } }),
+  shorterThan: (length: Length) =>
+    new QueryBuilder({ length: { maxlength: length } }),
+  lengthBetween: (min: Length, max: Length) =>
+    new QueryBuilder({ length: { between: [min, max] } }),
+  hasLength: () => new QueryBuilder({ exists: 'length' }),
+
+  org: (role?: string) => new OrgQueryBuilder(role),
+  credit: (role?: string) =>
+    new TextQueryBuilder((match) =>
+      new QueryBuilder({ credit: { ...withRole(role), ...match } })),
+  path: (path: string) => new PathQueryBuilder(path),
+
+  isRoot: (root = true) => new QueryBuilder({ isroot: root }),
+  parent: (id: string) => new QueryBuilder({ parent: id }),
+
+  and: (...queries: QueryLike[]) =>
+    new QueryBuilder({ and: queries.map(toJson) }),
+  or: (...queries: QueryLike[]) =>
+    new QueryBuilder({ or: queries.map(toJson) }),
+  not: (query: QueryLike) => new QueryBuilder({ not: toJson(query) }),
+}
@@ -0,0 +1,510 @@
+import {
+  JsonQuery,
+  creditRoles,
+  parentInfoElements,
+  quote,
+  textElements,
+} from './jsonQuery'
+
+// Parser for EIDR query expressions. The parser turns an expression
+// string into an abstract syntax tree, which can be formatted back into
+// an expression string or, where possible, converted into the JSON query
+// form accepted by buildJsonQuery. The supported syntax is:
+//
+//   (path word...)          path contains all words
+//   (path "phrase")         path contains the phrase
+//   (path IS "value")       path equals value
+//   (path <= value)         path is less than or equal to value
+//   (path >= value)         path is greater than or equal to value
+//   (path EXISTS)           path exists
+//   (expr AND expr...)      all expressions match
+//   (expr OR expr...)       any expression matches
+//   (NOT expr)              expression does not match
+//
+// Paths start with a slash, e.g. /FullMetadata/BaseObjectData/ResourceName,
+// and may end with an attribute, e.g. /FullMetadata/BaseObjectData/
+// AlternateID@type. Keywords are case insensitive. Double quotes and
+// backslashes inside phrases are escaped with a backslash.
+
+type Obj = Record<string, any>
+
+export interface QueryToken {
+  type: '(' | ')' | 'word' | 'phrase'
+  value: string
+  position: number
+}
+
+export interface QueryTerm {
+  phrase: boolean
+  value: string
+}
+
+export type QueryOperator = 'contains' | 'is' | 'lte' | 'gte' | 'exists'
+
+export interface QueryClause {
+  type: 'clause'
+  path: string
+  op: QueryOperator
+  terms: QueryTerm[]
+}
+
+export interface QueryNary {
+  type: 'and' | 'or'
+  operands: QueryExpression[]
+}
+
+export interface QueryNot {
+  type: 'not'
+  operand: QueryExpression
+}
+
+export type QueryExpression = QueryClause | QueryNary | QueryNot
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} at position ${position}`)
+    this.name = 'QuerySyntaxError'
+  }
+}
+
+const operators: Record<string, QueryOperator> = {
+  IS: 'is',
+  '<=': 'lte',
+  '>=': 'gte',
+}
+
+const basePath = '/FullMetadata/BaseObjectData/'
+const extraPath = '/FullMetadata/ExtraObjectMetadata/'
+
+// Split an expression into tokens. Every token holds its offset in the
+// expression, for error reporting
+//
+// @param expr EIDR query expression
+//
+// @return array of tokens
+//
+export function tokenizeQuery(expr: string): QueryToken[] {
+  if (typeof expr !== 'string') {
+    throw new Error(`Query expression must be a string: ${expr}`)
+  }
+  const tokens: QueryToken[] = []
+  let i = 0
+  while (i < expr.length) {
+    const ch = expr[i]
+    if (/\s/.test(ch)) {
+      i++
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch, value: ch, position: i })
+      i++
+    } else if (ch === '"') {
+      const position = i
+      let value = ''
+      i++
+      while (i < expr.length && expr[i] !== '"') {
+        if (expr[i] === '\\' && i + 1 < expr.length) {
+          i++
+        }
+        value += expr[i]
+        i++
+      }
+      if (expr.length <= i) {
+        throw new QuerySyntaxError('Unterminated phrase', position)
+      }
+      tokens.push({ type: 'phrase', value, position })
+      i++
+    } else {
+      const match = /^[^\s()"]+/.exec(expr.substring(i))!
+      tokens.push({ type: 'word', value: match[0], position: i })
+      i += match[0].length
+    }
+  }
+  return tokens
+}
+
+// Parse an EIDR query expression. AND binds tighter than OR when both
+// appear in the same parentheses
+//
+// @param expr EIDR query expression
+//
+// @return expression syntax tree
+//
+// @throws QuerySyntaxError with the position of the error
+//
+export function parseQuery(expr: string): QueryExpression {
+  const tokens = tokenizeQuery(expr)
+  let pos = 0
+
+  const peek = () => tokens[pos]
+  const position = () => pos < tokens.length ? tokens[pos].position :
+    expr.length
+  const found = () => pos < tokens.length ? `"${tokens[pos].value}"` :
+    'end of expression'
+  const isKeyword = (keyword: string) => pos < tokens.length &&
+    tokens[pos].type === 'word' &&
+    tokens[pos].value.toUpperCase() === keyword
+  const expect = (type: '(' | ')') => {
+    if (!peek() || peek().type !== type) {
+      throw new QuerySyntaxError(
+        `Expected "${type}" but found ${found()}`,
+        position(),
+      )
+    }
+    pos++
+  }
+
+  function clause(): QueryClause {
+    const path = tokens[pos++].value
+    if (isKeyword('EXISTS')) {
+      pos++
+      return { type: 'clause', path, op: 'exists', terms: [] }
+    }
+    let op: QueryOperator = 'contains'
+    if (pos < tokens.length && tokens[pos].type === 'word' &&
+      tokens[pos].value.toUpperCase() in operators) {
+      op = operators[tokens[pos++].value.toUpperCase()]
+    }
+    const terms: QueryTerm[] = []
+    while (pos < tokens.length &&
+      (tokens[pos].type === 'word' || tokens[pos].type === 'phrase')) {
+      const token = tokens[pos++]
+      terms.push({ phrase: token.type === 'phrase', value: token.value })
+    }
+    if (terms.length === 0) {
+      throw new QuerySyntaxError(
+        `Missing value for ${path}`,
+        position(),
+      )
+    }
+    return { type: 'clause', path, op, terms }
+  }
+
+  function unary(): QueryExpression {
+    if (isKeyword('NOT')) {
+      pos++
+      return { type: 'not', operand: unary() }
+    }
+    expect('(')
+    const next = peek()
+    const node = next && next.type === 'word' && next.value.startsWith('/') ?
+      clause() :
+      or()
+    expect(')')
+    return node
+  }
+
+  function nary(
+    type: 'and' | 'or',
+    operand: () => QueryExpression,
+  ): QueryExpression {
+    const operands = [operand()]
+    while (isKeyword(type.toUpperCase())) {
+      pos++
+      operands.push(operand())
+    }
+    return operands.length === 1 ? operands[0] : { type, operands }
+  }
+
+  function and(): QueryExpression {
+    return nary('and', unary)
+  }
+
+  function or(): QueryExpression {
+    return nary('or', and)
+  }
+
+  if (tokens.length === 0) {
+    throw new QuerySyntaxError('Empty query expression', 0)
+  }
+  const root = or()
+  if (pos < tokens.length) {
+    throw new QuerySyntaxError(`Unexpected ${found()}`, position())
+  }
+  return root
+}
+
+function formatTerm(term: QueryTerm) {
+  return term.phrase ? quote(term.value) : term.value
+}
+
+// Format an expression syntax tree as an EIDR query expression, in the
+// same layout as buildJsonQuery
+//
+// @param expr expression syntax tree
+//
+// @return EIDR query expression
+//
+export function formatQuery(expr: QueryExpression): string {
+  switch (expr.type) {
+  case 'and':
+  case 'or':
+    return `(${expr.operands.map(formatQuery)
+      .join(` ${expr.type.toUpperCase()} `)})`
+  case 'not':
+    return `(NOT ${formatQuery(expr.operand)})`
+  case 'clause': {
+    if (expr.op === 'exists') {
+      return `(${expr.path} EXISTS)`
+    }
+    const op = Object.keys(operators).find((o) => operators[o] === expr.op)
+    return `(${expr.path}${op ? ` ${op}` : ''} ${
+      expr.terms.map(formatTerm).join(' ')
+    })`
+  }
+  }
+}
+
+function samePath(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase()
+}
+
+function termsValue(clause: QueryClause) {
+  return clause.terms.map((t) => t.value).join(' ')
+}
+
+// Find the JSON query key for a single text element path, e.g. 'title'
+// for /FullMetadata/BaseObjectData/ResourceName
+function textKey(path: string) {
+  return Object.keys(textElements).find((key) =>
+    textElements[key].length === 1 &&
+    samePath(path, basePath + textElements[key][0]))
+}
+
+// Text match of a clause with a single term, e.g. { words: 'star' }
+function textMatch(clause: QueryClause): Obj | undefined {
+  const value = termsValue(clause)
+  switch (clause.op) {
+  case 'is':
+    return { exact: value }
+  case 'contains':
+    return { [clause.terms[0].phrase ? 'contains' : 'words']: value }
+  default:
+    return undefined
+  }
+}
+
+function pathToJson(clause: QueryClause): Obj {
+  const { path } = clause
+  switch (clause.op) {
+  case 'exists':
+    return { path: { path, exists: true } }
+  case 'lte':
+    return { path: { path, max: termsValue(clause) } }
+  case 'gte':
+    return { path: { path, min: termsValue(clause) } }
+  default:
+    return { path: { path, ...textMatch(clause) } }
+  }
+}
+
+const ranges: Record<string, string[]> = {
+  date: ['ReleaseDate', 'date', 'before', 'after'],
+  length: ['ApproximateLength', 'length', 'maxlength', 'minlength'],
+}
+
+function rangeKey(path: string) {
+  return Object.keys(ranges)
+    .find((key) => samePath(path, basePath + ranges[key][0]))
+}
+
+function clauseToJson(clause: QueryClause): Obj {
+  // A clause with multiple words or phrases matches all of them
+  if (clause.op === 'contains' && 1 < clause.terms.length) {
+    return {
+      and: clause.terms.map((term) => clauseToJson({
+        ...clause,
+        terms: [term],
+      })),
+    }
+  }
+  const value = termsValue(clause)
+
+  if (samePath(clause.path, `${basePath}ID`) && clause.op === 'contains') {
+    return { id: { exact: value } }
+  }
+
+  const range = rangeKey(clause.path)
+  if (range) {
+    const [, equal, lte, gte] = ranges[range]
+    switch (clause.op) {
+    case 'exists':
+      return { exists: range }
+    case 'contains':
+      return { [range]: { [equal]: value } }
+    case 'lte':
+      return { [range]: { [lte]: value } }
+    case 'gte':
+      return { [range]: { [gte]: value } }
+    }
+  }
+
+  if (samePath(clause.path, `${basePath}AssociatedOrg@role`) &&
+    clause.op === 'is') {
+    return { org: { role: value } }
+  }
+
+  const key = textKey(clause.path)
+  if (key && clause.op === 'exists') {
+    return { exists: key }
+  }
+  const match = textMatch(clause)
+  if (key && match) {
+    return { [key]: match }
+  }
+  return pathToJson(clause)
+}
+
+// Credit roles of a list of credit name paths, or undefined if any
+// path is not a credit name
+function roles(clauses: QueryClause[]) {
+  const names = clauses.map((c) => new RegExp(
+    `^${basePath}Credits/(\\w+)/(DisplayName|SortName)$`, 'i',
+  ).exec(c.path))
+  if (!names.every(Boolean)) {
+    return undefined
+  }
+  return names
+    .map((m) => m![1])
+    .filter((role, i, all) => all.indexOf(role) === i)
+}
+
+// Recognize the OR expressions generated by buildJsonQuery for text
+// matches over multiple paths or words, in lists, ID lists, parent
+// queries and non root queries
+function orToJson(operands: QueryExpression[]): Obj | undefined {
+  const clauses = operands.filter((o) => o.type === 'clause') as QueryClause[]
+  if (clauses.length !== operands.length) {
+    return undefined
+  }
+
+  const values = (path: string) => clauses
+    .filter((c) => samePath(c.path, path))
+    .map(termsValue)
+  const covers = (paths: string[]) =>
+    paths.length * values(paths[0]).length === clauses.length &&
+    paths.every((p) => values(p).join(' ') === values(paths[0]).join(' '))
+
+  if (clauses.every((c) => c.op === 'exists') &&
+    covers(parentInfoElements.map((e) => extraPath + e))) {
+    return { isroot: false }
+  }
+  if (clauses.every((c) => c.op === 'contains' && c.terms.length === 1)) {
+    const parents = parentInfoElements.map((e) => `${extraPath}${e}/Parent`)
+    if (covers(parents) && values(parents[0]).length === 1) {
+      return { parent: values(parents[0])[0] }
+    }
+    if (covers([`${basePath}ID`])) {
+      return { id: { words: values(`${basePath}ID`).join(' ') } }
+    }
+  }
+
+  const { op, path } = clauses[0]
+  const phrase = clauses[0].terms[0] && clauses[0].terms[0].phrase
+  if ((op !== 'contains' && op !== 'is') || !clauses.every((c) =>
+    c.op === op && c.terms.length === 1 && c.terms[0].phrase === phrase)) {
+    return undefined
+  }
+
+  // Text match over all paths of a JSON query element
+  const match = (paths: string[]) => {
+    if (!covers(paths)) {
+      return undefined
+    }
+    const words = values(paths[0])
+    return op === 'contains' && !phrase ? { words: words.join(' ') } :
+      words.length === 1 ? { [op === 'is' ? 'exact' : 'contains']: words[0] } :
+      op === 'is' ? { in: words } :
+      undefined
+  }
+
+  for (const key of Object.keys(textElements)) {
+    const m = match(textElements[key].map((p) => basePath + p))
+    if (m) {
+      return { [key]: m }
+    }
+  }
+
+  const credits = roles(clauses)
+  if (credits) {
+    const m = match(credits.map((r) => [
+      `${basePath}Credits/${r}/DisplayName`,
+      `${basePath}Credits/${r}/SortName`,
+    ]).flat())
+    if (m && credits.join() === creditRoles.join()) {
+      return { credit: m }
+    }
+    if (m && credits.length === 1) {
+      return { credit: { role: credits[0], ...m } }
+    }
+  }
+
+  const m = match([path])
+  return m ? { path: { path, ...m } } : undefined
+}
+
+// Recognize the AND expressions generated by buildJsonQuery for ranges
+// and role qualified org queries
+function andToJson(operands: QueryExpression[]): Obj | undefined {
+  if (operands.length !== 2) {
+    return undefined
+  }
+  const [a, b] = operands
+  if (a.type === 'clause' && b.type === 'clause' &&
+    samePath(a.path, b.path) && a.op === 'gte' && b.op === 'lte') {
+    const range = [termsValue(a), termsValue(b)]
+    const key = rangeKey(a.path)
+    return key ?
+      { [key]: { between: range } } :
+      { path: { path: a.path, between: range } }
+  }
+
+  const org = toJson(a)
+  const name = toJson(b)
+  if (org && org.org && Object.keys(org.org).length === 1 && name) {
+    if (name.aoanyname) {
+      return { org: { ...org.org, ...name.aoanyname } }
+    }
+    if (name.aoid && name.aoid.words) {
+      return { org: { ...org.org, id: name.aoid.words } }
+    }
+  }
+  return undefined
+}
+
+// Convert an expression syntax tree into the JSON query form accepted
+// by buildJsonQuery. Expressions generated by buildJsonQuery convert
+// back into equivalent JSON queries. Paths without a JSON query element
+// convert into path queries
+//
+// @param expr expression syntax tree
+//
+// @return JSON query, or undefined if the expression has no JSON query
+//         equivalent
+//
+export function toJsonQuery(expr: QueryExpression): JsonQuery | undefined {
+  return toJson(expr) as JsonQuery | undefined
+}
+
+function toJson(expr: QueryExpression): Obj | undefined {
+  switch (expr.type) {
+  case 'clause':
+    return clauseToJson(expr)
+  case 'not': {
+    const operand = toJson(expr.operand)
+    if (!operand) {
+      return undefined
+    }
+    return operand.isroot === false ? { isroot: true } : { not: operand }
+  }
+  case 'or':
+  case 'and': {
+    const json = expr.type === 'or' ?
+      orToJson(expr.operands) :
+      andToJson(expr.operands)
+    if (json) {
+      return json
+    }
+    const operands = expr.operands.map(toJsonQuery)
+    return operands.every(Boolean) ? { [expr.type]: operands } : undefined
+  }
+  }
+}
@@ -0,0 +1,298 @@
+import { normalizeId } from './validate'
+
+// Render EIDR registration requests from plain JS objects. Each
+// record kind maps to one of the registry's Create operations:
+//
+//   Basic         -> CreateBasic
+//   Series        -> CreateSeries
+//   Season        -> CreateSeason
+//   Episode       -> CreateEpisode
+//   Edit          -> CreateEdit
+//   Manifestation -> CreateManifestation
+//
+// Only the elements commonly used for registration are supported.
+// See the EIDR Data Fields Reference for the full schema.
+
+export type RegistrationKind =
+  'Basic' | 'Series' | 'Season' | 'Episode' | 'Edit' | 'Manifestation'
+
+export const registrationKinds: RegistrationKind[] = [
+  'Basic', 'Series', 'Season', 'Episode', 'Edit', 'Manifestation',
+]
+
+export interface LocalizedTitle {
+  value: string
+  lang: string
+  titleClass?: string
+}
+
+export interface AlternateIDValue {
+  value: string
+  type: string
+  domain?: string
+  relation?: string
+}
+
+export interface AssociatedOrgValue {
+  role: string
+  organizationId?: string
+  displayName?: string
+}
+
+export interface CreditsValue {
+  directors?: string[]
+  actors?: string[]
+}
+
+export interface BaseObjectDataValue {
+  structuralType: string
+  mode: string
+  referentType: string
+  resourceName: LocalizedTitle
+  alternateResourceNames?: LocalizedTitle[]
+  originalLanguages: string[]
+  associatedOrgs?: AssociatedOrgValue[]
+  releaseDate: string
+  countryOfOrigin?: string[]
+  approximateLength: string
+  alternateIds?: AlternateIDValue[]
+  registrant?: string
+  credits?: CreditsValue
+  description?: string
+}
+
+interface BaseRecord {
+  base: BaseObjectDataValue
+}
+
+export interface BasicRecord extends BaseRecord {
+  kind: 'Basic'
+}
+
+export interface SeriesRecord extends BaseRecord {
+  kind: 'Series'
+  seriesClass?: string
+  endDate?: string
+}
+
+export interface SeasonRecord extends BaseRecord {
+  kind: 'Season'
+  parent: string
+  sequenceNumber?: number
+  seasonClass?: string
+}
+
+export interface EpisodeRecord extends BaseRecord {
+  kind: 'Episode'
+  parent: string
+  distributionNumber?: string
+  houseSequence?: string
+  episodeClass?: string
+}
+
+export interface EditRecord extends BaseRecord {
+  kind: 'Edit'
+  parent: string
+  editUse?: string
+  editClass?: string[]
+  editDetails?: string[]
+}
+
+export interface ManifestationRecord extends BaseRecord {
+  kind: 'Manifestation'
+  parent: string
+  manifestationClass?: string
+}
+
+export type RegistrationRecord =
+  BasicRecord |
+  SeriesRecord |
+  SeasonRecord |
+  EpisodeRecord |
+  EditRecord |
+  ManifestationRecord
+
+export const xmlNamespaces =
+  'xmlns:md="http://www.movielabs.com/schema/md/v2.1/md" ' +
+  'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"'
+
+export function escapeXml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function attributes(attrs: Record<string, string | undefined>) {
+  return Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(value!)}"`)
+    .join('')
+}
+
+function element(
+  tag: string,
+  value?: string | number,
+  attrs: Record<string, string | undefined> = {},
+) {
+  if (value === undefined) {
+    return ''
+  }
+  return `<${tag}${attributes(attrs)}>${escapeXml(value)}</${tag}>`
+}
+
+function list<T>(values: T[] | undefined, render: (value: T) => string) {
+  return (values || []).map(render).join('')
+}
+
+export function required<T>(value: T, name: string): NonNullable<T> {
+  if (value === undefined || value === null ||
+    (typeof value === 'string' && value.trim().length === 0)) {
+    throw new Error(`Missing registration field: ${name}`)
+  }
+  return value as NonNullable<T>
+}
+
+function requiredParent(id: string) {
+  const normalized = normalizeId(required(id, 'parent'))
+  if (!normalized.valid) {
+    throw new Error(`Invalid parent ID: ${id}`)
+  }
+  return normalized.id
+}
+
+function renderTitle(tag: string, title: LocalizedTitle) {
+  required(title && title.value, `${tag} value`)
+  required(title.lang, `${tag} lang`)
+  return element(tag, title.value, {
+    lang: title.lang,
+    titleClass: title.titleClass,
+  })
+}
+
+function renderCredits(credits?: CreditsValue) {
+  if (!credits) {
+    return ''
+  }
+  const directors = list(credits.directors, (name) =>
+    `<Director>${element('md:DisplayName', name)}</Director>`)
+  const actors = list(credits.actors, (name) =>
+    `<Actor>${element('md:DisplayName', name)}</Actor>`)
+  return directors || actors ? `<Credits>${directors}${actors}</Credits>` : ''
+}
+
+export function renderAssociatedOrg(org: AssociatedOrgValue): string {
+  return `<AssociatedOrg${attributes({
+    organizationID: org.organizationId,
+    role: required(org.role, 'associatedOrgs role'),
+  })}>${element('md:DisplayName', org.displayName)}</AssociatedOrg>`
+}
+
+export function renderAlternateID(altid: AlternateIDValue): string {
+  return element('AlternateID', required(altid.value, 'alternateIds value'), {
+    'xsi:type': required(altid.type, 'alternateIds type'),
+    domain: altid.domain,
+    relation: altid.relation,
+  })
+}
+
+export function renderBaseObjectData(base: BaseObjectDataValue): string {
+  required(base, 'base')
+  required(base.originalLanguages && base.originalLanguages[0],
+    'originalLanguages')
+  return `<BaseObjectData>${[
+    element('StructuralType', required(base.structuralType, 'structuralType')),
+    element('Mode', required(base.mode, 'mode')),
+    element('ReferentType', required(base.referentType, 'referentType')),
+    renderTitle('ResourceName', base.resourceName),
+    list(base.alternateResourceNames, (title) =>
+      renderTitle('AlternateResourceName', title)),
+    list(base.originalLanguages, (lang) =>
+      element('OriginalLanguage', lang)),
+    list(base.associatedOrgs, renderAssociatedOrg),
+    element('ReleaseDate', required(base.releaseDate, 'releaseDate')),
+    list(base.countryOfOrigin, (country) =>
+      element('CountryOfOrigin', country)),
+    element('ApproximateLength',
+      required(base.approximateLength, 'approximateLength')),
+    list(base.alternateIds, renderAlternateID),
+    base.registrant ?
+      `<Administrators>${element('Registrant', base.registrant)}` +
+      '</Administrators>' :
+      '',
+    renderCredits(base.credits),
+    element('Description', base.description),
+  ].join('')}</BaseObjectData>`
+}
+
+function renderExtraObjectMetadata(record: RegistrationRecord) {
+  switch (record.kind) {
+  case 'Basic':
+    return ''
+  case 'Series':
+    return `<SeriesInfo>${
+      element('SeriesClass', record.seriesClass)
+    }${
+      element('EndDate', record.endDate)
+    }</SeriesInfo>`
+  case 'Season':
+    return `<SeasonInfo>${
+      element('Parent', requiredParent(record.parent))
+    }${
+      element('SequenceNumber', record.sequenceNumber)
+    }${
+      element('SeasonClass', record.seasonClass)
+    }</SeasonInfo>`
+  case 'Episode':
+    return `<EpisodeInfo>${
+      element('Parent', requiredParent(record.parent))
+    }<SequenceInfo>${
+      element('md:DistributionNumber', record.distributionNumber)
+    }${
+      element('md:HouseSequence', record.houseSequence)
+    }</SequenceInfo>${
+      element('EpisodeClass', record.episodeClass)
+    }</EpisodeInfo>`
+  case 'Edit':
+    return `<EditInfo>${
+      element('Parent', requiredParent(record.parent))
+    }${
+      element('EditUse', record.editUse)
+    }${
+      list(record.editClass, (cls) => element('EditClass', cls))
+    }${
+      list(record.editDetails, (details) => element('EditDetails', details))
+    }</EditInfo>`
+  case 'Manifestation':
+    return `<ManifestationInfo>${
+      element('Parent', requiredParent(record.parent))
+    }${
+      element('ManifestationClass', record.manifestationClass)
+    }</ManifestationInfo>`
+  }
+}
+
+// Render the operation element for registering a new record. The
+// result is meant to be wrapped by the connector's operation request.
+//
+// @param record record to register
+//
+// @return operation XML string
+//
+export function renderRegistration(record: RegistrationRecord): string {
+  if (!record || registrationKinds.indexOf(record.kind) === -1) {
+    throw new Error(`Invalid registration kind: ${record && record.kind}`)
+  }
+  const kind = record.kind
+  const extra = renderExtraObjectMetadata(record)
+  return `
+    <Create${kind} ${xmlNamespaces}>
+      <${kind}>
+        ${renderBaseObjectData(record.base)}
+        ${extra ? `<ExtraObjectMetadata>${extra}</ExtraObjectMetadata>` : ''}
+      </${kind}>
+    </Create${kind}>
+  `
+}
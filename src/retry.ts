@@ -0,0 +1,135 @@
+// Helpers for retrying and throttling registry requests
+
+export interface RetryOptions {
+  retries: number
+  retryDelay: number
+  maxRetryDelay: number
+}
+
+export interface RateLimitOptions {
+  requestsPerSecond: number
+  burst?: number
+}
+
+export class AbortError extends Error {
+  constructor() {
+    super('The operation was aborted')
+    this.name = 'AbortError'
+  }
+}
+
+// Exponential backoff with jitter: the delay doubles with every
+// attempt up to maxRetryDelay, and a random half of it is dropped
+// so that concurrent clients do not retry in lockstep
+export function backoffDelay(attempt: number, options: RetryOptions) {
+  const delay = Math.min(
+    options.maxRetryDelay,
+    options.retryDelay * Math.pow(2, attempt),
+  )
+  return delay / 2 + Math.random() * delay / 2
+}
+
+// Parse a Retry-After header, which holds either a number of seconds
+// or an HTTP date. Returns the delay in milliseconds, or undefined if
+// the header is missing or invalid
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined
+  }
+  if (/^\d+$/.test(header.trim())) {
+    return Number(header.trim()) * 1000
+  }
+  const date = Date.parse(header)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      return reject(new AbortError())
+    }
+    const timer = setTimeout(() => {
+      if (signal) {
+        signal.removeEventListener('abort', onAbort)
+      }
+      resolve()
+    }, ms)
+    function onAbort() {
+      clearTimeout(timer)
+      reject(new AbortError())
+    }
+
+    if (signal) {
+      signal.addEventListener('abort', onAbort)
+    }
+  })
+}
+
+// Token bucket rate limiter. Tokens are added at requestsPerSecond up
+// to burst (default requestsPerSecond). Every request takes one token,
+// waiting for it if the bucket is empty. Waiting requests reserve their
+// token up front, so they are served in order.
+export class TokenBucket {
+  private readonly rate: number
+  private readonly capacity: number
+  private tokens: number
+  private updated: number
+
+  constructor(options: RateLimitOptions) {
+    if (!(0 < options.requestsPerSecond)) {
+      throw new Error(
+        `Invalid requestsPerSecond: ${options.requestsPerSecond}`
+      )
+    }
+    this.rate = options.requestsPerSecond / 1000
+    this.capacity = Math.max(1, options.burst || options.requestsPerSecond)
+    this.tokens = this.capacity
+    this.updated = Date.now()
+  }
+
+  public async take(signal?: AbortSignal) {
+    const now = Date.now()
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.updated) * this.rate,
+    )
+    this.updated = now
+    this.tokens -= 1
+    if (this.tokens < 0) {
+      try {
+        await sleep(-this.tokens / this.rate, signal)
+      } catch (e) {
+        this.tokens += 1
+        throw e
+      }
+    }
+  }
+}
+
+// Limit the number of concurrently running tasks. The returned function
+// runs a task right away if fewer than concurrency tasks are running,
+// and queues it otherwise. Tasks must not wait for other tasks run by
+// the same limiter, or they may deadlock.
+export function limitConcurrency(concurrency: number) {
+  if (!(0 < concurrency)) {
+    throw new Error(`Invalid concurrency: ${concurrency}`)
+  }
+  let running = 0
+  const queue: Array<() => void> = []
+
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    while (concurrency <= running) {
+      await new Promise<void>((resolve) => queue.push(resolve))
+    }
+    running++
+    try {
+      return await task()
+    } finally {
+      running--
+      const next = queue.shift()
+      if (next) {
+        next()
+      }
+    }
+  }
+}
@@ -0,0 +1,353 @@
+import http from 'http'
+import type { EIDRConnector } from './index'
+import { isNotFound } from './errors'
+import { GraphTraversalTypes } from './graph'
+import { HierarchyKind, hierarchyKinds } from './hierarchy'
+import { JsonQuery, buildJsonQuery } from './jsonQuery'
+import { redactSecrets } from './profiles'
+
+// HTTP API for the resolve, query, hierarchy and graph traversal actions
+// of a connector:
+//
+//   GET  /resolve/<id>[?type=<type>]
+//   GET  /query?q=<expression or JSON query>[&<paging>]
+//   POST /query[?<paging>]                 JSON query or expression body
+//   GET  /hierarchy/<id>[?depth=<depth>&include=<kind>,...]
+//   GET  /graph/<id>/<traversal>
+//
+// where <paging> is pageNumber, pageSize, root and idOnly. IDs may be URL
+// encoded. Requests use the credentials in their Authorization header
+// (Eidr <userId>:<partyId>:<shadow>), or the credentials of the
+// connector. Responses are JSON. Errors are returned as
+// { status, error, details } with the status of the error, and query
+// paging is returned in the X-Total-Count, X-Page-Number, X-Page-Size
+// and Link headers.
+//
+// Usage with a Reshuffle HTTP connector, an express app or a plain node
+// HTTP server:
+//
+//   const router = new EIDRRouter(eidr, { prefix: '/eidr' })
+//   http.on({ method: 'GET', path: '/eidr/*' },
+//     (event) => router.handle(event.req, event.res))
+//   app.use('/eidr', router.handler())
+//   require('http').createServer(router.handler()).listen(8000)
+//
+// Routes are matched against the full request path (originalUrl for
+// express), so the prefix must include the mount path.
+
+export interface RouterOptions {
+  // Path prefix of all routes, e.g. /eidr. Default is no prefix
+  prefix?: string
+}
+
+export interface RouteRequest {
+  method: string
+  // Request path, including the prefix
+  path: string
+  query?: Record<string, string | undefined>
+  // Authorization header
+  authorization?: string
+  // Parsed JSON body, or text body
+  body?: unknown
+}
+
+export interface RouteResponse {
+  status: number
+  headers: Record<string, string>
+  body: unknown
+}
+
+// Node or express request
+type HttpRequest = http.IncomingMessage & {
+  body?: unknown,
+  originalUrl?: string,
+}
+type NextFunction = (err?: unknown) => void
+
+class RouteError extends Error {
+  constructor(public status: number, message: string, public details: string) {
+    super(message)
+  }
+}
+
+function json(
+  body: unknown,
+  headers: Record<string, string> = {},
+): RouteResponse {
+  return {
+    status: 200,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+  }
+}
+
+function errorResponse(e: unknown): RouteResponse {
+  const err = e as Partial<RouteError>
+  const status =
+    isNotFound(e) ? 404 :
+    typeof err.status === 'number' && 400 <= err.status && err.status < 600 ?
+      err.status :
+      500
+  // Connector errors are redacted, but other errors may still include
+  // Authorization headers
+  const error = redactSecrets(String(err.message || e))
+  return {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+    body: {
+      status,
+      error,
+      details: err.details ? redactSecrets(err.details) : error,
+    },
+  }
+}
+
+// Reply with a 500 error to a request that failed outside of its route,
+// e.g. while reading its body
+function sendError(res: http.ServerResponse, e: unknown) {
+  if (res.headersSent) {
+    res.end()
+    return
+  }
+  const error = redactSecrets(String((e && (e as Error).message) || e))
+  res.writeHead(500, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify({ status: 500, error, details: error }))
+}
+
+function positiveInteger(query: Record<string, string | undefined>,
+  name: string,
+): number | undefined {
+  const value = query[name]
+  if (value === undefined || value === '') {
+    return undefined
+  }
+  const num = Number(value)
+  if (!Number.isInteger(num) || num < 1) {
+    throw new RouteError(400, `Invalid ${name}`, `Invalid ${name}: ${value}`)
+  }
+  return num
+}
+
+// Query expression from a q parameter or a request body. Strings that
+// start with { are JSON queries
+function queryExpression(input: unknown): string {
+  let query = input
+  if (typeof query === 'string' && query.trim().startsWith('{')) {
+    try {
+      query = JSON.parse(query)
+    } catch (e) {
+      throw new RouteError(400, 'Invalid query', (e as Error).message)
+    }
+  }
+  if (typeof query === 'string' && query.trim().length > 0) {
+    return query
+  }
+  if (query && typeof query === 'object') {
+    try {
+      return buildJsonQuery(query as JsonQuery)
+    } catch (e) {
+      throw new RouteError(400, 'Invalid query', (e as Error).message)
+    }
+  }
+  throw new RouteError(400, 'Missing query', 'Query must be provided')
+}
+
+async function readBody(req: HttpRequest): Promise<unknown> {
+  if (req.body !== undefined) {
+    return req.body
+  }
+  const text = await new Promise<string>((resolve, reject) => {
+    let data = ''
+    req.on('data', (chunk) => data += chunk)
+    req.on('end', () => resolve(data))
+    req.on('error', reject)
+  })
+  return text.length === 0 ? undefined : text
+}
+
+export class EIDRRouter {
+  private prefix: string
+
+  constructor(private eidr: EIDRConnector, options: RouterOptions = {}) {
+    this.prefix = (options.prefix || '').replace(/\/+$/, '')
+  }
+
+  // Route a request
+  //
+  // @param request - method, path, query, authorization and body
+  //
+  // @return response status, headers and body. Requests for unknown
+  //         paths return status 404
+  public async route(request: RouteRequest): Promise<RouteResponse> {
+    try {
+      return await this.dispatch(request)
+    } catch (e) {
+      return errorResponse(e)
+    }
+  }
+
+  // Handle a node or express request. Requests for unknown paths are
+  // passed to next if provided
+  public async handle(
+    req: HttpRequest,
+    res: http.ServerResponse,
+    next?: NextFunction,
+  ): Promise<void> {
+    const url = new URL(req.originalUrl || req.url || '/', 'http://localhost')
+    if (next && !this.match(url.pathname)) {
+      return next()
+    }
+    const query: Record<string, string> = {}
+    url.searchParams.forEach((value, key) => query[key] = value)
+    const method = (req.method || 'GET').toUpperCase()
+    const header = req.headers.authorization
+    const response = await this.route({
+      method,
+      path: url.pathname,
+      query,
+      authorization: Array.isArray(header) ? header[0] : header,
+      body: method === 'POST' ? await readBody(req) : undefined,
+    })
+    res.writeHead(response.status, response.headers)
+    res.end(JSON.stringify(response.body))
+  }
+
+  // Request handler for http.createServer, express and other frameworks
+  // with (req, res, next) handlers. Unexpected errors are passed to next
+  // if provided, and answered with a 500 JSON error otherwise
+  public handler() {
+    return (req: HttpRequest, res: http.ServerResponse, next?: NextFunction) =>
+      this.handle(req, res, next).catch((e) => next ?
+        next(e) :
+        sendError(res, e))
+  }
+
+  private match(path: string): string[] | undefined {
+    if (!path.startsWith(`${this.prefix}/`)) {
+      return undefined
+    }
+    const route = path.substring(this.prefix.length)
+    const match =
+      /^\/(resolve|hierarchy)\/(.+)$/.exec(route) ||
+      /^\/(graph)\/(.+)\/([A-Za-z]+)$/.exec(route) ||
+      /^\/(query)\/?$/.exec(route)
+    return match ? match.slice(1) : undefined
+  }
+
+  private async dispatch(request: RouteRequest): Promise<RouteResponse> {
+    const match = this.match(request.path)
+    if (!match) {
+      throw new RouteError(404, 'Not found', `Not found: ${request.path}`)
+    }
+    const [route, id, traversal] = match.map((segment) => {
+      try {
+        return segment && decodeURIComponent(segment)
+      } catch {
+        throw new RouteError(400, 'Invalid path', `Invalid path: ${segment}`)
+      }
+    })
+    const method = request.method.toUpperCase()
+    if (method !== 'GET' && !(method === 'POST' && route === 'query')) {
+      throw new RouteError(
+        405,
+        'Method not allowed',
+        `Method not allowed: ${method} ${request.path}`,
+      )
+    }
+    const query = request.query || {}
+    const credentials = request.authorization || undefined
+    // Other strings would select credential profiles of the connector
+    if (credentials && !credentials.startsWith('Eidr ')) {
+      throw new RouteError(
+        401,
+        'Invalid authorization',
+        'Authorization must be Eidr <userId>:<partyId>:<shadow>',
+      )
+    }
+
+    switch (route) {
+    case 'resolve':
+      return json(await this.eidr.resolve(id, query.type || 'Full',
+        credentials))
+    case 'hierarchy':
+      return json(await this.eidr.getHierarchy(id, {
+        depth: query.depth === undefined ? undefined : Number(query.depth),
+        include: this.hierarchyKinds(query.include),
+      }, credentials))
+    case 'graph':
+      return json(await this.eidr.graphTraversal(
+        id,
+        this.traversal(traversal),
+        credentials,
+      ))
+    default:
+      return this.query(request, credentials)
+    }
+  }
+
+  private async query(
+    request: RouteRequest,
+    credentials?: string,
+  ): Promise<RouteResponse> {
+    const query = request.query || {}
+    const expr = queryExpression(request.method.toUpperCase() === 'POST' ?
+      request.body :
+      query.q)
+    const pageNumber = positiveInteger(query, 'pageNumber') || 1
+    const pageSize = positiveInteger(query, 'pageSize') || 25
+    const { totalMatches, results } = await this.eidr.query(expr, {
+      pageNumber,
+      pageSize,
+      root: query.root,
+      idOnly: query.idOnly === 'true' || query.idOnly === '1',
+    }, credentials)
+
+    const headers: Record<string, string> = {
+      'X-Total-Count': String(totalMatches),
+      'X-Page-Number': String(pageNumber),
+      'X-Page-Size': String(pageSize),
+    }
+    const pageCount = Math.ceil(totalMatches / pageSize)
+    const links = [
+      ...(pageNumber < pageCount ? [['next', pageNumber + 1]] : []),
+      ...(1 < pageNumber ? [['prev', pageNumber - 1]] : []),
+    ].map(([rel, page]) => {
+      const params = new URLSearchParams()
+      Object.keys(query)
+        .filter((key) => query[key] !== undefined)
+        .forEach((key) => params.set(key, query[key]!))
+      params.set('pageNumber', String(page))
+      params.set('pageSize', String(pageSize))
+      return `<${request.path}?${params}>; rel="${rel}"`
+    })
+    if (links.length > 0) {
+      headers.Link = links.join(', ')
+    }
+    return json(results, headers)
+  }
+
+  private hierarchyKinds(include?: string): HierarchyKind[] | undefined {
+    if (!include) {
+      return undefined
+    }
+    return include.split(',').map((kind) => {
+      const kinds: ReadonlyArray<string> = hierarchyKinds
+      if (kinds.indexOf(kind) === -1) {
+        throw new RouteError(400, 'Invalid include', `Invalid kind: ${kind}`)
+      }
+      return kind as HierarchyKind
+    })
+  }
+
+  private traversal(name: string): GraphTraversalTypes {
+    const types: string[] = Object.values(GraphTraversalTypes)
+    if (types.indexOf(name) === -1) {
+      throw new RouteError(
+        400,
+        'Invalid traversal',
+        `Traversal must be one of: ${types.join(', ')}`,
+      )
+    }
+    return name as GraphTraversalTypes
+  }
+}
@@ -1,12 +1,72 @@
+const checkAlphabet = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ'
+
+const contentPrefix = '10.5240'
+const otherPrefixes = ['10.5237', '10.5239']
+
+// Compute the ISO 7064 Mod 37,36 check character of a string of
+// digits and upper case letters. Also used for ISAN check characters
+//
+// @param digits string of digits (0-9 or A-Z), without separators
+//
+// @return check character (0-9 or A-Z)
+//
+export function mod37x36(digits: string): string {
+  let p = 36
+  for (const digit of digits.split('')) {
+    p = (p + checkAlphabet.indexOf(digit)) % 36
+    p = ((p === 0 ? 36 : p) * 2) % 37
+  }
+  return checkAlphabet[(37 - p) % 36]
+}
+
+// Compute the ISO 7064 Mod 37,36 check character of an EIDR content
+// ID. The check character is computed over the 20 hexadecimal digits
+// of the ID suffix, ignoring dashes:
+//
+//   10.5240/xxxx-xxxx-xxxx-xxxx-xxxx-y
+//           ^^^^^^^^^^^^^^^^^^^^^^^^
+//
+// @param suffix content ID suffix without the check character, with
+//               or without dashes, e.g. 'DF48-AB62-4486-C185-9E1B'
+//
+// @return check character (0-9 or A-Z)
+//
+export function checkDigit(suffix: string): string {
+  const digits = typeof suffix === 'string' ?
+    suffix.replace(/-/g, '').toUpperCase() :
+    ''
+  if (!/^[0-9A-F]{20}$/.test(digits)) {
+    throw new Error(`Invalid EIDR ID suffix: ${suffix}`)
+  }
+  return mod37x36(digits)
+}
+
+// Verify the check character of a canonical EIDR content ID
+//
+// @param ID EIDR content ID string
+//
+// @return true if the check character is correct, false otherwise
+//
+export function verifyCheckDigit(id: string): boolean {
+  if (typeof id !== 'string' || !id.startsWith(`${contentPrefix}/`)) {
+    return false
+  }
+  const suffix = id.substring(contentPrefix.length + 1)
+  if (!/^([0-9A-F]{4}-){5}[0-9A-Z]$/.test(suffix)) {
+    return false
+  }
+  return checkDigit(suffix.slice(0, -2)) === suffix.slice(-1)
+}
+
 // Validate an EIDR content or other ID with the
 // following formats:
 //
 //   10.5240/xxxx-xxxx-xxxx-xxxx-xxxx-y
-//   10.5238/xxxx-xxxx
+//   10.5239/xxxx-xxxx
 //   10.5237/xxxx-xxxx
 //
 // where every 'x' is a hexadecimal digit (0-F) and 'y' is
-// any digit (0-9) or a capital letter (A-Z).
+// the ISO 7064 Mod 37,36 check character (0-9 or A-Z).
 //
 // @param ID EIDR ID string
 //
@@ -15,5 +75,94 @@
 export function validateId(id: string): boolean {
   const contentRe = /^10\.5240\/([0-9A-F]{4}-){5}[0-9A-Z]$/
   const otherRe = /^10\.523[79]\/[0-9A-F]{4}-[0-9A-F]{4}$/
-  return typeof id === 'string' && (contentRe.test(id) || otherRe.test(id))
+  return typeof id === 'string' && (
+    (contentRe.test(id) && verifyCheckDigit(id)) ||
+    otherRe.test(id)
+  )
+}
+
+export type NormalizedId =
+  { valid: true, id: string } |
+  { valid: false, reason: string }
+
+function invalid(reason: string): NormalizedId {
+  return { valid: false, reason }
+}
+
+// Split digits into dash separated groups of four, with any
+// remaining characters (the check character) as the last group
+function dashes(digits: string) {
+  return digits.match(/.{1,4}/g)!.join('-')
+}
+
+// Normalize an EIDR ID from one of the forms commonly found in
+// partner feeds into its canonical form. Supported forms include:
+//
+//   10.5240/df48-ab62-4486-c185-9e1b-4        (lowercase)
+//   doi:10.5240/DF48-AB62-4486-C185-9E1B-4    (DOI prefix)
+//   https://doi.org/10.5240/DF48-...          (DOI URL)
+//   urn:eidr:10.5240:DF48-AB62-...            (URN)
+//   10.5240/DF48AB624486C1859E1B4             (missing dashes)
+//
+// @param ID EIDR ID in any supported form
+//
+// @return { valid: true, id } with the canonical ID, or
+//         { valid: false, reason } explaining why it was rejected
+//
+export function normalizeId(input: string): NormalizedId {
+  if (typeof input !== 'string' || input.trim().length === 0) {
+    return invalid('ID must be a non-empty string')
+  }
+
+  let id = input.trim()
+  try {
+    id = decodeURIComponent(id)
+  } catch {
+    return invalid(`Invalid URL encoding: ${input}`)
+  }
+  id = id
+    .replace(/^https?:\/\/(dx\.)?doi\.org\//i, '')
+    .replace(/^doi:\s*/i, '')
+  if (/^urn:eidr:/i.test(id)) {
+    id = id.substring(9).replace(/^(10\.\d{4}):/, '$1/')
+  }
+  id = id.replace(/\s/g, '').toUpperCase()
+
+  const slash = id.indexOf('/')
+  if (slash === -1) {
+    return invalid(`Missing EIDR prefix: ${input}`)
+  }
+  const prefix = id.substring(0, slash)
+  const digits = id.substring(slash + 1).replace(/-/g, '')
+
+  if (prefix === contentPrefix) {
+    if (!/^[0-9A-F]{0,20}[0-9A-Z]?$/.test(digits)) {
+      return invalid(`Invalid characters in content ID: ${input}`)
+    }
+    if (digits.length !== 21) {
+      return invalid(
+        'Content ID must have 20 hexadecimal digits and a check ' +
+        `character, found ${digits.length} characters: ${input}`
+      )
+    }
+    const expected = checkDigit(digits.slice(0, 20))
+    if (digits[20] !== expected) {
+      return invalid(
+        `Check character mismatch: expected ${expected}, ` +
+        `found ${digits[20]}: ${input}`
+      )
+    }
+    return { valid: true, id: `${prefix}/${dashes(digits)}` }
+  }
+
+  if (otherPrefixes.indexOf(prefix) !== -1) {
+    if (!/^[0-9A-F]{8}$/.test(digits)) {
+      return invalid(
+        `Party or service ID must have 8 hexadecimal digits: ${input}`
+      )
+    }
+    return { valid: true, id: `${prefix}/${dashes(digits)}` }
+  }
+
+  return invalid(`Unsupported EIDR prefix ${prefix}: ${input}`)
 }
@@ -0,0 +1,103 @@
+// EIDR registry API versions supported by the connector. Requests send
+// the version in the EIDR-Version header, and responses are normalized
+// by the adapter of the version to the response shape of the default
+// version, so actions return the same shape for every version.
+//
+// Support for another version is registered with an adapter:
+//
+//   registerApiVersion({
+//     version: '2.8.0',
+//     normalize: (response) => response,
+//   })
+//
+// Adapters without normalize return responses unchanged. The registry
+// of versions is module state, shared by all connectors in the process.
+
+type Obj = Record<string, any>
+
+export interface ApiVersionAdapter {
+  // Version, e.g. 2.7.1
+  version: string
+  // Normalize a response, parsed from XML, to the shape of the default
+  // version
+  //
+  // @param response - parsed response
+  // @param path - request path, e.g. object/<id>?type=Full or query/
+  normalize?: (response: Obj, path: string) => Obj
+}
+
+export const defaultApiVersion = '2.7.1'
+
+const adapters: Record<string, ApiVersionAdapter> = {}
+
+function compareVersions(a: string, b: string) {
+  const pa = a.split('.').map(Number)
+  const pb = b.split('.').map(Number)
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] || 0) - (pb[i] || 0)
+    if (diff !== 0) {
+      return diff
+    }
+  }
+  return 0
+}
+
+// Register support for an API version. Registering a version again
+// replaces its adapter. Versions are registered for the whole process:
+// every connector, including those already created, supports them
+//
+// @param adapter - version and optional response normalization, or a
+//                  version whose responses need no normalization
+export function registerApiVersion(adapter: ApiVersionAdapter | string) {
+  const obj = typeof adapter === 'string' ? { version: adapter } : adapter
+  if (!obj || typeof obj.version !== 'string' ||
+    !/^\d+\.\d+\.\d+$/.test(obj.version)) {
+    throw new Error(`Invalid API version: ${obj && obj.version}`)
+  }
+  if (obj.normalize !== undefined && typeof obj.normalize !== 'function') {
+    throw new Error(`Invalid normalize function: ${obj.version}`)
+  }
+  adapters[obj.version] = obj
+}
+
+// Supported API versions, in ascending order
+export function apiVersions(): string[] {
+  return Object.keys(adapters).sort(compareVersions)
+}
+
+// Adapter of a supported API version
+//
+// @param version - API version
+//
+// @return adapter
+export function apiVersionAdapter(version: string): ApiVersionAdapter {
+  if (!Object.prototype.hasOwnProperty.call(adapters, version)) {
+    throw new Error(
+      `Unsupported API version: ${version}. ` +
+      `Supported versions are ${apiVersions().join(', ')}`,
+    )
+  }
+  return adapters[version]
+}
+
+// Normalize a response of an API version
+//
+// @param version - API version of the request
+// @param response - parsed response
+// @param path - request path
+//
+// @return normalized response
+export function normalizeResponse(
+  version: string,
+  response: Obj,
+  path: string,
+): Obj {
+  const { normalize } = apiVersionAdapter(version)
+  return normalize ? normalize(response, path) : response
+}
+
+// Responses of earlier versions are returned unchanged until their
+// differences to the default version are specified
+registerApiVersion('2.6.0')
+registerApiVersion('2.7.0')
+registerApiVersion(defaultApiVersion)
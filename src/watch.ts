@@ -0,0 +1,194 @@
+import { PersistentStore } from 'reshuffle-base-connector'
+import { JsonQuery } from './jsonQuery'
+import { QueryBuilder } from './queryBuilder'
+import { Provenance, SimpleMetadata } from './models'
+import { limitConcurrency } from './retry'
+
+// Change watching for EIDR records. A watch polls the registry and
+// compares the results with the state of the previous poll, which is
+// kept in the Reshuffle persistent store so restarts do not fire the
+// same events again:
+//
+//   { ids: [...] }    Provenance modification dates and statuses of the
+//                     records and, with children: true, their children
+//   { query: ... }    IDs of the records matching a query
+//
+// The first poll of a watch records the current state without firing
+// events.
+
+export interface IdWatchOptions {
+  ids: string[]
+  // Fire child events for new children of the records
+  children?: boolean
+  // Milliseconds between polls. Defaults to the connector watchInterval
+  interval?: number
+}
+
+export interface QueryWatchOptions {
+  query: string | JsonQuery | QueryBuilder
+  // Root ID for the query
+  root?: string
+  // Maximum number of matches to compare. Default is 1000
+  limit?: number
+  interval?: number
+}
+
+export type WatchOptions = IdWatchOptions | QueryWatchOptions
+
+export type WatchEventType =
+  | 'new'
+  | 'modified'
+  | 'deleted'
+  | 'aliased'
+  | 'status'
+  | 'child'
+
+export interface WatchEvent {
+  type: WatchEventType
+  // Watched record, new query match or new child
+  id: string
+  // Parent of a new child
+  parent?: string
+  // LastModificationDate of modified records
+  modified?: string
+  // Status of records with status changes
+  status?: string
+  previousStatus?: string
+  // ID an aliased record resolves to
+  aliasOf?: string
+}
+
+// Registry lookups used by watches. Lookups of records that are not
+// found return undefined
+export interface WatchSource {
+  provenance(id: string): Promise<Provenance | undefined>
+  simple(id: string): Promise<SimpleMetadata | undefined>
+  children(id: string): Promise<string[]>
+  queryIds(options: QueryWatchOptions): Promise<string[]>
+}
+
+export interface RecordState {
+  missing?: boolean
+  modified?: string
+  status?: string
+  aliasOf?: string
+  children?: string[]
+}
+
+export interface WatchState {
+  records?: Record<string, RecordState>
+  matches?: string[]
+}
+
+const statusEvents: Record<string, WatchEventType> = {
+  deleted: 'deleted',
+  alias: 'aliased',
+}
+
+// Events for the changes of a record between two polls
+export function diffRecord(
+  id: string,
+  previous: RecordState | undefined,
+  current: RecordState,
+): WatchEvent[] {
+  if (!previous) {
+    return []
+  }
+  const events: WatchEvent[] = []
+  if (current.missing) {
+    return previous.missing ? [] : [{ type: 'deleted', id }]
+  }
+  if (current.status !== previous.status && current.status !== undefined) {
+    const type = statusEvents[current.status.toLowerCase()] || 'status'
+    events.push({
+      type,
+      id,
+      status: current.status,
+      ...(previous.status ? { previousStatus: previous.status } : {}),
+      ...(type === 'aliased' && current.aliasOf
+        ? { aliasOf: current.aliasOf }
+        : {}),
+    })
+  }
+  if (current.aliasOf && current.aliasOf !== previous.aliasOf &&
+    !events.some((event) => event.type === 'aliased')) {
+    events.push({ type: 'aliased', id, aliasOf: current.aliasOf })
+  }
+  if (events.length === 0 && current.modified !== previous.modified) {
+    events.push({ type: 'modified', id, modified: current.modified })
+  }
+  if (current.children && previous.children) {
+    const known = new Set(previous.children)
+    current.children
+      .filter((child) => !known.has(child))
+      .forEach((child) => events.push({ type: 'child', id: child, parent: id }))
+  }
+  return events
+}
+
+async function recordState(
+  source: WatchSource,
+  id: string,
+  previous: RecordState | undefined,
+  children: boolean,
+): Promise<RecordState> {
+  const provenance = await source.provenance(id)
+  if (!provenance) {
+    return { missing: true }
+  }
+  const state: RecordState = { modified: provenance.LastModificationDate }
+  if (previous && !previous.missing && previous.modified === state.modified) {
+    state.status = previous.status
+    state.aliasOf = previous.aliasOf
+  } else {
+    const simple = await source.simple(id)
+    if (!simple) {
+      return { missing: true }
+    }
+    state.status = simple.Status
+    if (simple.ID !== id) {
+      state.aliasOf = simple.ID
+    }
+  }
+  if (children) {
+    state.children = await source.children(id)
+  }
+  return JSON.parse(JSON.stringify(state))
+}
+
+// Poll a watch once. The new state is saved before events are returned,
+// so events are fired at most once
+export async function pollWatch(
+  source: WatchSource,
+  store: PersistentStore,
+  key: string,
+  options: WatchOptions,
+  concurrency = 4,
+): Promise<WatchEvent[]> {
+  const previous: WatchState = (await store.get(key)) || {}
+  const state: WatchState = {}
+  const events: WatchEvent[] = []
+
+  if ('ids' in options) {
+    const records = previous.records || {}
+    const run = limitConcurrency(concurrency)
+    const states = await Promise.all(options.ids.map((id) =>
+      run(() => recordState(source, id, records[id], !!options.children))))
+    state.records = {}
+    options.ids.forEach((id, i) => {
+      events.push(...diffRecord(id, records[id], states[i]))
+      state.records![id] = states[i]
+    })
+  } else {
+    state.matches = await source.queryIds(options)
+    if (previous.matches) {
+      const known = new Set(previous.matches)
+      state.matches
+        .filter((id) => !known.has(id))
+        .forEach((id) => events.push({ type: 'new', id }))
+    }
+  }
+
+  await store.set(key, state)
+  return events
+}
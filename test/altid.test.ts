@@ -0,0 +1,157 @@
+import { EIDRConnector, MockEIDRServer, normalizeAlternateId } from '../src'
+import { buildAlternateIdQuery } from '../src/altid'
+import { contentId, ids, startMock } from './helpers'
+
+describe('normalizeAlternateId', () => {
+  it('normalizes IMDb IDs', () => {
+    for (const value of [
+      'tt0076759',
+      'TT76759',
+      '0076759',
+      ' 76759 ',
+      'https://www.imdb.com/title/tt0076759/',
+    ]) {
+      expect(normalizeAlternateId({ type: 'imdb', value }))
+        .toEqual({ type: 'IMDB', value: 'tt0076759' })
+    }
+    expect(normalizeAlternateId({ type: 'IMDB', value: 'tt10872600' }).value)
+      .toBe('tt10872600')
+    expect(() => normalizeAlternateId({ type: 'IMDB', value: 'nm0000184' }))
+      .toThrow('Invalid IMDb title ID: nm0000184')
+  })
+
+  it('normalizes ISANs', () => {
+    const isan = '0000-0000-D07A-0090-Q-0000-0000-X'
+    for (const value of [
+      `ISAN ${isan}`,
+      isan.toLowerCase(),
+      '00000000D07A0090Q00000000X',
+      '00000000D07A009000000000',
+    ]) {
+      expect(normalizeAlternateId({ type: 'ISAN', value }).value).toBe(isan)
+    }
+    expect(normalizeAlternateId({ type: 'ISAN', value: '0000 0000 D07A 0090' })
+      .value).toBe('0000-0000-D07A-0090-Q')
+    expect(() => normalizeAlternateId({
+      type: 'ISAN',
+      value: '0000-0000-D07A-0090-R-0000-0000-X',
+    })).toThrow('Invalid ISAN check character')
+    expect(() => normalizeAlternateId({ type: 'ISAN', value: '0000-0000' }))
+      .toThrow('Invalid ISAN: 0000-0000')
+  })
+
+  it('normalizes Gracenote TMS IDs', () => {
+    expect(normalizeAlternateId({ type: 'TMS', value: 'mv000123450000' }))
+      .toEqual({ type: 'TRIB', value: 'MV000123450000' })
+  })
+
+  it('requires a domain for proprietary IDs', () => {
+    expect(normalizeAlternateId({
+      type: 'proprietary',
+      value: ' ABOM-0001 ',
+      domain: 'example.com',
+    })).toEqual({
+      type: 'Proprietary',
+      value: 'ABOM-0001',
+      domain: 'example.com',
+    })
+    expect(() => normalizeAlternateId({ type: 'Proprietary', value: 'x' }))
+      .toThrow('Proprietary alternate IDs require a domain')
+  })
+
+  it('builds queries', () => {
+    expect(buildAlternateIdQuery({
+      type: 'Proprietary',
+      value: 'ABOM-0001',
+      domain: 'example.com',
+    })).toEqual({
+      and: [
+        { altid: { exact: 'ABOM-0001' } },
+        { altidtype: { exact: 'Proprietary' } },
+        { altiddomain: { exact: 'example.com' } },
+      ],
+    })
+  })
+})
+
+describe('findByAlternateId', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('finds records by IMDb ID', async () => {
+    const result = await eidr.findByAlternateId('IMDb', '6324278')
+    expect(result).toEqual({
+      type: 'IMDB',
+      value: 'tt6324278',
+      id: ids.movie,
+      ids: [ids.movie],
+      ambiguous: false,
+      matches: [{
+        id: ids.movie,
+        alternateId: { type: 'IMDB', value: 'tt6324278' },
+      }],
+    })
+  })
+
+  it('finds records by proprietary ID', async () => {
+    const result = await eidr.findByAlternateId('Proprietary', 'ABOM-0001',
+      'example.com')
+    expect(result.id).toBe(ids.movie)
+    expect(result.matches[0].alternateId.domain).toBe('example.com')
+    const other = await eidr.findByAlternateId('Proprietary', 'ABOM-0001',
+      'example.org')
+    expect(other).toMatchObject({ ids: [], ambiguous: false })
+    expect(other.id).toBeUndefined()
+  })
+
+  it('does not match other alternate ID types', async () => {
+    const result = await eidr.findByAlternateId('Proprietary', 'tt6324278',
+      'example.com')
+    expect(result.ids).toEqual([])
+  })
+
+  it('flags ambiguous matches', async () => {
+    const copy = contentId('3C4D-5E6F-7081-92A3-FFFF')
+    await server.addRecord(`<FullMetadata
+      xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+      <BaseObjectData>
+        <ID>${copy}</ID>
+        <ResourceName>Star Wars</ResourceName>
+        <AlternateID xsi:type="IMDB">tt0076759</AlternateID>
+      </BaseObjectData>
+    </FullMetadata>`)
+    const result = await eidr.findByAlternateId('IMDB', 'tt0076759')
+    expect(result.ambiguous).toBe(true)
+    expect(result.ids).toEqual([ids.starWars, copy])
+    expect(result.id).toBeUndefined()
+  })
+
+  it('rejects invalid alternate IDs', async () => {
+    await expect(eidr.findByAlternateId('IMDB', 'abc'))
+      .rejects.toMatchObject({
+        status: 400,
+        details: 'Invalid IMDb title ID: abc',
+      })
+  })
+
+  it('finds batches of alternate IDs', async () => {
+    const results = await eidr.findByAlternateIds([
+      { type: 'IMDB', value: 'tt6324278' },
+      { type: 'IMDB', value: 'abc' },
+      { type: 'IMDB', value: 'tt9999999' },
+    ], { concurrency: 2 })
+    expect(results).toMatchObject([
+      { value: 'tt6324278', id: ids.movie, ambiguous: false },
+      { value: 'abc', ids: [], error: 'Invalid IMDb title ID: abc' },
+      { value: 'tt9999999', ids: [], ambiguous: false },
+    ])
+  })
+})
@@ -0,0 +1,227 @@
+import {
+  BaseObjectDataValue,
+  EIDRConnector,
+  GraphTraversalTypes,
+  MemoryCache,
+  MockEIDRServer,
+  StoreCache,
+} from '../src'
+import { createApp, credentials, ids, startMock } from './helpers'
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+describe('MemoryCache', () => {
+  it('returns copies of cached values', async () => {
+    const cache = new MemoryCache()
+    const value = { ID: ids.movie }
+    await cache.set('a', value)
+    value.ID = ids.edit
+    const cached = await cache.get('a')
+    expect(cached).toEqual({ ID: ids.movie })
+    cached.ID = ids.edit
+    expect(await cache.get('a')).toEqual({ ID: ids.movie })
+    await cache.delete('a')
+    expect(await cache.get('a')).toBeUndefined()
+  })
+
+  it('evicts the least recently used entries', async () => {
+    const cache = new MemoryCache({ maxEntries: 2 })
+    await cache.set('a', 1)
+    await cache.set('b', 2)
+    expect(await cache.get('a')).toBe(1)
+    await cache.set('c', 3)
+    expect(await cache.get('b')).toBeUndefined()
+    expect(await cache.get('a')).toBe(1)
+    expect(await cache.get('c')).toBe(3)
+    expect(cache.stats()).toEqual({ evictions: 1, size: 2 })
+  })
+
+  it('expires entries', async () => {
+    const cache = new MemoryCache({ ttl: 10 })
+    await cache.set('a', 1)
+    await cache.set('b', 2, 1000)
+    await sleep(20)
+    expect(await cache.get('a')).toBeUndefined()
+    expect(await cache.get('b')).toBe(2)
+    expect(cache.stats()).toEqual({ evictions: 0, size: 1 })
+  })
+})
+
+describe('StoreCache', () => {
+  it('keeps values in the persistent store', async () => {
+    const store = new Map<string, any>()
+    const cache = new StoreCache(createApp(store).getPersistentStore())
+    await cache.set('a', { ID: ids.movie })
+    expect(Array.from(store.keys())).toEqual(['eidr-cache:a'])
+    const cached = await cache.get('a')
+    expect(cached).toEqual({ ID: ids.movie })
+    cached.ID = ids.edit
+    expect(await cache.get('a')).toEqual({ ID: ids.movie })
+    await cache.delete('a')
+    expect(store.size).toBe(0)
+  })
+
+  it('removes expired entries when they are read', async () => {
+    const store = new Map<string, any>()
+    const cache = new StoreCache(createApp(store).getPersistentStore(),
+      'cache:', 10)
+    await cache.set('a', 1)
+    await cache.set('b', 2, 1000)
+    await sleep(20)
+    expect(await cache.get('a')).toBeUndefined()
+    expect(await cache.get('b')).toBe(2)
+    expect(Array.from(store.keys())).toEqual(['cache:b'])
+  })
+})
+
+describe('response cache', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  // Resolution requests received by the server
+  const resolutions = () => server.requests.filter((req) =>
+    req.method === 'GET' && req.url.startsWith('/EIDR/object/')).length
+
+  beforeEach(async () => {
+    ({ server, eidr } = await startMock({ cache: true }))
+  })
+
+  afterEach(async () => {
+    await server.stop()
+  })
+
+  it('caches resolution results', async () => {
+    expect(eidr.info().cache).toEqual({
+      enabled: true,
+      hits: 0,
+      misses: 0,
+      evictions: 0,
+      size: 0,
+    })
+    const record = await eidr.resolve(ids.movie)
+    record.ID = ids.edit
+    expect(await eidr.resolve(ids.movie)).toMatchObject({ ID: ids.movie })
+    await eidr.resolve(ids.movie, 'Simple')
+    expect(resolutions()).toBe(2)
+    expect(eidr.info().cache).toEqual({
+      enabled: true,
+      hits: 1,
+      misses: 2,
+      evictions: 0,
+      size: 2,
+    })
+  })
+
+  it('bypasses and refreshes the cache', async () => {
+    await eidr.resolve(ids.movie)
+    await eidr.resolve(ids.movie, 'Full', undefined, undefined,
+      { bypass: true })
+    expect(resolutions()).toBe(2)
+    expect(eidr.info().cache).toMatchObject({ hits: 0, misses: 1 })
+
+    server.removeRecord(ids.movie)
+    expect(await eidr.resolve(ids.movie)).toMatchObject({ ID: ids.movie })
+    await expect(eidr.resolve(ids.movie, 'Full', undefined, undefined,
+      { refresh: true })).rejects.toMatchObject({ status: 404 })
+    expect(resolutions()).toBe(3)
+    expect(eidr.info().cache).toMatchObject({ hits: 1, misses: 2 })
+  })
+
+  it('updates the cache on refresh', async () => {
+    await eidr.resolve(ids.movie)
+    await eidr.resolve(ids.movie, 'Full', undefined, undefined,
+      { refresh: true })
+    await eidr.resolve(ids.movie)
+    expect(resolutions()).toBe(2)
+    expect(eidr.info().cache).toMatchObject({ hits: 1, misses: 2 })
+  })
+
+  it('deletes cached results of modified records', async () => {
+    const base: BaseObjectDataValue = {
+      structuralType: 'Abstraction',
+      mode: 'AudioVisual',
+      referentType: 'Movie',
+      resourceName: { value: 'Renamed', lang: 'en' },
+      originalLanguages: ['en'],
+      releaseDate: '2019-09-27',
+      approximateLength: 'PT1H37M',
+    }
+    const name = async (id: string) =>
+      ((await eidr.resolve(id)).ResourceName as Record<string, string>)._
+    const traversals = () => server.requests.filter((req) =>
+      req.url.startsWith('/EIDR/object/graph')).length
+
+    expect(await name(ids.movie)).toBe('Abominable')
+    await eidr.graphTraversal(ids.movie, GraphTraversalTypes.GetChildren)
+    expect(await eidr.modifyBase(ids.movie, base, { immediate: true }))
+      .toMatchObject({ status: 'applied' })
+    expect(await name(ids.movie)).toBe('Renamed')
+    await eidr.graphTraversal(ids.movie, GraphTraversalTypes.GetChildren)
+    expect(traversals()).toBe(2)
+
+    const renamed = { ...base, resourceName: { value: 'Pending', lang: 'en' } }
+    const { token } = await eidr.modifyBase(ids.movie, renamed)
+    expect(await name(ids.movie)).toBe('Renamed')
+    await eidr.getStatus(token!, { pollInterval: 10 })
+    expect(await name(ids.movie)).toBe('Pending')
+
+    await eidr.resolve(ids.edit)
+    await eidr.alias(ids.movie, ids.edit, { immediate: true })
+    await eidr.resolve(ids.edit)
+    expect(resolutions()).toBe(5)
+  })
+
+  it('reports evictions', async () => {
+    const small = await startMock({ cache: { maxEntries: 1 } })
+    try {
+      await small.eidr.resolve(ids.movie)
+      await small.eidr.resolve(ids.edit)
+      await small.eidr.resolve(ids.movie)
+      expect(small.eidr.info().cache).toEqual({
+        enabled: true,
+        hits: 0,
+        misses: 3,
+        evictions: 2,
+        size: 1,
+      })
+    } finally {
+      await small.server.stop()
+    }
+  })
+
+  it('caches results per party', async () => {
+    const other = { ...credentials, partyId: ids.party }
+    await eidr.resolve(ids.movie)
+    await eidr.resolve(ids.movie, 'Full',
+      { ...credentials, userId: 'other' })
+    expect(resolutions()).toBe(1)
+    await eidr.resolve(ids.movie, 'Full', other)
+    await eidr.resolve(ids.movie, 'Full', other)
+    expect(resolutions()).toBe(2)
+
+    const anonymous = new EIDRConnector(createApp(), {
+      endpoint: server.endpoint,
+      cache: true,
+    })
+    await anonymous.resolve(ids.movie)
+    await anonymous.resolve(ids.movie, 'Full', other)
+    expect(resolutions()).toBe(4)
+  })
+
+  it('is disabled by default', async () => {
+    const uncached = await startMock()
+    try {
+      await uncached.eidr.resolve(ids.movie)
+      expect(uncached.eidr.info().cache).toEqual({
+        enabled: false,
+        hits: 0,
+        misses: 0,
+        evictions: 0,
+      })
+    } finally {
+      await uncached.server.stop()
+    }
+  })
+})
@@ -0,0 +1,230 @@
+import xml2js from 'xml2js'
+import {
+  EIDRConnector,
+  FullMetadata,
+  MockEIDRServer,
+  renderMdmec,
+  toJsonLd,
+  toMdmec,
+} from '../src'
+import { ids, startMock } from './helpers'
+
+describe('converters', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+  let movie: FullMetadata
+  let episode: FullMetadata
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+    movie = await eidr.resolve(ids.movie) as FullMetadata
+    episode = await eidr.resolve(ids.episode11) as FullMetadata
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  describe('toMdmec', () => {
+    it('converts movies', () => {
+      expect(toMdmec(movie)).toEqual({
+        contentID: 'md:cid:eidr-s:1A2B-3C4D-5E6F-7081-92A3-0',
+        localizedInfo: [
+          {
+            language: 'en',
+            default: true,
+            titleDisplayUnlimited: 'Abominable',
+            titleSort: 'Abominable',
+          },
+          {
+            language: 'es',
+            titleDisplayUnlimited: 'Abominable: El Yeti',
+            titleSort: 'Abominable: El Yeti',
+          },
+        ],
+        runLength: 'PT1H37M',
+        releaseYear: 2019,
+        releaseDate: '2019-09-27',
+        workType: 'Movie',
+        altIdentifiers: [
+          { namespace: 'EIDR-S', identifier: '1A2B-3C4D-5E6F-7081-92A3-0' },
+          { namespace: 'IMDB', identifier: 'tt6324278' },
+          { namespace: 'example.com', identifier: 'ABOM-0001' },
+        ],
+        people: [
+          {
+            jobFunction: 'Director',
+            billingBlockOrder: 1,
+            displayName: 'Jill Culton',
+          },
+          {
+            jobFunction: 'Actor',
+            billingBlockOrder: 1,
+            displayName: 'Chloe Bennet',
+          },
+          {
+            jobFunction: 'Actor',
+            billingBlockOrder: 2,
+            displayName: 'Albert Tsai',
+          },
+        ],
+        countryOfOrigin: 'US',
+        originalLanguages: ['en'],
+        associatedOrgs: [{
+          organizationID: ids.party,
+          idType: 'EIDR',
+          role: 'producer',
+          displayName: 'DreamWorks Animation',
+        }],
+        parents: [],
+      })
+    })
+
+    it('converts episodes', () => {
+      expect(toMdmec(episode)).toMatchObject({
+        workType: 'Episode',
+        sequenceInfo: { number: 1, houseSequence: '001' },
+        parents: [{
+          relationshipType: 'isepisodeof',
+          parentContentID: 'md:cid:eidr-s:2B3C-4D5E-6F70-8192-A3C5-6',
+        }],
+      })
+    })
+
+    it('converts minimal records', () => {
+      expect(toMdmec({
+        ID: ids.movie,
+        ResourceName: 'Untitled',
+        ReleaseDate: '2019',
+      })).toEqual({
+        contentID: 'md:cid:eidr-s:1A2B-3C4D-5E6F-7081-92A3-0',
+        localizedInfo: [{
+          language: 'und',
+          default: true,
+          titleDisplayUnlimited: 'Untitled',
+          titleSort: 'Untitled',
+        }],
+        releaseYear: 2019,
+        workType: 'Movie',
+        altIdentifiers: [
+          { namespace: 'EIDR-S', identifier: '1A2B-3C4D-5E6F-7081-92A3-0' },
+        ],
+        people: [],
+        originalLanguages: [],
+        associatedOrgs: [],
+        parents: [],
+      })
+    })
+  })
+
+  describe('renderMdmec', () => {
+    it('serializes elements in schema order', async () => {
+      const xml = renderMdmec(toMdmec(episode))
+      expect(xml).toMatch(/^<\?xml version="1.0" encoding="UTF-8"\?>/)
+      const parsed = await xml2js.parseStringPromise(xml)
+      const root = parsed['md:BasicMetadata']
+      expect(root.$).toEqual({
+        'xmlns:md': 'http://www.movielabs.com/schema/md/v2.9/md',
+        ContentID: 'md:cid:eidr-s:2B3C-4D5E-6F70-8192-A3E7-T',
+      })
+      expect(Object.keys(root).filter((key) => key !== '$')).toEqual([
+        'md:LocalizedInfo',
+        'md:RunLength',
+        'md:ReleaseYear',
+        'md:ReleaseDate',
+        'md:WorkType',
+        'md:AltIdentifier',
+        'md:People',
+        'md:CountryOfOrigin',
+        'md:OriginalLanguage',
+        'md:AssociatedOrg',
+        'md:SequenceInfo',
+        'md:Parent',
+      ])
+      expect(root['md:LocalizedInfo'][0]).toEqual({
+        $: { language: 'en', default: 'true' },
+        'md:TitleDisplayUnlimited': ['Pilot'],
+        'md:TitleSort': ['Pilot'],
+      })
+      expect(root['md:SequenceInfo'][0]).toEqual({
+        'md:Number': ['1'],
+        'md:HouseSequence': ['001'],
+      })
+      expect(root['md:Parent'][0].$)
+        .toEqual({ relationshipType: 'isepisodeof' })
+    })
+
+    it('serializes compact XML', () => {
+      expect(renderMdmec(toMdmec(movie), { pretty: false }))
+        .not.toMatch(/>\n/)
+    })
+  })
+
+  describe('toJsonLd', () => {
+    it('converts movies', () => {
+      expect(toJsonLd(movie)).toEqual({
+        '@context': 'https://schema.org',
+        '@type': 'Movie',
+        '@id': `https://doi.org/${ids.movie}`,
+        name: 'Abominable',
+        alternateName: { '@language': 'es', '@value': 'Abominable: El Yeti' },
+        inLanguage: 'en',
+        datePublished: '2019-09-27',
+        duration: 'PT1H37M',
+        countryOfOrigin: { '@type': 'Country', name: 'US' },
+        identifier: [
+          { '@type': 'PropertyValue', propertyID: 'EIDR', value: ids.movie },
+          { '@type': 'PropertyValue', propertyID: 'IMDB', value: 'tt6324278' },
+          {
+            '@type': 'PropertyValue',
+            propertyID: 'example.com',
+            value: 'ABOM-0001',
+          },
+        ],
+        sameAs: 'https://www.imdb.com/title/tt6324278/',
+        director: { '@type': 'Person', name: 'Jill Culton' },
+        actor: [
+          { '@type': 'Person', name: 'Chloe Bennet' },
+          { '@type': 'Person', name: 'Albert Tsai' },
+        ],
+        productionCompany: {
+          '@type': 'Organization',
+          '@id': `https://doi.org/${ids.party}`,
+          name: 'DreamWorks Animation',
+        },
+      })
+    })
+
+    it('links episodes to their parent', () => {
+      expect(toJsonLd(episode)).toMatchObject({
+        '@type': 'TVEpisode',
+        episodeNumber: 1,
+        isPartOf: { '@id': `https://doi.org/${ids.season1}` },
+      })
+    })
+
+    it('links episodes to their season and series', async () => {
+      const ancestry = await eidr.getAncestry(ids.episode11)
+      const node = toJsonLd(episode, { ancestry })
+      expect(node).toMatchObject({
+        partOfSeason: {
+          '@type': 'TVSeason',
+          '@id': `https://doi.org/${ids.season1}`,
+          seasonNumber: 1,
+        },
+        partOfSeries: {
+          '@type': 'TVSeries',
+          '@id': `https://doi.org/${ids.series}`,
+        },
+      })
+      expect(node).not.toHaveProperty('isPartOf')
+    })
+
+    it('converts series', async () => {
+      const series = await eidr.resolve(ids.series) as FullMetadata
+      const node = toJsonLd(series)
+      expect(node['@type']).toBe('TVSeries')
+      expect(node).not.toHaveProperty('duration')
+    })
+  })
+})
@@ -0,0 +1,151 @@
+import fs from 'fs'
+import path from 'path'
+import { EIDRConnector, MockEIDRServer } from '../src'
+import { buildDuplicateQuery } from '../src/dedup'
+import { defaultFixtures } from '../src/mock/server'
+import { contentId, ids, startMock } from './helpers'
+
+describe('buildDuplicateQuery', () => {
+  it('requires all significant title words', () => {
+    expect(buildDuplicateQuery({ title: 'The Return of the Yeti' })).toEqual({
+      and: [
+        { anytitle: { words: 'return' } },
+        { anytitle: { words: 'yeti' } },
+      ],
+    })
+    expect(buildDuplicateQuery({ title: 'The The' }))
+      .toEqual({ anytitle: { words: 'the' } })
+  })
+
+  it('requires one other signal', () => {
+    expect(buildDuplicateQuery({
+      title: 'Abominable',
+      releaseYear: '2019-09-27',
+      countryOfOrigin: 'US',
+    })).toEqual({
+      and: [
+        { anytitle: { words: 'abominable' } },
+        { or: [
+          { date: { between: ['2018', '2020'] } },
+          { coo: { exact: 'US' } },
+        ] },
+      ],
+    })
+  })
+
+  it('keeps words of non-Latin titles', () => {
+    expect(buildDuplicateQuery({ title: '千と千尋の神隠し', releaseYear: 2001 }))
+      .toEqual({
+        and: [
+          { anytitle: { words: '千と千尋の神隠し' } },
+          { date: { between: ['2000', '2002'] } },
+        ],
+      })
+    expect(buildDuplicateQuery({ title: 'Брат 2: ゲド戦記 Amélie' })).toEqual({
+      and: [
+        { anytitle: { words: 'брат' } },
+        { anytitle: { words: '2' } },
+        { anytitle: { words: 'ゲド戦記' } },
+        { anytitle: { words: 'amelie' } },
+      ],
+    })
+  })
+
+  it('rejects invalid candidates', () => {
+    expect(() => buildDuplicateQuery({ title: ' - ' }))
+      .toThrow('Invalid duplicate candidate title')
+    expect(() => buildDuplicateQuery({ title: 'Pilot', length: '97 min' }))
+      .toThrow('Invalid length: 97 min')
+  })
+})
+
+describe('findDuplicates', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('finds exact matches', async () => {
+    const matches = await eidr.findDuplicates({
+      title: 'Abominable',
+      releaseYear: 2019,
+      length: 'PT97M',
+      countryOfOrigin: 'us',
+      directors: ['Jill Culton'],
+    })
+    const fields = ['title', 'releaseYear', 'length', 'countryOfOrigin']
+    expect(matches.map(({ id, score, matchedFields }) =>
+      [id, score, matchedFields])).toEqual([
+      [ids.movie, 1, [...fields, 'directors']],
+      // The edit has no credits
+      [ids.edit, 0.85, fields],
+    ])
+    expect(matches[0].record).toMatchObject({ ID: ids.movie })
+  })
+
+  it('scores near matches', async () => {
+    const matches = await eidr.findDuplicates({
+      title: 'The Example Show',
+      releaseYear: 2016,
+      length: 45,
+    })
+    expect(matches.map(({ id, score, matchedFields }) =>
+      [id, score, matchedFields])).toEqual([
+      [ids.series, 0.867, ['title', 'releaseYear', 'length']],
+      [ids.season2, 0.787, ['title', 'releaseYear', 'length']],
+      [ids.season1, 0.653, ['title', 'releaseYear', 'length']],
+    ])
+    expect(await eidr.findDuplicates({
+      title: 'The Example Show',
+      releaseYear: 2016,
+      length: 45,
+    }, { minScore: 0.8 })).toHaveLength(1)
+  })
+
+  it('finds records with non-Latin titles', async () => {
+    const spirited = contentId('0000-0000-0000-0000-0003')
+    const file = `${ids.movie.substring(8)}.xml`
+    await server.addRecord(fs
+      .readFileSync(path.join(defaultFixtures, 'content', file), 'utf8')
+      .replace(ids.movie, spirited)
+      .replace('>Abominable<', '>千と千尋の神隠し<')
+      .replace('2019-09-27', '2001-07-20'))
+    try {
+      const matches = await eidr.findDuplicates({
+        title: '千と千尋の神隠し',
+        releaseYear: 2001,
+      })
+      expect(matches.map(({ id, score, matchedFields }) =>
+        [id, score, matchedFields])).toEqual([
+        [spirited, 1, ['title', 'releaseYear']],
+      ])
+    } finally {
+      server.removeRecord(spirited)
+    }
+  })
+
+  it('does not match titles missing significant words', async () => {
+    expect(await eidr.findDuplicates({
+      title: 'The Return of the Yeti',
+      releaseYear: 2016,
+    }, { minScore: 0 })).toEqual([])
+    expect(await eidr.findDuplicates({
+      title: 'Star Wars',
+      releaseYear: 2019,
+    }, { minScore: 0 })).toEqual([])
+  })
+
+  it('scores every page up to the limit', async () => {
+    const candidate = { title: 'Example Show', countryOfOrigin: 'US' }
+    expect(await eidr.findDuplicates(candidate, { pageSize: 1 }))
+      .toHaveLength(3)
+    expect(await eidr.findDuplicates(candidate, { pageSize: 1, limit: 2 }))
+      .toHaveLength(2)
+  })
+})
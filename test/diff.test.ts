@@ -0,0 +1,263 @@
+import fs from 'fs'
+import path from 'path'
+import {
+  EIDRConnector,
+  MemorySnapshotStore,
+  MockEIDRServer,
+  diffRecords,
+  isEmptyDiff,
+} from '../src'
+import { defaultFixtures } from '../src/mock/server'
+import { createApp, credentials, ids, startMock } from './helpers'
+
+function fixture(id: string) {
+  const file = `${id.substring(8)}.xml`
+  return fs.readFileSync(path.join(defaultFixtures, 'content', file), 'utf8')
+}
+
+const actor = (name: string) => ({ 'md:DisplayName': name })
+
+describe('diffRecords', () => {
+  const record = {
+    ID: ids.movie,
+    ResourceName: { _: 'Abominable', $: { lang: 'en' } },
+    ReleaseDate: '2019-09-27',
+    AlternateID: [
+      { _: 'tt6324278', $: { 'xsi:type': 'IMDB' } },
+      { _: 'ABOM-0001', $: { 'xsi:type': 'Proprietary', domain: 'a.com' } },
+    ],
+    Credits: { Actor: [actor('Chloe Bennet'), actor('Albert Tsai')] },
+  }
+
+  it('reports no changes of equal records', () => {
+    const diff = diffRecords(record, JSON.parse(JSON.stringify(record)))
+    expect(diff).toEqual({ added: [], removed: [], changed: [] })
+    expect(isEmptyDiff(diff)).toBe(true)
+  })
+
+  it('reports added, removed and changed fields', () => {
+    const { ReleaseDate, ...rest } = record
+    const diff = diffRecords(record, {
+      ...rest,
+      ResourceName: { _: 'Abominable', $: { lang: 'en-US' } },
+      ApproximateLength: 'PT1H37M',
+    })
+    expect(diff).toEqual({
+      added: [{ path: 'ApproximateLength', after: 'PT1H37M' }],
+      removed: [{ path: 'ReleaseDate', before: ReleaseDate }],
+      changed: [{ path: 'ResourceName.@lang', before: 'en', after: 'en-US' }],
+    })
+    expect(isEmptyDiff(diff)).toBe(false)
+  })
+
+  it('matches repeated elements by identity', () => {
+    const diff = diffRecords(record, {
+      ...record,
+      AlternateID: [
+        { _: 'ABOM-0001', $: { 'xsi:type': 'Proprietary', domain: 'a.com' } },
+        { _: 'tt6324279', $: { 'xsi:type': 'IMDB' } },
+      ],
+      Credits: {
+        Actor: [actor('Albert Tsai'), actor('Chloe Bennet'), actor('Tenzing')],
+      },
+    })
+    expect(diff).toEqual({
+      added: [
+        {
+          path: 'AlternateID[IMDB:tt6324279]',
+          after: { _: 'tt6324279', $: { 'xsi:type': 'IMDB' } },
+        },
+        { path: 'Credits.Actor[Tenzing]', after: actor('Tenzing') },
+      ],
+      removed: [{
+        path: 'AlternateID[IMDB:tt6324278]',
+        before: { _: 'tt6324278', $: { 'xsi:type': 'IMDB' } },
+      }],
+      changed: [],
+    })
+  })
+
+  it('numbers elements with the same identity', () => {
+    const diff = diffRecords(
+      { Credits: { Actor: [actor('Jane Doe')] } },
+      { Credits: { Actor: [actor('Jane Doe'), actor('Jane Doe')] } },
+    )
+    expect(diff.added).toEqual([
+      { path: 'Credits.Actor[Jane Doe#2]', after: actor('Jane Doe') },
+    ])
+  })
+
+  it('compares text and single values of repeated elements', () => {
+    const diff = diffRecords(
+      { CountryOfOrigin: 'US', SequenceInfo: { DistributionNumber: 1 } },
+      {
+        CountryOfOrigin: ['US', 'CA'],
+        SequenceInfo: { DistributionNumber: { value: 2 } },
+      },
+    )
+    expect(diff).toEqual({
+      added: [{ path: 'CountryOfOrigin[CA]', after: 'CA' }],
+      removed: [],
+      changed: [{
+        path: 'SequenceInfo.DistributionNumber',
+        before: 1,
+        after: { value: 2 },
+      }],
+    })
+  })
+
+  it('ignores fields', () => {
+    const diff = diffRecords(record, {
+      ...record,
+      ReleaseDate: '2019-09-28',
+      Credits: { Actor: [] },
+    }, { ignore: ['ReleaseDate', 'Credits.Actor'] })
+    expect(isEmptyDiff(diff)).toBe(true)
+  })
+})
+
+describe('getHistory', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  afterEach(async () => {
+    await server.addRecord(fixture(ids.movie))
+  })
+
+  it('builds a timeline from snapshots', async () => {
+    const history = await eidr.getHistory(ids.movie)
+    expect(history.provenance).toMatchObject({
+      CreationDate: '2020-01-01T00:00:00Z',
+    })
+    expect(history.entries).toEqual([{
+      type: 'created',
+      date: '2020-01-01T00:00:00Z',
+      by: credentials.partyId,
+      record: expect.objectContaining({ ID: ids.movie }),
+    }])
+
+    const unchanged = await eidr.getHistory(ids.movie)
+    expect(unchanged.entries).toEqual(history.entries)
+
+    await server.addRecord(fixture(ids.movie)
+      .replace('<Actor>', '<Actor><md:DisplayName>Tenzing</md:DisplayName>' +
+        '</Actor><Actor>')
+      .replace('2019-09-27', '2019-09-20'))
+    const modified = await eidr.getHistory(ids.movie)
+    expect(modified.entries).toHaveLength(2)
+    expect(modified.entries[1]).toMatchObject({
+      type: 'modified',
+      date: '2020-01-01T00:00:01Z',
+      by: credentials.partyId,
+    })
+    expect(modified.entries[1].changes).toEqual({
+      added: [{
+        path: 'Credits.Actor[Tenzing]',
+        after: { 'md:DisplayName': 'Tenzing' },
+      }],
+      removed: [],
+      changed: [{
+        path: 'ReleaseDate',
+        before: '2019-09-27',
+        after: '2019-09-20',
+      }],
+    })
+  })
+
+  it('keeps snapshots in pluggable stores', async () => {
+    const snapshotStore = new MemorySnapshotStore()
+    const store = new Map<string, any>()
+    const connector = (options: Record<string, any> = {}) =>
+      new EIDRConnector(createApp(store), {
+        ...credentials,
+        endpoint: eidr.info().endpoint,
+        retries: 0,
+        ...options,
+      })
+    const memory = connector({ snapshotStore })
+    await memory.getHistory(ids.edit, { snapshot: false })
+    expect(await snapshotStore.list(ids.edit)).toEqual([])
+    await memory.getHistory(ids.edit)
+    expect(await snapshotStore.list(ids.edit)).toMatchObject([{
+      modified: '2020-01-01T00:00:00Z',
+      record: { ID: ids.edit },
+    }])
+    expect(Array.from(store.keys())).toEqual([])
+
+    await connector().getHistory(ids.edit)
+    expect(Array.from(store.keys())).toEqual([`eidr-history:${ids.edit}`])
+  })
+
+  it('keeps no snapshot of records modified while resolving', async () => {
+    const snapshotStore = new MemorySnapshotStore()
+    const connector = new EIDRConnector(createApp(), {
+      ...credentials,
+      endpoint: eidr.info().endpoint,
+      snapshotStore,
+    })
+    const resolve = connector.resolve.bind(connector)
+    const spy = jest.spyOn(connector, 'resolve')
+      .mockImplementation(async (...args: any[]) => {
+        const result = await (resolve as any)(...args)
+        if (args[1] === 'Full') {
+          await server.addRecord(fixture(ids.movie)
+            .replace('2019-09-27', '2019-09-20'))
+        }
+        return result
+      })
+
+    const history = await connector.getHistory(ids.movie)
+    expect(spy.mock.calls.map((args) => args[1]))
+      .toEqual(['Provenance', 'Full', 'Provenance'])
+    expect(await snapshotStore.list(ids.movie)).toEqual([])
+
+    spy.mockRestore()
+    await connector.getHistory(ids.movie)
+    expect(await snapshotStore.list(ids.movie)).toMatchObject([{
+      modified: history.provenance.LastModificationDate,
+      record: { ReleaseDate: '2019-09-20' },
+    }])
+  })
+
+  it('compares records without provenance dates by content', async () => {
+    const snapshotStore = new MemorySnapshotStore()
+    const connector = new EIDRConnector(createApp(), {
+      ...credentials,
+      endpoint: eidr.info().endpoint,
+      snapshotStore,
+    })
+    const resolve = connector.resolve.bind(connector)
+    jest.spyOn(connector, 'resolve')
+      .mockImplementation(async (...args: any[]) => args[1] === 'Provenance' ?
+        {} :
+        (resolve as any)(...args))
+
+    await connector.getHistory(ids.edit)
+    const { entries } = await connector.getHistory(ids.edit)
+    expect(await snapshotStore.list(ids.edit)).toHaveLength(1)
+    expect(entries).toHaveLength(1)
+
+    await server.addRecord(fixture(ids.edit)
+      .replace('2019-09-27', '2019-09-20'))
+    await connector.getHistory(ids.edit)
+    await connector.getHistory(ids.edit)
+    expect(await snapshotStore.list(ids.edit)).toMatchObject([
+      { record: { ReleaseDate: '2019-09-27' } },
+      { record: { ReleaseDate: '2019-09-20' } },
+    ])
+    await server.addRecord(fixture(ids.edit))
+  })
+
+  it('fails for unknown records', async () => {
+    await expect(eidr.getHistory('10.5240/0000-0000-0000-0000-0000-X'))
+      .rejects.toMatchObject({ status: 404 })
+  })
+})
@@ -0,0 +1,148 @@
+import { EIDRConnector, MockEIDRServer } from '../src'
+import { buildDirectoryQuery } from '../src/directory'
+import { ids, startMock } from './helpers'
+
+const studios = '10.5237/5E6F-7081'
+
+describe('buildDirectoryQuery', () => {
+  it('builds name queries', () => {
+    expect(buildDirectoryQuery('party', 'DreamWorks')).toBe(
+      '((/Party/PartyName/DisplayName "DreamWorks") OR ' +
+      '(/Party/PartyName/AlternateName "DreamWorks"))',
+    )
+    expect(buildDirectoryQuery('service', ' Example "Streaming" '))
+      .toBe('(/Service/DisplayName "Example \\"Streaming\\"")')
+  })
+
+  it('passes expressions through', () => {
+    const expr = `(/Service/ParentParty ${studios})`
+    expect(buildDirectoryQuery('service', expr)).toBe(expr)
+    expect(() => buildDirectoryQuery('party', ' ')).toThrow('Empty party query')
+  })
+})
+
+describe('queryParties and queryServices', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('finds parties by name', async () => {
+    const { totalMatches, results } = await eidr.queryParties('dreamworks')
+    expect(totalMatches).toBe(1)
+    expect(results[0].ID).toBe(ids.party)
+    expect(results[0].PartyName!.AlternateName)
+      .toEqual(['DreamWorks Animation SKG'])
+  })
+
+  it('finds parties by alternate name', async () => {
+    const { results } = await eidr.queryParties('animation skg')
+    expect(results.map((p) => p.ID)).toEqual([ids.party])
+  })
+
+  it('finds parties by expression', async () => {
+    const { results } = await eidr.queryParties('(/Party/Active IS "true")')
+    expect(results.map((p) => p.ID)).toEqual([ids.party, studios])
+  })
+
+  it('pages results', async () => {
+    const expr = '(/Party/ID EXISTS)'
+    const page1 = await eidr.queryParties(expr, { pageSize: 1 })
+    const page2 = await eidr.queryParties(expr, { pageSize: 1, pageNumber: 2 })
+    expect(page1.totalMatches).toBe(2)
+    expect([...page1.results, ...page2.results].map((p) => p.ID))
+      .toEqual([ids.party, studios])
+  })
+
+  it('finds services', async () => {
+    const byName = await eidr.queryServices('Example Streaming')
+    expect(byName.results).toEqual([{
+      ID: ids.service,
+      DisplayName: 'Example Streaming',
+      ParentParty: studios,
+      Active: 'true',
+    }])
+    const byParent = await eidr.queryServices(
+      `(/Service/ParentParty ${studios})`,
+    )
+    expect(byParent.results.map((s) => s.ID)).toEqual([ids.service])
+  })
+
+  it('returns empty results', async () => {
+    expect(await eidr.queryServices('nothing'))
+      .toEqual({ totalMatches: 0, results: [] })
+  })
+
+  it('rejects empty queries', async () => {
+    await expect(eidr.queryParties(''))
+      .rejects.toMatchObject({ status: 400 })
+  })
+})
+
+describe('resolveAssociatedOrgs', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('resolves the associated orgs of a record', async () => {
+    const orgs = await eidr.resolveAssociatedOrgs(ids.movie)
+    expect(orgs).toHaveLength(1)
+    expect(orgs[0]).toMatchObject({
+      role: 'producer',
+      organizationId: ids.party,
+      party: { ID: ids.party },
+    })
+    expect(orgs[0].org['md:DisplayName']).toBeDefined()
+  })
+
+  it('flags missing parties and orgs without IDs', async () => {
+    const record = await eidr.resolve(ids.movie)
+    const orgs = await eidr.resolveAssociatedOrgs({
+      ...record,
+      AssociatedOrg: [
+        { $: { role: 'distributor' }, DisplayName: 'Unknown' },
+        { $: { organizationID: '10.5237/FFFF-FFFF', role: 'producer' } },
+        ...record.AssociatedOrg!,
+      ],
+    })
+    expect(orgs).toMatchObject([
+      { role: 'distributor' },
+      { organizationId: '10.5237/FFFF-FFFF', missing: true },
+      { organizationId: ids.party, party: { ID: ids.party } },
+    ])
+    expect(orgs[0].organizationId).toBeUndefined()
+    expect(orgs[0].missing).toBeUndefined()
+  })
+
+  it('flags invalid organization IDs', async () => {
+    const record = await eidr.resolve(ids.movie)
+    const orgs = await eidr.resolveAssociatedOrgs({
+      ...record,
+      AssociatedOrg: [
+        { $: { organizationID: 'not-an-id', role: 'distributor' } },
+        { $: { organizationID: ids.edit, role: 'producer' } },
+        ...record.AssociatedOrg!,
+      ],
+    })
+    expect(orgs).toMatchObject([
+      { organizationId: 'not-an-id', invalid: true },
+      { organizationId: ids.edit, invalid: true },
+      { organizationId: ids.party, party: { ID: ids.party } },
+    ])
+    expect(orgs[0].missing).toBeUndefined()
+    expect(orgs[2].invalid).toBeUndefined()
+  })
+})
@@ -0,0 +1,229 @@
+import http from 'http'
+import {
+  EIDRAuthenticationError,
+  EIDRConnector,
+  EIDRError,
+  EIDRInvalidIdError,
+  EIDRInvalidQueryError,
+  EIDRMalformedResponseError,
+  EIDRNotFoundError,
+  EIDRThrottledError,
+  EIDRUnavailableError,
+  MockEIDRServer,
+  Q,
+  buildJsonQuery,
+  isNotFound,
+} from '../src'
+import { registryError } from '../src/errors'
+import { createApp, credentials, ids, startMock } from './helpers'
+
+describe('registry errors', () => {
+  let server: MockEIDRServer
+  let endpoint: string
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, endpoint, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('reports records that are not found', async () => {
+    const unknown = '10.5240/0000-0000-0000-0000-0000-X'
+    const error = await eidr.resolve(unknown).catch((e) => e)
+    expect(error).toBeInstanceOf(EIDRNotFoundError)
+    expect(error).toBeInstanceOf(EIDRError)
+    expect(error).toMatchObject({
+      name: 'EIDRNotFoundError',
+      message: 'EIDRConnector: Error 3 not found',
+      status: 404,
+      code: 3,
+      type: 'not found',
+      operation: 'resolve',
+    })
+    expect(isNotFound(error)).toBe(true)
+    await expect(eidr.resolve(ids.party.replace('1A2B', '0000')))
+      .rejects.toBeInstanceOf(EIDRNotFoundError)
+    await expect(eidr.graphTraversal(unknown, 'GetParent' as any))
+      .rejects.toMatchObject({ status: 404, operation: 'graphTraversal' })
+    expect(isNotFound(new Error('EIDRConnector: Error 3 not found')))
+      .toBe(false)
+  })
+
+  it('reports invalid IDs', async () => {
+    await expect(eidr.resolve('10.5240/XXXX'))
+      .rejects.toBeInstanceOf(EIDRInvalidIdError)
+    await expect(eidr.resolve('10.5238/1A2B-3C4D'))
+      .rejects.toMatchObject({ status: 400, operation: 'resolve' })
+    await expect(eidr.findByAlternateId('IMDB', ' '))
+      .rejects.toMatchObject({
+        name: 'EIDRInvalidIdError',
+        operation: 'findByAlternateId',
+      })
+    await expect(eidr.getStatus('abc')).rejects.toMatchObject({
+      name: 'EIDRInvalidIdError',
+      operation: 'getStatus',
+    })
+    await expect(eidr.promote('10.5240/1')).rejects.toMatchObject({
+      name: 'EIDRInvalidIdError',
+      message: 'EIDRConnector: Invalid modification',
+      operation: 'modify',
+    })
+  })
+
+  it('reports invalid queries', async () => {
+    const error = await eidr.query('(/FullMetadata/BaseObjectData/ID')
+      .catch((e) => e)
+    expect(error).toBeInstanceOf(EIDRInvalidQueryError)
+    expect(error).toMatchObject({
+      status: 400,
+      code: 2,
+      type: 'invalid request',
+      operation: 'query',
+    })
+    expect(() => buildJsonQuery({ id: { words: ' ' } }))
+      .toThrow(EIDRInvalidQueryError)
+    expect(() => Q.org().exists()).toThrow(EIDRInvalidQueryError)
+    await expect(eidr.query(42 as any))
+      .rejects.toMatchObject({ name: 'EIDRInvalidQueryError', status: 400 })
+    await expect(eidr.findDuplicates({ title: ' ' })).rejects.toMatchObject({
+      name: 'EIDRInvalidQueryError',
+      operation: 'findDuplicates',
+    })
+    await expect(eidr.queryAll('(/ID EXISTS)', { limit: -1 }).next())
+      .rejects.toMatchObject({
+        name: 'EIDRInvalidQueryError',
+        operation: 'queryAll',
+      })
+  })
+
+  it('reports invalid input of other actions', async () => {
+    await expect(eidr.register({ kind: 'Other' } as any))
+      .rejects.toMatchObject({
+        name: 'EIDRError',
+        status: 400,
+        operation: 'register',
+      })
+    await expect(eidr.getHierarchy(ids.series, { depth: -1 }))
+      .rejects.toMatchObject({ status: 400, operation: 'getHierarchy' })
+    await expect(eidr.resolveMany([ids.movie], { concurrency: 0 }))
+      .rejects.toMatchObject({ status: 400, operation: 'resolveMany' })
+  })
+
+  it('reports missing credentials', async () => {
+    const anonymous = new EIDRConnector(createApp(), { endpoint })
+    await expect(anonymous.query('(/ID EXISTS)'))
+      .rejects.toBeInstanceOf(EIDRAuthenticationError)
+    const invalid = { ...credentials, userId: ' ' }
+    expect(() => new EIDRConnector(createApp(), invalid))
+      .toThrow(EIDRAuthenticationError)
+  })
+
+  it('maps registry status codes', () => {
+    expect(registryError({ Code: '4', Type: 'authentication failure' }))
+      .toMatchObject({ name: 'EIDRAuthenticationError', status: 401 })
+    expect(registryError({ Code: '5', Type: 'authorization failure' }))
+      .toMatchObject({ name: 'EIDRAuthorizationError', status: 403 })
+    expect(registryError({ Code: '2', Type: 'invalid request' }, 'register'))
+      .toMatchObject({ name: 'EIDRError', status: 400 })
+    expect(registryError({ Code: '9', Type: 'server busy' }))
+      .toMatchObject({ name: 'EIDRUnavailableError', status: 503, code: 9 })
+    expect(registryError({ Code: '8', Type: 'throttled' }))
+      .toBeInstanceOf(EIDRThrottledError)
+    expect(registryError({ Code: '7', Type: 'other', Details: 'Oops' }))
+      .toMatchObject({ status: 500, details: 'Oops' })
+  })
+})
+
+describe('HTTP errors', () => {
+  let api: http.Server
+  let reply: (res: http.ServerResponse) => void
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    api = http.createServer((req, res) => reply(res))
+    await new Promise<void>((resolve) => api.listen(0, resolve))
+    const { port } = api.address() as { port: number }
+    eidr = new EIDRConnector(createApp(), {
+      ...credentials,
+      endpoint: `http://localhost:${port}/EIDR/`,
+      retries: 0,
+    })
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => api.close(resolve))
+  })
+
+  it('maps HTTP statuses', async () => {
+    const respond = (status: number) => reply = (res) => {
+      res.writeHead(status)
+      res.end()
+    }
+    respond(429)
+    await expect(eidr.resolve(ids.movie)).rejects.toMatchObject({
+      name: 'EIDRThrottledError',
+      status: 429,
+      operation: 'resolve',
+    })
+    respond(503)
+    await expect(eidr.query('(/ID EXISTS)'))
+      .rejects.toBeInstanceOf(EIDRUnavailableError)
+    respond(401)
+    await expect(eidr.resolve(ids.movie))
+      .rejects.toBeInstanceOf(EIDRAuthenticationError)
+    respond(404)
+    const error = await eidr.resolve(ids.movie).catch((e) => e)
+    expect(error).toBeInstanceOf(EIDRNotFoundError)
+    expect(isNotFound(error)).toBe(true)
+    respond(418)
+    await expect(eidr.resolve(ids.movie))
+      .rejects.toMatchObject({ name: 'EIDRError', status: 418 })
+  })
+
+  it('redacts secrets from errors', async () => {
+    reply = (res) => {
+      res.writeHead(500, `Invalid password ${credentials.password}`)
+      res.end()
+    }
+    await expect(eidr.resolve(ids.movie)).rejects.toMatchObject({
+      details: 'HTTP error accessing EIDR registry API: ' +
+        '500 Invalid password [REDACTED]',
+    })
+
+    const other = { userId: 'other', partyId: ids.party, password: 'p4ss' }
+    reply = (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/xml' })
+      res.end('<Response><Status><Code>2</Code><Type>invalid request</Type>' +
+        '<Details>Invalid password p4ss in Eidr other:10.5237/1A2B-3C4D:' +
+        'c2hhZG93</Details></Status></Response>')
+    }
+    await expect(eidr.query('(/ID EXISTS)', {}, other)).rejects.toMatchObject({
+      status: 400,
+      details: 'Invalid password [REDACTED] in ' +
+        'Eidr other:10.5237/1A2B-3C4D:[REDACTED]',
+    })
+  })
+
+  it('reports malformed responses', async () => {
+    reply = (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/xml' })
+      res.end('<Response><Unexpected/></Response>')
+    }
+    await expect(eidr.resolve(ids.movie)).rejects.toMatchObject({
+      name: 'EIDRMalformedResponseError',
+      status: 502,
+    })
+    await expect(eidr.query('(/ID EXISTS)'))
+      .rejects.toBeInstanceOf(EIDRMalformedResponseError)
+
+    reply = (res) => {
+      res.writeHead(200, { 'Content-Type': 'text/xml' })
+      res.end('<Response><Status>')
+    }
+    await expect(eidr.resolve(ids.movie))
+      .rejects.toBeInstanceOf(EIDRMalformedResponseError)
+  })
+})
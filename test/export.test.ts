@@ -0,0 +1,197 @@
+import {
+  EIDRConnector,
+  FullMetadata,
+  MockEIDRServer,
+  exportLines,
+  exportRecords,
+  flattenRecord,
+  selectValues,
+} from '../src'
+import { ids, startMock } from './helpers'
+
+async function collect(lines: AsyncIterable<string>) {
+  const all: string[] = []
+  for await (const line of lines) {
+    all.push(line)
+  }
+  return all
+}
+
+describe('selectValues', () => {
+  const record = {
+    ID: '10.5240/1A2B-3C4D-5E6F-7081-92A3-0',
+    ResourceName: { _: 'Abominable', $: { lang: 'en' } },
+    AlternateID: [
+      { _: 'tt6324278', $: { 'xsi:type': 'IMDB' } },
+      { _: 'ABOM-0001', $: { 'xsi:type': 'Proprietary', domain: 'a.com' } },
+    ],
+    Credits: {
+      Actor: [
+        { 'md:DisplayName': 'Chloe Bennet' },
+        { 'md:DisplayName': 'Albert Tsai' },
+      ],
+      Director: [{ DisplayName: 'Jill Culton' }],
+    },
+    ExtraObjectMetadata: {
+      EpisodeInfo: { SequenceInfo: { DistributionNumber: { value: 3 } } },
+    },
+  }
+
+  it('selects text values', () => {
+    expect(selectValues(record, 'ID')).toEqual([record.ID])
+    expect(selectValues(record, 'ResourceName')).toEqual(['Abominable'])
+    expect(selectValues(record, 'ResourceName.@lang')).toEqual(['en'])
+    expect(selectValues(record, 'Nothing.Here')).toEqual([])
+  })
+
+  it('selects repeated values', () => {
+    expect(selectValues(record, 'AlternateID'))
+      .toEqual(['tt6324278', 'ABOM-0001'])
+    expect(selectValues(record, 'Credits.Actor.DisplayName'))
+      .toEqual(['Chloe Bennet', 'Albert Tsai'])
+    expect(selectValues(record, 'AlternateID[@xsi:type=Proprietary].@domain'))
+      .toEqual(['a.com'])
+  })
+
+  it('selects with wildcards', () => {
+    expect(selectValues(record, '*.DisplayName'))
+      .toEqual(['Chloe Bennet', 'Albert Tsai', 'Jill Culton'])
+    expect(selectValues(record, 'Credits.*.md:DisplayName'))
+      .toEqual(['Chloe Bennet', 'Albert Tsai'])
+    expect(selectValues(record, '*.DistributionNumber')).toEqual(['3'])
+  })
+
+  it('rejects invalid paths', () => {
+    expect(() => selectValues(record, '')).toThrow('Invalid path')
+    expect(() => selectValues(record, 'AlternateID[')).toThrow(
+      'Invalid path segment: AlternateID[',
+    )
+  })
+})
+
+describe('flattenRecord', () => {
+  const record = {
+    ID: ids.movie,
+    AlternateID: [{ _: 'a' }, { _: 'b' }, { _: 'c' }],
+  }
+
+  it('applies repeat rules', () => {
+    expect(flattenRecord(record, [
+      'ID',
+      { header: 'Join', path: 'AlternateID', separator: '|' },
+      { header: 'First', path: 'AlternateID', repeat: 'first' },
+      { header: 'Count', path: 'AlternateID', repeat: 'count' },
+      { header: 'Alt', path: 'AlternateID', repeat: 'columns', max: 2 },
+      { header: 'Array', path: 'AlternateID', repeat: 'array' },
+    ])).toEqual({
+      ID: ids.movie,
+      Join: 'a|b|c',
+      First: 'a',
+      Count: 3,
+      'Alt 1': 'a',
+      'Alt 2': 'b',
+      Array: ['a', 'b', 'c'],
+    })
+  })
+
+  it('flattens ID only results', () => {
+    expect(flattenRecord(ids.movie, ['ID', 'Status']))
+      .toEqual({ ID: ids.movie, Status: '' })
+  })
+
+  it('rejects invalid columns', () => {
+    expect(() => flattenRecord(record, ['ID', { header: 'ID', path: 'x' }]))
+      .toThrow('Duplicate column: ID')
+    expect(() => flattenRecord(record, [
+      { path: 'ID', repeat: 'columns', max: 0 },
+    ])).toThrow('Invalid max: 0')
+  })
+})
+
+describe('exportLines', () => {
+  const records = [
+    { ID: 'a', ResourceName: { _: 'Hello, "World"' } },
+    { ID: 'b', ResourceName: { _: 'Line\nbreak' } },
+  ]
+  const columns = ['ID', { header: 'Title', path: 'ResourceName' }]
+
+  it('exports CSV', async () => {
+    expect(await collect(exportLines(records, { columns }))).toEqual([
+      'ID,Title\r\n',
+      'a,"Hello, ""World"""\r\n',
+      'b,"Line\nbreak"\r\n',
+    ])
+    expect(await collect(exportLines(records, { columns, header: false })))
+      .toHaveLength(2)
+  })
+
+  it('exports JSON Lines', async () => {
+    expect(await collect(exportLines(records, { format: 'jsonl', columns })))
+      .toEqual([
+        '{"ID":"a","Title":"Hello, \\"World\\""}\n',
+        '{"ID":"b","Title":"Line\\nbreak"}\n',
+      ])
+  })
+
+  it('consumes records one at a time', async () => {
+    let pulled = 0
+    async function* generate() {
+      for (let i = 0; i < 1000; i++) {
+        pulled++
+        yield { ID: String(i) }
+      }
+    }
+
+    const lines = exportLines(generate(), { columns: ['ID'] })
+    await lines.next()
+    await lines.next()
+    expect(pulled).toBe(1)
+    await lines.return(undefined)
+  })
+
+  it('rejects invalid formats', async () => {
+    await expect(collect(exportLines([], { format: 'xls' as 'csv' })))
+      .rejects.toThrow('Invalid export format: xls')
+  })
+})
+
+describe('exportRecords', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('streams resolved records with the default columns', async () => {
+    const movie = await eidr.resolve(ids.movie) as FullMetadata
+    const chunks: string[] = []
+    for await (const chunk of exportRecords([movie])) {
+      chunks.push(String(chunk))
+    }
+    expect(chunks.join('')).toBe(
+      'ID,Title,ReferentType,StructuralType,Mode,ReleaseDate,' +
+      'ApproximateLength,OriginalLanguage,CountryOfOrigin,Directors,' +
+      'Actors,IMDb,Status\r\n' +
+      `${ids.movie},Abominable,Movie,Abstraction,AudioVisual,2019-09-27,` +
+      'PT1H37M,en,US,Jill Culton,Chloe Bennet; Albert Tsai,tt6324278,' +
+      'valid\r\n',
+    )
+  })
+
+  it('streams query iterations', async () => {
+    const lines = await collect(exportLines(
+      eidr.queryAll({ title: { words: 'example' } }, { pageSize: 1 }),
+      { format: 'jsonl', columns: ['ID', 'ReferentType'] },
+    ))
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      { ID: ids.series, ReferentType: 'Series' },
+      { ID: ids.season1, ReferentType: 'Season' },
+      { ID: ids.season2, ReferentType: 'Season' },
+    ])
+  })
+})
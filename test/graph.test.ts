@@ -0,0 +1,209 @@
+import {
+  EIDRConnector,
+  EIDRMalformedResponseError,
+  GraphTraversalTypes,
+  MockEIDRServer,
+  RelationshipGraph,
+} from '../src'
+import { ids, startMock } from './helpers'
+
+// Invalid traversal types, to test runtime validation
+const invalidTraversal = (type: string) => type as GraphTraversalTypes
+
+describe('graphTraversal', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('gets the parent', async () => {
+    const parent = await eidr.graphTraversal(
+      ids.episode21,
+      GraphTraversalTypes.GetParent,
+    )
+    expect(parent).toMatchObject({ ID: ids.season2 })
+  })
+
+  it('gets the children', async () => {
+    const children = await eidr.graphTraversal(
+      ids.series,
+      GraphTraversalTypes.GetChildren,
+    )
+    expect(children.map((c) => c.ID)).toEqual([ids.season1, ids.season2])
+  })
+
+  it('finds ancestors', async () => {
+    const ancestors = await eidr.graphTraversal(
+      ids.episode12,
+      GraphTraversalTypes.FindAncestors,
+    )
+    expect(ancestors.map((a) => a.ID)).toEqual([ids.season1, ids.series])
+  })
+
+  it('gets the leaf descendants', async () => {
+    const leaves = await eidr.graphTraversal(
+      ids.series,
+      GraphTraversalTypes.GetLeafDescendants,
+    )
+    expect(leaves.map((l) => l.ID))
+      .toEqual([ids.episode11, ids.episode12, ids.episode21])
+  })
+
+  it('gets the remotest ancestor', async () => {
+    const ancestor = await eidr.graphTraversal(
+      ids.episode21,
+      GraphTraversalTypes.GetRemotestAncestor,
+    )
+    expect(ancestor).toMatchObject({ ID: ids.series })
+  })
+
+  it('returns null or empty lists when there are no results', async () => {
+    const parent = await eidr.graphTraversal(
+      ids.starWars,
+      GraphTraversalTypes.GetParent,
+    )
+    expect(parent).toBeNull()
+    const children = await eidr.graphTraversal(
+      ids.episode11,
+      GraphTraversalTypes.GetChildren,
+    )
+    expect(children).toEqual([])
+  })
+
+  it('returns lists of a single record', async () => {
+    const children = await eidr.graphTraversal(
+      ids.movie,
+      GraphTraversalTypes.GetChildren,
+    )
+    expect(children.map((c) => c.ID)).toEqual([ids.edit])
+  })
+
+  it('gets lightweight relationships', async () => {
+    const graph = await eidr.graphTraversal(
+      ids.season1,
+      GraphTraversalTypes.GetLightweightRelationships,
+    )
+    expect(graph).toBeInstanceOf(RelationshipGraph)
+    expect(graph.root).toBe(ids.season1)
+    expect(graph.getEdges()).toEqual([
+      { source: ids.season1, target: ids.series, type: 'isSeasonOf' },
+      { source: ids.episode11, target: ids.season1, type: 'isEpisodeOf' },
+      { source: ids.episode12, target: ids.season1, type: 'isEpisodeOf' },
+    ])
+    expect(graph.getNodes().map((n) => n.id))
+      .toEqual([ids.season1, ids.series, ids.episode11, ids.episode12])
+  })
+
+  it('gets relationships of edits', async () => {
+    const graph = await eidr.graphTraversal(
+      ids.edit,
+      GraphTraversalTypes.GetLightweightRelationships,
+    )
+    expect(graph.getEdges())
+      .toEqual([{ source: ids.edit, target: ids.movie, type: 'isEditOf' }])
+  })
+
+  it('rejects invalid traversal types', async () => {
+    await expect(
+      eidr.graphTraversal(ids.series, invalidTraversal('GetCousins')),
+    ).rejects.toThrow('EIDRConnector: Invalid graph traversal request')
+  })
+
+  it('reports unknown IDs', async () => {
+    await expect(eidr.graphTraversal(
+      '10.5240/0000-0000-0000-0000-0000-X',
+      GraphTraversalTypes.GetChildren,
+    )).rejects.toThrow('EIDRConnector: Error 3 not found')
+  })
+})
+
+describe('RelationshipGraph', () => {
+  const season = '10.5240/0000-0000-0000-0000-0001-S'
+  const series = '10.5240/0000-0000-0000-0000-0002-S'
+  const episode = '10.5240/0000-0000-0000-0000-0003-E'
+
+  it('parses registry responses', () => {
+    const graph = RelationshipGraph.fromResponse({
+      ID: season,
+      Relationship: {
+        Type: ['isSeasonOf', 'isPackagingOf'],
+        Source: season,
+        Target: series,
+      },
+    })
+    expect(graph.getEdges()).toEqual([
+      { source: season, target: series, type: 'isSeasonOf' },
+      { source: season, target: series, type: 'isPackagingOf' },
+    ])
+    let error: unknown
+    try {
+      RelationshipGraph.fromResponse({
+        Relationship: [{ Type: 'isEditOf', Source: season }],
+      })
+    } catch (e) {
+      error = e
+    }
+    expect(error).toBeInstanceOf(EIDRMalformedResponseError)
+    expect(error).toMatchObject({
+      status: 502,
+      details: 'Invalid relationship: missing source or target',
+      operation: 'graphTraversal',
+    })
+  })
+
+  it('merges graphs', () => {
+    const a = new RelationshipGraph(season, [
+      { source: season, target: series, type: 'isSeasonOf' },
+    ])
+    const b = new RelationshipGraph(episode, [
+      { source: episode, target: season, type: 'isEpisodeOf' },
+      { source: season, target: series, type: 'isSeasonOf' },
+    ])
+    b.addNode(series, 'The Show')
+    a.merge(b)
+    expect(a.getEdges()).toHaveLength(2)
+    expect(a.getNodes()).toEqual([
+      { id: season },
+      { id: series, label: 'The Show' },
+      { id: episode },
+    ])
+    expect(a.edgesOf(season, 'incoming'))
+      .toEqual([{ source: episode, target: season, type: 'isEpisodeOf' }])
+    expect(a.edgesOf(season)).toHaveLength(2)
+  })
+
+  it('exports JSON', () => {
+    const graph = new RelationshipGraph(episode, [
+      { source: episode, target: season, type: 'isEpisodeOf' },
+    ])
+    graph.addNode(episode, 'Pilot')
+    const json = JSON.parse(JSON.stringify(graph))
+    expect(json).toEqual({
+      root: episode,
+      nodes: [{ id: episode, label: 'Pilot' }, { id: season }],
+      edges: [{ source: episode, target: season, type: 'isEpisodeOf' }],
+    })
+    expect(RelationshipGraph.fromJSON(json).toJSON()).toEqual(json)
+  })
+
+  it('exports DOT', () => {
+    const graph = new RelationshipGraph(episode, [
+      { source: episode, target: season, type: 'isEpisodeOf' },
+    ])
+    graph.addNode(episode, 'The "Pilot"')
+    expect(graph.toDot()).toBe([
+      `digraph "${episode}" {`,
+      `  "${episode}" [label="The \\"Pilot\\"\\n${episode}", style=bold];`,
+      `  "${season}" [label="${season}"];`,
+      `  "${episode}" -> "${season}" [label="isEpisodeOf"];`,
+      '}',
+      '',
+    ].join('\n'))
+  })
+})
@@ -0,0 +1,77 @@
+import { EventConfiguration, Reshuffle } from 'reshuffle-base-connector'
+import { EIDRConnector, MockEIDRServer } from '../src'
+import { checkDigit } from '../src/validate'
+
+export const ids = {
+  movie: '10.5240/1A2B-3C4D-5E6F-7081-92A3-0',
+  edit: '10.5240/1A2B-3C4D-5E6F-7081-92B4-U',
+  series: '10.5240/2B3C-4D5E-6F70-8192-A3B4-C',
+  season1: '10.5240/2B3C-4D5E-6F70-8192-A3C5-6',
+  season2: '10.5240/2B3C-4D5E-6F70-8192-A3D6-Z',
+  episode11: '10.5240/2B3C-4D5E-6F70-8192-A3E7-T',
+  episode12: '10.5240/2B3C-4D5E-6F70-8192-A3F8-N',
+  episode21: '10.5240/2B3C-4D5E-6F70-8192-A409-1',
+  starWars: '10.5240/3C4D-5E6F-7081-92A3-B4C5-G',
+  party: '10.5237/1A2B-3C4D',
+  service: '10.5239/9A0B-1C2D',
+}
+
+// Canonical content ID with the given suffix and its check character
+export function contentId(suffix: string): string {
+  return `10.5240/${suffix}-${checkDigit(suffix)}`
+}
+
+export const credentials = {
+  userId: 'user',
+  partyId: '10.5237/5E6F-7081',
+  password: 'secret',
+}
+
+type EventHandler = (event: any) => unknown
+
+// Minimal Reshuffle app with event handlers and a persistent store. Pass
+// the same store to another app to simulate a restart
+export function createApp(store = new Map<string, any>()): Reshuffle {
+  const handlers: Record<string, EventHandler[]> = {}
+  const app = {
+    register() { return app },
+    when(event: EventConfiguration, handler: EventHandler) {
+      handlers[event.id] = [...(handlers[event.id] || []), handler]
+      return app
+    },
+    async handleEvent(eventId: string, event: any) {
+      for (const handler of handlers[eventId] || []) {
+        await handler(event)
+      }
+      return eventId in handlers
+    },
+    getPersistentStore() {
+      return {
+        get: async (key: string) => store.get(key),
+        set: async (key: string, value: any) => {
+          store.set(key, JSON.parse(JSON.stringify(value)))
+          return value
+        },
+        del: async (key: string) => { store.delete(key) },
+        list: async () => Array.from(store.keys()),
+      }
+    },
+    getLogger() { return console },
+  }
+  return app as unknown as Reshuffle
+}
+
+export async function startMock(
+  options: Record<string, any> = {},
+  serverOptions: Record<string, any> = {},
+) {
+  const server = new MockEIDRServer(serverOptions)
+  const endpoint = await server.start()
+  const eidr = new EIDRConnector(createApp(), {
+    ...credentials,
+    endpoint,
+    retries: 0,
+    ...options,
+  })
+  return { server, endpoint, eidr }
+}
@@ -0,0 +1,200 @@
+import { EIDRConnector, HierarchyNode, MockEIDRServer } from '../src'
+import { contentId, ids, startMock } from './helpers'
+
+function episode(id: string, parent: string, sequence: string) {
+  return `<FullMetadata xmlns:md="http://www.movielabs.com/schema/md/v2.1/md">
+  <BaseObjectData>
+    <ID>${id}</ID>
+    <StructuralType>Abstraction</StructuralType>
+    <ReferentType>TV</ReferentType>
+    <ResourceName lang="en">Episode ${id}</ResourceName>
+  </BaseObjectData>
+  <ExtraObjectMetadata>
+    <EpisodeInfo>
+      <Parent>${parent}</Parent>
+      <SequenceInfo>${sequence}</SequenceInfo>
+    </EpisodeInfo>
+  </ExtraObjectMetadata>
+</FullMetadata>`
+}
+
+// IDs of the nodes of a tree, depth first
+function treeIds(node: HierarchyNode): string[] {
+  return [node.id, ...node.children.map(treeIds).flat()]
+}
+
+describe('getHierarchy', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('builds the tree of a series', async () => {
+    const tree = await eidr.getHierarchy(ids.series)
+    expect(tree).toMatchObject({
+      id: ids.series,
+      kind: 'series',
+      title: 'The Example Show',
+      children: [
+        { id: ids.season1, kind: 'season', sequence: 1 },
+        { id: ids.season2, kind: 'season', sequence: 2 },
+      ],
+    })
+    expect(tree.children[0].children).toMatchObject([
+      { id: ids.episode11, kind: 'episode', title: 'Pilot', sequence: 1 },
+      { id: ids.episode12, kind: 'episode', sequence: 2 },
+    ])
+    expect(tree.children[0].children[0].record!.ID).toBe(ids.episode11)
+    expect(treeIds(tree)).toEqual([
+      ids.series,
+      ids.season1,
+      ids.episode11,
+      ids.episode12,
+      ids.season2,
+      ids.episode21,
+    ])
+  })
+
+  it('builds the tree of an abstraction', async () => {
+    const tree = await eidr.getHierarchy(ids.movie)
+    expect(tree.kind).toBe('other')
+    expect(tree.children).toMatchObject([
+      { id: ids.edit, kind: 'edit', children: [] },
+    ])
+  })
+
+  it('limits the depth', async () => {
+    const tree = await eidr.getHierarchy(ids.series, { depth: 1 })
+    expect(treeIds(tree)).toEqual([ids.series, ids.season1, ids.season2])
+    expect((await eidr.getHierarchy(ids.series, { depth: 0 })).children)
+      .toEqual([])
+    await expect(eidr.getHierarchy(ids.series, { depth: -1 }))
+      .rejects.toThrow('EIDRConnector: Invalid depth')
+  })
+
+  it('includes only the given kinds', async () => {
+    const tree = await eidr.getHierarchy(ids.series, { include: ['season'] })
+    expect(treeIds(tree)).toEqual([ids.series, ids.season1, ids.season2])
+  })
+
+  it('hoists included descendants of excluded records', async () => {
+    const tree = await eidr.getHierarchy(ids.series, { include: ['episode'] })
+    expect(tree).toMatchObject({
+      id: ids.series,
+      children: [
+        { id: ids.episode11, kind: 'episode', children: [] },
+        { id: ids.episode12, kind: 'episode', children: [] },
+        { id: ids.episode21, kind: 'episode', children: [] },
+      ],
+    })
+    expect((await eidr.getHierarchy(ids.series, {
+      include: ['episode'],
+      depth: 1,
+    })).children).toEqual([])
+    expect((await eidr.getHierarchy(ids.series, {
+      include: ['manifestation'],
+    })).children).toEqual([])
+  })
+
+  it('orders children by distribution number and house sequence',
+    async () => {
+      const special = contentId('2B3C-4D5E-6F70-8192-FFF0')
+      const unnumbered = contentId('2B3C-4D5E-6F70-8192-0000')
+      await server.addRecord(episode(special, ids.season2,
+        '<md:DistributionNumber>0</md:DistributionNumber>'))
+      await server.addRecord(episode(unnumbered, ids.season2,
+        '<md:HouseSequence>900</md:HouseSequence>'))
+      const tree = await eidr.getHierarchy(ids.season2)
+      expect(tree.children.map((c) => c.id))
+        .toEqual([special, ids.episode21, unnumbered])
+    })
+
+  it('marks cycles', async () => {
+    const mock = await startMock()
+    try {
+      const a = contentId('4D5E-6F70-8192-A3B4-0001')
+      const b = contentId('4D5E-6F70-8192-A3B4-0002')
+      await mock.server.addRecord(episode(a, b, ''))
+      await mock.server.addRecord(episode(b, a, ''))
+      const tree = await mock.eidr.getHierarchy(a)
+      expect(tree).toMatchObject({
+        id: a,
+        children: [{ id: b, children: [{ id: a, cycle: true, children: [] }] }],
+      })
+    } finally {
+      await mock.server.stop()
+    }
+  })
+
+  it('rejects missing roots', async () => {
+    await expect(eidr.getHierarchy(contentId('0000-0000-0000-0000-0000')))
+      .rejects.toThrow('EIDRConnector: Error 3 not found')
+  })
+
+  it('bounds the number of concurrent requests', async () => {
+    const mock = await startMock()
+    let active = 0
+    let max = 0
+    const patched = mock.server as any
+    const handle = patched.handle.bind(patched)
+    patched.handle = async (...args: any[]) => {
+      active++
+      max = Math.max(max, active)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      try {
+        return await handle(...args)
+      } finally {
+        active--
+      }
+    }
+    try {
+      await mock.eidr.getHierarchy(ids.series, { concurrency: 1 })
+      expect(max).toBe(1)
+    } finally {
+      await mock.server.stop()
+    }
+  })
+})
+
+describe('getAncestry', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('returns the breadcrumb of an episode', async () => {
+    const breadcrumb = await eidr.getAncestry(ids.episode12)
+    expect(breadcrumb).toMatchObject([
+      { id: ids.series, kind: 'series' },
+      { id: ids.season1, kind: 'season', sequence: 1 },
+      { id: ids.episode12, kind: 'episode', sequence: 2 },
+    ])
+  })
+
+  it('returns the record itself for roots', async () => {
+    const breadcrumb = await eidr.getAncestry(ids.starWars)
+    expect(breadcrumb.map((item) => item.id)).toEqual([ids.starWars])
+  })
+
+  it('includes missing parents', async () => {
+    const orphan = contentId('5E6F-7081-92A3-B4C5-0001')
+    const parent = contentId('5E6F-7081-92A3-B4C5-0002')
+    await server.addRecord(episode(orphan, parent, ''))
+    expect(await eidr.getAncestry(orphan)).toMatchObject([
+      { id: parent, missing: true },
+      { id: orphan, kind: 'episode' },
+    ])
+  })
+})
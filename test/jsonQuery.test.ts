@@ -0,0 +1,212 @@
+import { buildJsonQuery } from '../src/jsonQuery'
+
+// Build queries that do not match the JSON query types, to test
+// runtime validation
+const buildInvalid = (query: any) => buildJsonQuery(query)
+
+const base = '/FullMetadata/BaseObjectData'
+const extra = '/FullMetadata/ExtraObjectMetadata'
+const id = '10.5240/75C0-4663-9D6D-C864-1D9B-I'
+
+describe('buildJsonQuery', () => {
+  it('requires a single property', () => {
+    expect(() => buildInvalid({ title: { words: 'star wars' }, length: 3 }))
+      .toThrow('Object must have one single property')
+  })
+
+  it('builds word queries', () => {
+    expect(buildJsonQuery({ title: { words: 'star wars' } })).toBe(
+      `((${base}/ResourceName star) OR (${base}/ResourceName wars))`,
+    )
+  })
+
+  it('builds word queries over multiple elements', () => {
+    expect(buildJsonQuery({ anytitle: { words: 'star wars' } })).toBe(
+      `((${base}/ResourceName star) OR ` +
+      `(${base}/ResourceName wars) OR ` +
+      `(${base}/AlternateResourceName star) OR ` +
+      `(${base}/AlternateResourceName wars))`,
+    )
+  })
+
+  it('builds AND queries', () => {
+    expect(buildJsonQuery({
+      and: [{ title: { contains: 'star wars' } }, { coo: { exact: 'us' } }],
+    })).toBe(
+      `((${base}/ResourceName "star wars") AND ` +
+      `(${base}/CountryOfOrigin IS "us"))`,
+    )
+  })
+
+  it('builds OR queries', () => {
+    expect(buildJsonQuery({
+      or: [{ title: { contains: 'star wars' } }, { coo: { exact: 'us' } }],
+    })).toBe(
+      `((${base}/ResourceName "star wars") OR ` +
+      `(${base}/CountryOfOrigin IS "us"))`,
+    )
+  })
+
+  it('builds NOT queries', () => {
+    expect(buildJsonQuery({ not: { title: { contains: 'star wars' } } }))
+      .toBe(`(NOT (${base}/ResourceName "star wars"))`)
+  })
+
+  it('builds date queries', () => {
+    expect(buildJsonQuery({ date: { date: '2000' } }))
+      .toBe(`(${base}/ReleaseDate 2000)`)
+    expect(buildJsonQuery({ date: { before: '2000' } }))
+      .toBe(`(${base}/ReleaseDate <= 2000)`)
+    expect(buildJsonQuery({ date: { after: '2000' } }))
+      .toBe(`(${base}/ReleaseDate >= 2000)`)
+  })
+
+  it('builds length queries', () => {
+    expect(buildJsonQuery({ length: { length: 'PT23M' } }))
+      .toBe(`(${base}/ApproximateLength PT23M)`)
+    expect(buildJsonQuery({ length: { maxlength: 'PT23M' } }))
+      .toBe(`(${base}/ApproximateLength <= PT23M)`)
+    expect(buildJsonQuery({ length: { minlength: 'PT23M' } }))
+      .toBe(`(${base}/ApproximateLength >= PT23M)`)
+  })
+
+  it('builds EXISTS queries', () => {
+    expect(buildJsonQuery({ exists: 'coo' }))
+      .toBe(`(${base}/CountryOfOrigin EXISTS)`)
+    expect(() => buildInvalid({ exists: 'actor' }))
+      .toThrow('Invalid element for EXISTS query: actor')
+  })
+
+  it('builds isroot queries', () => {
+    const notRoot =
+      `((${extra}/SeasonInfo EXISTS) OR ` +
+      `(${extra}/ClipInfo EXISTS) OR ` +
+      `(${extra}/ManifestationInfo EXISTS) OR ` +
+      `(${extra}/EpisodeInfo EXISTS) OR ` +
+      `(${extra}/EditInfo EXISTS))`
+    expect(buildJsonQuery({ isroot: true })).toBe(`(NOT ${notRoot})`)
+    expect(buildJsonQuery({ isroot: false })).toBe(notRoot)
+  })
+
+  it('builds parent queries', () => {
+    expect(buildJsonQuery({ parent: id })).toBe(
+      `((${extra}/SeasonInfo/Parent ${id}) OR ` +
+      `(${extra}/ClipInfo/Parent ${id}) OR ` +
+      `(${extra}/ManifestationInfo/Parent ${id}) OR ` +
+      `(${extra}/EpisodeInfo/Parent ${id}) OR ` +
+      `(${extra}/EditInfo/Parent ${id}))`,
+    )
+  })
+
+  it('builds ID queries', () => {
+    const other = '10.5240/1A2B-3C4D-5E6F-7081-92A3-0'
+    expect(buildJsonQuery({ id: { exact: id } }))
+      .toBe(`(${base}/ID ${id})`)
+    expect(buildJsonQuery({ id: { words: `${id} ${other}` } }))
+      .toBe(`((${base}/ID ${id}) OR (${base}/ID ${other}))`)
+  })
+
+  it('normalizes IDs', () => {
+    expect(buildJsonQuery({ parent: `doi:${id.toLowerCase()}` }))
+      .toContain(`(${extra}/SeasonInfo/Parent ${id})`)
+    expect(() => buildJsonQuery({ parent: '10.5240/75C0' }))
+      .toThrow('Invalid parent ID')
+  })
+
+  it('builds date and length ranges', () => {
+    expect(buildJsonQuery({ date: { between: ['2000', '2010-06'] } })).toBe(
+      `((${base}/ReleaseDate >= 2000) AND (${base}/ReleaseDate <= 2010-06))`,
+    )
+    expect(buildJsonQuery({ length: { between: [90, 'PT2H'] } })).toBe(
+      `((${base}/ApproximateLength >= PT90M) AND ` +
+      `(${base}/ApproximateLength <= PT2H))`,
+    )
+    expect(() => buildInvalid({ date: { between: ['2000'] } }))
+      .toThrow('Range must be a [from, to] array')
+  })
+
+  it('converts lengths in minutes to durations', () => {
+    expect(buildJsonQuery({ length: { maxlength: 22.5 } }))
+      .toBe(`(${base}/ApproximateLength <= PT22M30S)`)
+    expect(() => buildJsonQuery({ length: { minlength: -1 } }))
+      .toThrow('Invalid length: -1')
+  })
+
+  it('builds status queries', () => {
+    expect(buildJsonQuery({ status: { exact: 'valid' } }))
+      .toBe(`(${base}/Status IS "valid")`)
+  })
+
+  it('builds in lists', () => {
+    expect(buildJsonQuery({ coo: { in: ['US', 'CA'] } })).toBe(
+      `((${base}/CountryOfOrigin IS "US") OR ` +
+      `(${base}/CountryOfOrigin IS "CA"))`,
+    )
+    expect(buildJsonQuery({ lang: { in: ['en'] } }))
+      .toBe(`(${base}/OriginalLanguage IS "en")`)
+    expect(() => buildJsonQuery({ lang: { in: [] } }))
+      .toThrow('Invalid in list')
+  })
+
+  it('builds org queries', () => {
+    expect(buildJsonQuery({ org: { role: 'producer' } }))
+      .toBe(`(${base}/AssociatedOrg@role IS "producer")`)
+    expect(buildJsonQuery({
+      org: { role: 'producer', contains: 'dreamworks' },
+    })).toBe(
+      `((${base}/AssociatedOrg@role IS "producer") AND ` +
+      `((${base}/AssociatedOrg/DisplayName "dreamworks") OR ` +
+      `(${base}/AssociatedOrg/AlternateName "dreamworks")))`,
+    )
+    expect(buildJsonQuery({ org: { id: '10.5237/1a2b-3c4d' } }))
+      .toBe(`(${base}/AssociatedOrg@organizationID 10.5237/1A2B-3C4D)`)
+    expect(() => buildJsonQuery({ org: { role: 'a b' } }))
+      .toThrow('Invalid org role: a b')
+  })
+
+  it('builds credit queries', () => {
+    expect(buildJsonQuery({ credit: { role: 'writer', exact: 'Jane Doe' } }))
+      .toBe(
+        `((${base}/Credits/Writer/DisplayName IS "Jane Doe") OR ` +
+        `(${base}/Credits/Writer/SortName IS "Jane Doe"))`,
+      )
+    expect(buildJsonQuery({ credit: { words: 'lucas' } })).toBe(
+      `((${base}/Credits/Director/DisplayName lucas) OR ` +
+      `(${base}/Credits/Director/SortName lucas) OR ` +
+      `(${base}/Credits/Actor/DisplayName lucas) OR ` +
+      `(${base}/Credits/Actor/SortName lucas))`,
+    )
+  })
+
+  it('builds path queries', () => {
+    const path = '/FullMetadata/ExtraObjectMetadata/EpisodeInfo/' +
+      'SequenceInfo/DistributionNumber'
+    expect(buildJsonQuery({ path: { path, exact: '1' } }))
+      .toBe(`(${path} IS "1")`)
+    expect(buildJsonQuery({ path: { path, between: [1, 10] } }))
+      .toBe(`((${path} >= 1) AND (${path} <= 10))`)
+    expect(buildJsonQuery({ path: { path, exists: true } }))
+      .toBe(`(${path} EXISTS)`)
+    expect(() => buildJsonQuery({ path: { path: 'Status', exact: 'x' } }))
+      .toThrow('Invalid metadata path: Status')
+  })
+
+  it('escapes quotes in phrases', () => {
+    expect(buildJsonQuery({ title: { contains: 'say "hi" \\ bye' } }))
+      .toBe(`(${base}/ResourceName "say \\"hi\\" \\\\ bye")`)
+    expect(buildJsonQuery({ title: { words: 'this is "it"' } })).toBe(
+      `((${base}/ResourceName this) OR ` +
+      `(${base}/ResourceName "is") OR ` +
+      `(${base}/ResourceName "\\"it\\""))`,
+    )
+  })
+
+  it('rejects invalid elements and operations', () => {
+    expect(() => buildInvalid({ alltitles: { words: 'star wars' } }))
+      .toThrow('Invalid element: alltitles')
+    expect(() => buildInvalid({ title: { like: 'star wars' } }))
+      .toThrow('Invalid text query operation: like')
+    expect(() => buildJsonQuery({ title: { words: ' ' } }))
+      .toThrow('Empty text query word list')
+  })
+})
@@ -0,0 +1,161 @@
+import {
+  BaseObjectDataValue,
+  EIDRConnector,
+  FullMetadata,
+  MockEIDRServer,
+} from '../src'
+import {
+  renderAlias,
+  renderAlternateIDs,
+  renderModifyBase,
+} from '../src/modification'
+import { ids, startMock } from './helpers'
+
+const base: BaseObjectDataValue = {
+  structuralType: 'Abstraction',
+  mode: 'AudioVisual',
+  referentType: 'Movie',
+  resourceName: { value: 'Abominable (2019)', lang: 'en' },
+  originalLanguages: ['en'],
+  releaseDate: '2019-09-27',
+  approximateLength: 'PT1H37M',
+}
+
+const lowercase = ids.movie.toLowerCase()
+
+describe('modification requests', () => {
+  it('sends canonical IDs', () => {
+    expect(renderModifyBase(`doi:${lowercase}`, base))
+      .toContain(`<ID>${ids.movie}</ID>`)
+    expect(renderAlias(lowercase, `https://doi.org/${ids.edit}`))
+      .toContain(`<ID>${ids.movie}</ID><AliasTarget>${ids.edit}</AliasTarget>`)
+  })
+
+  it('rejects invalid modifications', () => {
+    expect(() => renderModifyBase(ids.party, base))
+      .toThrow(`Invalid content ID: ${ids.party}`)
+    expect(() => renderAlias(ids.movie, lowercase))
+      .toThrow('Cannot alias a record to itself')
+    expect(() => renderAlternateIDs('Add', ids.movie, []))
+      .toThrow('Missing alternate IDs')
+    expect(() => renderAlternateIDs('Replace' as 'Add', ids.movie, [
+      { type: 'IMDB', value: 'tt0000001' },
+    ])).toThrow('Invalid list modification: Replace')
+  })
+})
+
+describe('modify actions', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeEach(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterEach(async () => {
+    await server.stop()
+  })
+
+  const full = (id: string) => eidr.resolve(id) as Promise<FullMetadata>
+
+  it('replaces base object data', async () => {
+    expect(await eidr.modifyBase(`doi:${lowercase}`, base, {
+      immediate: true,
+    })).toEqual({ id: ids.movie, status: 'applied' })
+    const record = await full(ids.movie)
+    expect(record).toMatchObject({
+      ID: ids.movie,
+      ResourceName: { _: 'Abominable (2019)' },
+      Status: 'valid',
+    })
+    expect(record.Credits).toBeUndefined()
+    expect(await eidr.resolve(ids.movie, 'Provenance'))
+      .toMatchObject({ LastModificationDate: '2020-01-01T00:00:01Z' })
+  })
+
+  it('adds and removes alternate IDs', async () => {
+    const altid = { type: 'IMDB', value: 'tt0000001' }
+    await eidr.modifyAlternateIds(ids.movie, 'Add', [altid],
+      { immediate: true })
+    const added = await eidr.resolve(ids.movie, 'AlternateIDs')
+    expect(added.AlternateID).toEqual([
+      { _: 'tt6324278', $: { 'xsi:type': 'IMDB' } },
+      {
+        _: 'ABOM-0001',
+        $: { 'xsi:type': 'Proprietary', domain: 'example.com' },
+      },
+      { _: 'tt0000001', $: { 'xsi:type': 'IMDB' } },
+    ])
+
+    await eidr.modifyAlternateIds(ids.movie, 'Remove', [
+      altid,
+      { type: 'IMDB', value: 'tt6324278' },
+    ], { immediate: true })
+    const removed = await eidr.resolve(ids.movie, 'AlternateIDs')
+    expect(removed.AlternateID).toEqual([{
+      _: 'ABOM-0001',
+      $: { 'xsi:type': 'Proprietary', domain: 'example.com' },
+    }])
+  })
+
+  it('adds and removes associated orgs', async () => {
+    await eidr.modifyAssociatedOrgs(ids.movie, 'Add', [
+      { role: 'distributor', displayName: 'Universal Pictures' },
+    ], { immediate: true })
+    expect((await full(ids.movie)).AssociatedOrg).toEqual([
+      {
+        $: { organizationID: ids.party, role: 'producer' },
+        'md:DisplayName': 'DreamWorks Animation',
+      },
+      {
+        $: { role: 'distributor' },
+        'md:DisplayName': 'Universal Pictures',
+      },
+    ])
+
+    await eidr.modifyAssociatedOrgs(ids.movie, 'Remove', [
+      { role: 'producer', organizationId: ids.party },
+    ], { immediate: true })
+    expect((await full(ids.movie)).AssociatedOrg).toEqual([{
+      $: { role: 'distributor' },
+      'md:DisplayName': 'Universal Pictures',
+    }])
+  })
+
+  it('applies pending modifications', async () => {
+    const result = await eidr.modifyAlternateIds(ids.movie, 'Add', [
+      { type: 'IMDB', value: 'tt0000001' },
+    ])
+    expect(result).toEqual({
+      id: ids.movie,
+      status: 'pending',
+      token: expect.stringMatching(/^\d+$/),
+    })
+    expect((await eidr.resolve(ids.movie, 'AlternateIDs')).AlternateID)
+      .toHaveLength(2)
+    expect(await eidr.getStatus(result.token!, { pollInterval: 10 }))
+      .toMatchObject({ status: 'success', id: ids.movie })
+    expect((await eidr.resolve(ids.movie, 'AlternateIDs')).AlternateID)
+      .toHaveLength(3)
+  })
+
+  it('promotes and aliases records', async () => {
+    expect(await eidr.promote(lowercase, { immediate: true }))
+      .toEqual({ id: ids.movie, status: 'applied' })
+    expect(await eidr.alias(ids.edit, ids.movie, { immediate: true }))
+      .toEqual({ id: ids.edit, status: 'applied' })
+    expect(await full(ids.edit)).toMatchObject({ ID: ids.movie })
+  })
+
+  it('fails for invalid and unknown records', async () => {
+    await expect(eidr.promote('10.5240/1')).rejects.toMatchObject({
+      status: 400,
+      message: 'EIDRConnector: Invalid modification',
+      details: 'Invalid content ID: 10.5240/1',
+    })
+    server.removeRecord(ids.movie)
+    await expect(eidr.promote(ids.movie)).rejects.toMatchObject({
+      status: 404,
+    })
+  })
+})
@@ -0,0 +1,196 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  EIDRAuthenticationError,
+  EIDRConnector,
+  MockEIDRServer,
+  environments,
+  profilesFromEnv,
+  profilesFromFile,
+  redactSecrets,
+} from '../src'
+import { createApp, credentials, ids, startMock } from './helpers'
+
+describe('profilesFromEnv', () => {
+  it('loads default and named profiles', () => {
+    expect(profilesFromEnv({
+      EIDR_USER_ID: 'user',
+      EIDR_PARTY_ID: '10.5237/5E6F-7081',
+      EIDR_PASSWORD: 'secret',
+      EIDR_PROFILE_STUDIO_A_USER_ID: 'a',
+      EIDR_PROFILE_STUDIO_A_PARTY_ID: '10.5237/1A2B-3C4D',
+      EIDR_PROFILE_STUDIO_A_SHADOW: 'c2hhZG93',
+      EIDR_PROFILE_STUDIO_A_ENVIRONMENT: 'sandbox',
+      EIDR_OTHER: 'ignored',
+      EIDR_PROFILE_EMPTY_USER_ID: '',
+      HOME: '/root',
+    })).toEqual({
+      default: {
+        userId: 'user',
+        partyId: '10.5237/5E6F-7081',
+        password: 'secret',
+      },
+      'studio-a': {
+        userId: 'a',
+        partyId: '10.5237/1A2B-3C4D',
+        shadow: 'c2hhZG93',
+        environment: 'sandbox',
+      },
+    })
+  })
+
+  it('supports other prefixes', () => {
+    expect(profilesFromEnv({ MY_USER_ID: 'user' }, 'MY'))
+      .toEqual({ default: { userId: 'user' } })
+  })
+
+  it('rejects invalid environments', () => {
+    expect(() => profilesFromEnv({ EIDR_ENVIRONMENT: 'staging' }))
+      .toThrow('Invalid environment: staging')
+  })
+})
+
+describe('profilesFromFile', () => {
+  let dir: string
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'eidr-profiles-'))
+  })
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  const write = (name: string, content: string) => {
+    const file = path.join(dir, name)
+    fs.writeFileSync(file, content)
+    return file
+  }
+
+  it('loads profiles', () => {
+    const profiles = {
+      'studio-a': { userId: 'a', partyId: '10.5237/1A2B-3C4D', password: 'x' },
+      public: { environment: 'sandbox' },
+    }
+    expect(profilesFromFile(write('a.json', JSON.stringify({ profiles }))))
+      .toEqual(profiles)
+    expect(profilesFromFile(write('b.json', JSON.stringify(profiles))))
+      .toEqual(profiles)
+  })
+
+  it('rejects invalid files', () => {
+    expect(() => profilesFromFile(path.join(dir, 'missing.json')))
+      .toThrow('Invalid profiles file')
+    expect(() => profilesFromFile(write('c.json', '{"a":')))
+      .toThrow('Invalid profiles file')
+    expect(() => profilesFromFile(write('d.json', '{"a":{"user":"x"}}')))
+      .toThrow('Invalid profile field: a.user')
+    expect(() => profilesFromFile(write('e.json', '{"a":{"userId":1}}')))
+      .toThrow('Invalid profile value: a.userId')
+  })
+})
+
+describe('redactSecrets', () => {
+  it('redacts secrets and authorization headers', () => {
+    expect(redactSecrets('password secret in Eidr user:10.5237/1:c2hh==, ok',
+      ['secret'])).toBe('password [REDACTED] in Eidr user:10.5237/1:' +
+      '[REDACTED], ok')
+    expect(redactSecrets('nothing here', ['', 'x'.repeat(3)]))
+      .toBe('nothing here')
+  })
+})
+
+describe('credential profiles', () => {
+  let server: MockEIDRServer
+  let sandbox: MockEIDRServer
+  let endpoint: string
+  let sandboxEndpoint: string
+
+  beforeAll(async () => {
+    ({ server, endpoint } = await startMock())
+    sandbox = new MockEIDRServer()
+    sandboxEndpoint = await sandbox.start()
+    sandbox.removeRecord(ids.movie)
+  })
+
+  afterAll(async () => {
+    await server.stop()
+    await sandbox.stop()
+  })
+
+  function connector(options: Record<string, any> = {}) {
+    return new EIDRConnector(createApp(), {
+      endpoint,
+      retries: 0,
+      cache: true,
+      profiles: {
+        production: credentials,
+        sandbox: { ...credentials, endpoint: sandboxEndpoint },
+      },
+      ...options,
+    })
+  }
+
+  it('selects profiles by name', async () => {
+    const eidr = connector()
+    expect(eidr.info()).toMatchObject({
+      endpoint,
+      profiles: ['production', 'sandbox'],
+    })
+    await expect(eidr.query('(/ID EXISTS)')).rejects.toMatchObject({
+      status: 401,
+    })
+    const { totalMatches } = await eidr.query(
+      '(/FullMetadata/BaseObjectData/ResourceName "example")',
+      { idOnly: true },
+      'production',
+    )
+    expect(totalMatches).toBe(3)
+    await expect(eidr.query('(/ID EXISTS)', {}, 'studio-b'))
+      .rejects.toBeInstanceOf(EIDRAuthenticationError)
+  })
+
+  it('resolves with the endpoint of the profile', async () => {
+    const eidr = connector()
+    expect(await eidr.resolve(ids.movie)).toMatchObject({ ID: ids.movie })
+    await expect(eidr.resolve(ids.movie, 'Full', 'sandbox'))
+      .rejects.toMatchObject({ status: 404 })
+    expect(await eidr.resolve(ids.movie, 'Full', 'production'))
+      .toMatchObject({ ID: ids.movie })
+  })
+
+  it('uses a default profile', async () => {
+    const eidr = connector({ profile: 'sandbox' })
+    expect(eidr.info().endpoint).toBe(sandboxEndpoint)
+    await expect(eidr.resolve(ids.movie)).rejects.toMatchObject({
+      status: 404,
+    })
+    expect(() => connector({ profile: 'other' })).toThrow('Unknown profile')
+  })
+
+  it('loads profiles from environment variables', async () => {
+    const env = {
+      EIDR_PROFILE_SANDBOX_ENDPOINT: sandboxEndpoint,
+      EIDR_PROFILE_SANDBOX_USER_ID: credentials.userId,
+      EIDR_PROFILE_SANDBOX_PARTY_ID: credentials.partyId,
+      EIDR_PROFILE_SANDBOX_PASSWORD: credentials.password,
+    }
+    Object.assign(process.env, env)
+    try {
+      const eidr = connector({ profiles: {}, profilesEnv: true })
+      expect(eidr.info().profiles).toEqual(['sandbox'])
+      await expect(eidr.resolve(ids.movie, 'Full', 'sandbox'))
+        .rejects.toMatchObject({ status: 404 })
+    } finally {
+      Object.keys(env).forEach((key) => delete process.env[key])
+    }
+  })
+
+  it('supports environment presets', () => {
+    const eidr = new EIDRConnector(createApp(), { environment: 'sandbox' })
+    expect(eidr.info().endpoint).toBe(environments.sandbox)
+    expect(() => new EIDRConnector(createApp(), { environment: 'staging' }))
+      .toThrow('Invalid environment')
+  })
+})
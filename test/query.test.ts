@@ -0,0 +1,267 @@
+import { EIDRConnector, MockEIDRServer } from '../src'
+import { createApp, ids, startMock } from './helpers'
+
+describe('query', () => {
+  let server: MockEIDRServer
+  let endpoint: string
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, endpoint, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('queries with an expression', async () => {
+    const res = await eidr.query(
+      '(/FullMetadata/BaseObjectData/ResourceName "star wars")',
+    )
+    expect(res.totalMatches).toBe(1)
+    expect(res.results.map((r) => r.ID)).toEqual([ids.starWars])
+  })
+
+  it('queries with a JSON words query', async () => {
+    const res = await eidr.query(
+      { title: { words: 'wars pilot' } },
+      { idOnly: true },
+    )
+    expect(res.results).toEqual([ids.episode11, ids.starWars])
+  })
+
+  it('queries with a JSON exact query', async () => {
+    const res = await eidr.query(
+      { title: { exact: 'The Example Show' } },
+      { idOnly: true },
+    )
+    expect(res.results).toEqual([ids.series])
+  })
+
+  it('combines JSON clauses', async () => {
+    const res = await eidr.query({
+      and: [
+        { title: { contains: 'abominable' } },
+        { not: { isroot: true } },
+      ],
+    }, { idOnly: true })
+    expect(res.results).toEqual([ids.edit])
+  })
+
+  it('filters by date and length', async () => {
+    const res = await eidr.query({
+      and: [
+        { date: { after: '2016' } },
+        { length: { maxlength: 'PT44M' } },
+      ],
+    }, { idOnly: true })
+    expect(res.results).toEqual([ids.episode21])
+  })
+
+  it('filters by ranges, roles and lists', async () => {
+    const res = await eidr.query({
+      and: [
+        { length: { between: [90, 120] } },
+        { org: { role: 'producer', contains: 'dreamworks' } },
+        { coo: { in: ['CA', 'US'] } },
+      ],
+    }, { idOnly: true })
+    expect(res.results).toEqual([ids.movie, ids.edit])
+  })
+
+  it('queries the descendants of a root', async () => {
+    const res = await eidr.query(
+      { exists: 'title' },
+      { idOnly: true, root: ids.season1 },
+    )
+    expect(res.results).toEqual([ids.episode11, ids.episode12])
+  })
+
+  it('pages through results', async () => {
+    const query = { parent: ids.series }
+    const page1 = await eidr.query(query, { pageSize: 1 })
+    const page2 = await eidr.query(query, { pageSize: 1, pageNumber: 2 })
+    expect(page1.totalMatches).toBe(2)
+    expect(page1.results.map((r) => r.ID)).toEqual([ids.season1])
+    expect(page2.results.map((r) => r.ID)).toEqual([ids.season2])
+  })
+
+  it('returns an empty result list', async () => {
+    const res = await eidr.query({ title: { words: 'nothing' } })
+    expect(res).toEqual({ totalMatches: 0, results: [] })
+  })
+
+  it('reports invalid expressions', async () => {
+    await expect(eidr.query('(/FullMetadata/BaseObjectData/ID'))
+      .rejects.toThrow('EIDRConnector: Error 2 invalid request')
+  })
+
+  it('requires registered credentials', async () => {
+    const anonymous = new EIDRConnector(createApp(), { endpoint })
+    await expect(anonymous.query({ title: { words: 'wars' } }))
+      .rejects.toMatchObject({ status: 401 })
+  })
+})
+
+describe('queryAll', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  // All content records, in registry order
+  const all = [
+    ids.movie,
+    ids.edit,
+    ids.series,
+    ids.season1,
+    ids.season2,
+    ids.episode11,
+    ids.episode12,
+    ids.episode21,
+    ids.starWars,
+  ]
+
+  async function collect(results: AsyncIterable<string>) {
+    const found: string[] = []
+    for await (const id of results) {
+      found.push(id)
+    }
+    return found
+  }
+
+  // Page numbers of the queries received by the server
+  function pagesRequested() {
+    return server.requests
+      .filter((req) => req.url.startsWith('/EIDR/query/'))
+      .map((req) => Number(/<PageNumber>(\d+)</.exec(req.body)![1]))
+  }
+
+  beforeEach(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterEach(async () => {
+    await server.stop()
+  })
+
+  it('iterates over all pages', async () => {
+    expect(await collect(eidr.queryAll({ exists: 'title' }, {
+      idOnly: true,
+      pageSize: 2,
+    }))).toEqual(all)
+    expect(pagesRequested()).toEqual([1, 2, 3, 4, 5])
+  })
+
+  it('yields simple metadata', async () => {
+    const records = []
+    for await (const record of eidr.queryAll({ parent: ids.series }, {
+      pageSize: 1,
+    })) {
+      records.push(record)
+    }
+    expect(records).toMatchObject([
+      { ID: ids.season1, ResourceName: { _: 'The Example Show: Season 1' } },
+      { ID: ids.season2, ResourceName: { _: 'The Example Show: Season 2' } },
+    ])
+  })
+
+  it('stops at the limit', async () => {
+    expect(await collect(eidr.queryAll({ exists: 'title' }, {
+      idOnly: true,
+      pageSize: 2,
+      limit: 3,
+    }))).toEqual(all.slice(0, 3))
+    expect(pagesRequested()).toEqual([1, 2])
+    expect(await collect(eidr.queryAll({ exists: 'title' }, {
+      idOnly: true,
+      limit: 0,
+    }))).toEqual([])
+  })
+
+  it('prefetches pages concurrently', async () => {
+    expect(await collect(eidr.queryAll({ exists: 'title' }, {
+      idOnly: true,
+      pageSize: 2,
+      concurrency: 3,
+    }))).toEqual(all)
+    expect(pagesRequested().sort()).toEqual([1, 2, 3, 4, 5])
+
+    server.requests = []
+    for await (const id of eidr.queryAll({ exists: 'title' }, {
+      idOnly: true,
+      pageSize: 2,
+      concurrency: 2,
+    })) {
+      expect(id).toBe(ids.movie)
+      break
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    expect(pagesRequested().sort()).toEqual([1, 2, 3])
+  })
+
+  it('rejects invalid limits and concurrency', async () => {
+    await expect(collect(eidr.queryAll({ exists: 'title' }, {
+      idOnly: true,
+      limit: -1,
+    }))).rejects.toMatchObject({ status: 400, details: 'Invalid limit: -1' })
+    await expect(collect(eidr.queryAll({ exists: 'title' }, {
+      idOnly: true,
+      concurrency: 0,
+    }))).rejects.toMatchObject({
+      status: 400,
+      details: 'Invalid concurrency: 0',
+    })
+  })
+})
+
+describe('simpleQuery', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('sorts results by release date, newest first', async () => {
+    const results = await eidr.simpleQuery({ title: { words: 'example' } })
+    expect(results.map((r) => r.ID)).toEqual([
+      ids.season2,
+      ids.series,
+      ids.season1,
+    ])
+  })
+
+  it('sorts all results', async () => {
+    const results = await eidr.simpleQuery({ exists: 'title' }, undefined,
+      undefined, { all: true })
+    expect(results.map((r) => r.ID)).toEqual([
+      ids.movie,
+      ids.edit,
+      ids.season2,
+      ids.episode21,
+      ids.episode12,
+      ids.series,
+      ids.season1,
+      ids.episode11,
+      ids.starWars,
+    ])
+  })
+
+  it('sorts the results up to the limit', async () => {
+    const results = await eidr.simpleQuery(
+      { exists: 'title' },
+      (a, b) => b.ID.localeCompare(a.ID),
+      undefined,
+      { all: true, limit: 4 },
+    )
+    expect(results.map((r) => r.ID)).toEqual([
+      ids.season1,
+      ids.series,
+      ids.edit,
+      ids.movie,
+    ])
+  })
+})
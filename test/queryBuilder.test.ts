@@ -0,0 +1,126 @@
+import { EIDRConnector, JsonQuery, MockEIDRServer, Q } from '../src'
+import { buildJsonQuery } from '../src/jsonQuery'
+import { ids, startMock } from './helpers'
+
+describe('Q', () => {
+  it('builds the same expression as buildJsonQuery', () => {
+    const query = Q.title.contains('star wars')
+      .and(Q.coo.is('US'))
+      .releasedAfter('2000')
+    const json: JsonQuery = {
+      and: [
+        { title: { contains: 'star wars' } },
+        { coo: { exact: 'US' } },
+        { date: { after: '2000' } },
+      ],
+    }
+    expect(query.toJSON()).toEqual(json)
+    expect(query.toString()).toBe(buildJsonQuery(json))
+    expect(JSON.parse(JSON.stringify(query))).toEqual(json)
+  })
+
+  it('builds text queries', () => {
+    expect(Q.anytitle.words('star wars').toJSON())
+      .toEqual({ anytitle: { words: 'star wars' } })
+    expect(Q.lang.in(['en', 'fr']).toJSON())
+      .toEqual({ lang: { in: ['en', 'fr'] } })
+    expect(Q.status.exists().toJSON()).toEqual({ exists: 'status' })
+  })
+
+  it('builds ID, date and length queries', () => {
+    expect(Q.id(ids.movie).toJSON()).toEqual({ id: { exact: ids.movie } })
+    expect(Q.id(ids.movie, ids.edit).toJSON())
+      .toEqual({ id: { words: `${ids.movie} ${ids.edit}` } })
+    expect(Q.releasedBetween('2000', '2010').toJSON())
+      .toEqual({ date: { between: ['2000', '2010'] } })
+    expect(Q.lengthBetween(90, 'PT2H').toJSON())
+      .toEqual({ length: { between: [90, 'PT2H'] } })
+    expect(Q.hasReleaseDate().toJSON()).toEqual({ exists: 'date' })
+  })
+
+  it('builds org, credit and path queries', () => {
+    expect(Q.org('producer').contains('dreamworks').toJSON())
+      .toEqual({ org: { role: 'producer', contains: 'dreamworks' } })
+    expect(Q.org().id('10.5237/1A2B-3C4D').toJSON())
+      .toEqual({ org: { id: '10.5237/1A2B-3C4D' } })
+    expect(Q.org('producer').exists().toJSON())
+      .toEqual({ org: { role: 'producer' } })
+    expect(() => Q.org().exists()).toThrow('requires a role')
+    expect(Q.credit('Writer').is('Jane Doe').toJSON())
+      .toEqual({ credit: { role: 'Writer', exact: 'Jane Doe' } })
+    expect(Q.path('/FullMetadata/BaseObjectData/Mode').exists().toJSON())
+      .toEqual({
+        path: { path: '/FullMetadata/BaseObjectData/Mode', exists: true },
+      })
+  })
+
+  it('flattens chained operations', () => {
+    const a = Q.title.words('a')
+    const b = Q.title.words('b')
+    const c = Q.title.words('c')
+    expect(a.or(b).or(c).toJSON()).toEqual({
+      or: [a.toJSON(), b.toJSON(), c.toJSON()],
+    })
+    expect(a.or(b).and(c).toJSON()).toEqual({
+      and: [{ or: [a.toJSON(), b.toJSON()] }, c.toJSON()],
+    })
+    expect(Q.and(a, { coo: { exact: 'US' } }).not().toJSON()).toEqual({
+      not: { and: [a.toJSON(), { coo: { exact: 'US' } }] },
+    })
+  })
+
+  it('does not modify builders', () => {
+    const base = Q.title.words('star')
+    base.and(Q.coo.is('US'))
+    expect(base.toJSON()).toEqual({ title: { words: 'star' } })
+  })
+
+  it('rejects invalid JSON queries at compile time', () => {
+    /* eslint-disable @typescript-eslint/ban-ts-comment */
+    const invalid: JsonQuery[] = [
+      // @ts-expect-error unknown element
+      { alltitles: { words: 'star wars' } },
+      // @ts-expect-error more than one element
+      { title: { words: 'star' }, coo: { exact: 'US' } },
+      // @ts-expect-error more than one operation
+      { title: { words: 'star', exact: 'star' } },
+      // @ts-expect-error EXISTS on a multi path element
+      { exists: 'actor' },
+      // @ts-expect-error range with one bound
+      { date: { between: ['2000'] } },
+    ]
+    /* eslint-enable @typescript-eslint/ban-ts-comment */
+    expect(invalid).toHaveLength(5)
+  })
+})
+
+describe('query with Q', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('accepts builders', async () => {
+    const res = await eidr.query(
+      Q.reftype.is('TV').and(Q.parent(ids.season1)),
+      { idOnly: true },
+    )
+    expect(res.results).toEqual([ids.episode11, ids.episode12])
+  })
+
+  it('accepts builders in queryAll', async () => {
+    const found: string[] = []
+    for await (const id of eidr.queryAll(Q.parent(ids.series), {
+      idOnly: true,
+    })) {
+      found.push(id)
+    }
+    expect(found).toEqual([ids.season1, ids.season2])
+  })
+})
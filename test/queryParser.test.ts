@@ -0,0 +1,173 @@
+import { JsonQuery, buildJsonQuery } from '../src/jsonQuery'
+import {
+  QuerySyntaxError,
+  formatQuery,
+  parseQuery,
+  toJsonQuery,
+  tokenizeQuery,
+} from '../src/queryParser'
+
+const base = '/FullMetadata/BaseObjectData'
+
+function syntaxError(expr: string): QuerySyntaxError {
+  try {
+    parseQuery(expr)
+  } catch (e) {
+    return e as QuerySyntaxError
+  }
+  throw new Error(`Expected syntax error: ${expr}`)
+}
+
+describe('tokenizeQuery', () => {
+  it('reports token positions', () => {
+    expect(tokenizeQuery(`(${base}/ResourceName "star wars")`)).toEqual([
+      { type: '(', value: '(', position: 0 },
+      { type: 'word', value: `${base}/ResourceName`, position: 1 },
+      { type: 'phrase', value: 'star wars', position: 43 },
+      { type: ')', value: ')', position: 54 },
+    ])
+  })
+
+  it('unescapes phrases', () => {
+    expect(tokenizeQuery('"say \\"hi\\" \\\\ bye"')[0].value)
+      .toBe('say "hi" \\ bye')
+  })
+})
+
+describe('parseQuery', () => {
+  it('parses clauses', () => {
+    expect(parseQuery(`(${base}/ResourceName star wars)`)).toEqual({
+      type: 'clause',
+      path: `${base}/ResourceName`,
+      op: 'contains',
+      terms: [
+        { phrase: false, value: 'star' },
+        { phrase: false, value: 'wars' },
+      ],
+    })
+    expect(parseQuery(`(${base}/CountryOfOrigin is "US")`)).toMatchObject({
+      op: 'is',
+      terms: [{ phrase: true, value: 'US' }],
+    })
+    expect(parseQuery(`(${base}/ReleaseDate <= 2000)`))
+      .toMatchObject({ op: 'lte' })
+    expect(parseQuery(`(${base}/ReleaseDate >= 2000)`))
+      .toMatchObject({ op: 'gte' })
+    expect(parseQuery(`(${base}/ReleaseDate EXISTS)`))
+      .toMatchObject({ op: 'exists', terms: [] })
+  })
+
+  it('parses logical operators', () => {
+    const a = `(${base}/ResourceName a)`
+    const b = `(${base}/ResourceName b)`
+    const c = `(${base}/ResourceName c)`
+    expect(parseQuery(`(${a} AND (NOT ${b}))`)).toMatchObject({
+      type: 'and',
+      operands: [{ type: 'clause' }, { type: 'not', operand: {} }],
+    })
+    expect(parseQuery(`${a} or ${b} and ${c}`)).toMatchObject({
+      type: 'or',
+      operands: [{ type: 'clause' }, { type: 'and' }],
+    })
+    expect(parseQuery(`NOT ${a}`)).toMatchObject({ type: 'not' })
+  })
+
+  it('reports syntax errors with positions', () => {
+    expect(syntaxError('')).toMatchObject({
+      name: 'QuerySyntaxError',
+      message: 'Empty query expression at position 0',
+      position: 0,
+    })
+    expect(syntaxError(`(${base}/ID`).message)
+      .toBe(`Missing value for ${base}/ID at position 32`)
+    expect(syntaxError(`(${base}/ID x`).message)
+      .toBe('Expected ")" but found end of expression at position 34')
+    expect(syntaxError(`(${base}/ID x))`).position).toBe(35)
+    expect(syntaxError(`(${base}/ID "x)`).position).toBe(33)
+    expect(syntaxError(`(${base}/ID x) AND`).message)
+      .toBe('Expected "(" but found end of expression at position 39')
+    expect(syntaxError('star wars').message)
+      .toBe('Expected "(" but found "star" at position 0')
+  })
+})
+
+describe('formatQuery', () => {
+  it('formats expressions', () => {
+    const expr = `((${base}/ResourceName "say \\"hi\\"") OR ` +
+      `(NOT (${base}/CountryOfOrigin IS "US")))`
+    expect(formatQuery(parseQuery(expr))).toBe(expr)
+  })
+})
+
+describe('toJsonQuery', () => {
+  const roundTrips: JsonQuery[] = [
+    { title: { words: 'star wars' } },
+    { title: { contains: 'star wars' } },
+    { title: { exact: 'star wars' } },
+    { anytitle: { words: 'star wars' } },
+    { anytitle: { contains: 'star wars' } },
+    { director: { exact: 'George Lucas' } },
+    { aoid: { words: '10.5237/1A2B-3C4D' } },
+    { id: { exact: '10.5240/1A2B-3C4D-5E6F-7081-92A3-0' } },
+    { id: { words: '10.5240/1A2B-3C4D-5E6F-7081-92A3-0 ' +
+      '10.5240/3C4D-5E6F-7081-92A3-B4C5-G' } },
+    { date: { date: '2000' } },
+    { date: { before: '2000' } },
+    { length: { minlength: 'PT23M' } },
+    { exists: 'coo' },
+    { exists: 'date' },
+    { isroot: true },
+    { isroot: false },
+    { parent: '10.5240/2B3C-4D5E-6F70-8192-A3B4-C' },
+    { not: { coo: { exact: 'us' } } },
+    {
+      and: [
+        { title: { contains: 'star wars' } },
+        { or: [{ coo: { exact: 'us' } }, { date: { after: '1977' } }] },
+      ],
+    },
+  ]
+
+  it.each(roundTrips)('converts %j back to JSON', (json) => {
+    const expr = buildJsonQuery(json)
+    expect(toJsonQuery(parseQuery(expr))).toEqual(json)
+  })
+
+  it('converts multiple words to AND queries', () => {
+    expect(toJsonQuery(parseQuery(`(${base}/ResourceName star "new hope")`)))
+      .toEqual({
+        and: [
+          { title: { words: 'star' } },
+          { title: { contains: 'new hope' } },
+        ],
+      })
+  })
+
+  const equivalents: JsonQuery[] = [
+    { date: { between: ['2000', '2010'] } },
+    { length: { between: [90, 120] } },
+    { status: { exact: 'valid' } },
+    { coo: { in: ['US', 'CA'] } },
+    { org: { role: 'producer' } },
+    { org: { role: 'producer', words: 'dreamworks animation' } },
+    { org: { role: 'producer', id: '10.5237/1A2B-3C4D' } },
+    { credit: { role: 'Writer', contains: 'jane doe' } },
+    { credit: { exact: 'George Lucas' } },
+    { path: { path: '/FullMetadata/BaseObjectData/Mode', exact: 'Audio' } },
+    { path: { path: '/FullMetadata/BaseObjectData/Mode', exists: true } },
+    { path: { path: '/FullMetadata/BaseObjectData/Mode', between: [1, 2] } },
+    { title: { contains: 'say "hi"' } },
+  ]
+
+  it.each(equivalents)('converts %j into an equivalent query', (json) => {
+    const expr = buildJsonQuery(json)
+    expect(buildJsonQuery(toJsonQuery(parseQuery(expr))!)).toBe(expr)
+  })
+
+  it('converts other paths into path queries', () => {
+    expect(toJsonQuery(parseQuery(`(${base}/ResourceName <= m)`)))
+      .toEqual({ path: { path: `${base}/ResourceName`, max: 'm' } })
+    expect(toJsonQuery(parseQuery(`(${base}/Mode >= 1)`)))
+      .toEqual({ path: { path: `${base}/Mode`, min: '1' } })
+  })
+})
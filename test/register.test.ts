@@ -0,0 +1,205 @@
+import xml2js from 'xml2js'
+import {
+  BaseObjectDataValue,
+  EIDRConnector,
+  FullMetadata,
+  MockEIDRServer,
+  RegistrationRecord,
+} from '../src'
+import { SeasonRecord, renderRegistration } from '../src/registration'
+import { contentId, createApp, ids, startMock } from './helpers'
+
+const base: BaseObjectDataValue = {
+  structuralType: 'Abstraction',
+  mode: 'AudioVisual',
+  referentType: 'Movie',
+  resourceName: { value: 'The Yeti & Me', lang: 'en' },
+  originalLanguages: ['en'],
+  associatedOrgs: [{ role: 'producer', organizationId: ids.party }],
+  releaseDate: '2021',
+  approximateLength: 'PT1H30M',
+  alternateIds: [{ type: 'IMDB', value: 'tt0000001' }],
+  credits: { directors: ['Jill Culton'], actors: ['Chloe Bennet'] },
+}
+
+const records: RegistrationRecord[] = [
+  { kind: 'Basic', base },
+  { kind: 'Series', base, seriesClass: 'Episodic', endDate: '2022' },
+  { kind: 'Season', base, parent: ids.series, sequenceNumber: 3 },
+  {
+    kind: 'Episode',
+    base,
+    parent: ids.season1,
+    distributionNumber: '3',
+    houseSequence: '103',
+  },
+  {
+    kind: 'Edit',
+    base,
+    parent: ids.movie,
+    editUse: 'Theatrical',
+    editClass: ['Director\'s cut'],
+  },
+  {
+    kind: 'Manifestation',
+    base,
+    parent: ids.edit,
+    manifestationClass: 'Digital',
+  },
+]
+
+const season = records[2] as SeasonRecord
+
+const infos: Record<string, string | undefined> = {
+  Basic: undefined,
+  Series: 'SeriesInfo',
+  Season: 'SeasonInfo',
+  Episode: 'EpisodeInfo',
+  Edit: 'EditInfo',
+  Manifestation: 'ManifestationInfo',
+}
+
+describe('renderRegistration', () => {
+  it('renders each record kind', async () => {
+    for (const record of records) {
+      const xml = renderRegistration(record)
+      const obj = await xml2js.parseStringPromise(xml, {
+        explicitArray: false,
+      })
+      const created = obj[`Create${record.kind}`][record.kind]
+      expect(created.BaseObjectData).toMatchObject({
+        StructuralType: 'Abstraction',
+        ResourceName: { _: 'The Yeti & Me', $: { lang: 'en' } },
+        AssociatedOrg: { $: { organizationID: ids.party, role: 'producer' } },
+        AlternateID: { _: 'tt0000001', $: { 'xsi:type': 'IMDB' } },
+        Credits: {
+          Director: { 'md:DisplayName': 'Jill Culton' },
+          Actor: { 'md:DisplayName': 'Chloe Bennet' },
+        },
+      })
+      const info = infos[record.kind]
+      expect(created.ExtraObjectMetadata &&
+        Object.keys(created.ExtraObjectMetadata))
+        .toEqual(info && [info])
+      if ('parent' in record) {
+        expect(created.ExtraObjectMetadata[info!].Parent).toBe(record.parent)
+      }
+    }
+  })
+
+  it('renders sequence info of episodes', () => {
+    expect(renderRegistration(records[3])).toContain(
+      '<SequenceInfo><md:DistributionNumber>3</md:DistributionNumber>' +
+      '<md:HouseSequence>103</md:HouseSequence></SequenceInfo>',
+    )
+  })
+
+  it('sends canonical parent IDs', () => {
+    expect(renderRegistration({
+      ...season,
+      parent: `doi:${ids.series.toLowerCase()}`,
+    })).toContain(`<Parent>${ids.series}</Parent>`)
+  })
+
+  it('rejects invalid records', () => {
+    expect(() => renderRegistration({ ...records[0], kind: 'Other' } as any))
+      .toThrow('Invalid registration kind: Other')
+    expect(() => renderRegistration({
+      kind: 'Basic',
+      base: { ...base, releaseDate: ' ' },
+    })).toThrow('Missing registration field: releaseDate')
+    expect(() => renderRegistration({ ...season, parent: '10.5240/1' }))
+      .toThrow('Invalid parent ID: 10.5240/1')
+  })
+})
+
+describe('register and getStatus', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('registers each record kind', async () => {
+    for (const record of records) {
+      const token = await eidr.register(record, { immediate: true })
+      expect(token).toMatch(/^\d+$/)
+      const status = await eidr.getStatus(token, { wait: false })
+      expect(status).toMatchObject({ token, status: 'success', code: '0' })
+      const registered = await eidr.resolve(status.id!) as FullMetadata
+      expect(registered).toMatchObject({
+        ID: status.id,
+        ReferentType: 'Movie',
+        ResourceName: { _: 'The Yeti & Me' },
+      })
+      expect(Object.keys(registered.ExtraObjectMetadata || {}))
+        .toEqual(infos[record.kind] ? [infos[record.kind]] : [])
+    }
+  })
+
+  it('polls pending operations', async () => {
+    const token = await eidr.register(records[0])
+    expect(await eidr.getStatus(token, { wait: false }))
+      .toEqual({ token, status: 'pending', code: '0', type: 'pending' })
+    const status = await eidr.getStatus(token, { pollInterval: 10 })
+    expect(status).toMatchObject({ status: 'success', type: 'success' })
+    expect(status.id).toMatch(/^10\.5240\/FFFF-/)
+  })
+
+  it('waits for operations until they complete', async () => {
+    const pending = await startMock({}, { pendingPolls: 3 })
+    try {
+      const token = await pending.eidr.register(records[0])
+      await expect(pending.eidr.getStatus(token, {
+        pollInterval: 10,
+        timeout: 15,
+      })).rejects.toMatchObject({ status: 504 })
+      expect(await pending.eidr.getStatus(token, { pollInterval: 10 }))
+        .toMatchObject({ status: 'success' })
+    } finally {
+      await pending.server.stop()
+    }
+  })
+
+  it('reports failed operations', async () => {
+    const parent = contentId('0000-0000-0000-0000-0001')
+    const token = await eidr.register({ ...season, parent },
+      { immediate: true })
+    expect(await eidr.getStatus(token)).toEqual({
+      token,
+      status: 'error',
+      code: '2',
+      type: 'invalid request',
+      details: `Parent not found: ${parent}`,
+    })
+  })
+
+  it('validates records and tokens', async () => {
+    await expect(eidr.register({ kind: 'Basic', base: { ...base, mode: '' } }))
+      .rejects.toMatchObject({
+        status: 400,
+        message: 'EIDRConnector: Invalid registration',
+        details: 'Missing registration field: mode',
+      })
+    await expect(eidr.getStatus('abc')).rejects.toMatchObject({
+      status: 400,
+      details: 'Invalid token: abc',
+    })
+    await expect(eidr.getStatus('999', { wait: false }))
+      .rejects.toMatchObject({ status: 404 })
+  })
+
+  it('requires registered credentials', async () => {
+    const anonymous = new EIDRConnector(createApp(), {
+      endpoint: server.endpoint,
+    })
+    await expect(anonymous.register(records[0])).rejects.toMatchObject({
+      name: 'EIDRAuthenticationError',
+    })
+  })
+})
@@ -0,0 +1,109 @@
+import { EIDRConnector, MockEIDRServer } from '../src'
+import { ids, startMock } from './helpers'
+
+describe('resolve', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('resolves full metadata', async () => {
+    const record = await eidr.resolve(ids.movie)
+    expect(record.ID).toBe(ids.movie)
+    expect(record.ResourceName).toEqual({
+      _: 'Abominable',
+      $: { lang: 'en', titleClass: 'release' },
+    })
+    expect(record.ReleaseDate).toBe('2019-09-27')
+    expect(record.CountryOfOrigin).toEqual(['US'])
+    expect(record.Credits!.Actor).toHaveLength(2)
+  })
+
+  it('normalizes repeatable elements to arrays', async () => {
+    const record = await eidr.resolve(ids.movie)
+    expect(record.AlternateResourceName).toHaveLength(1)
+    expect(record.AssociatedOrg).toHaveLength(1)
+    expect(record.Credits!.Director).toHaveLength(1)
+  })
+
+  it('resolves extra object metadata', async () => {
+    const record = await eidr.resolve(ids.episode12)
+    const info = record.ExtraObjectMetadata!.EpisodeInfo!
+    expect(info.Parent).toBe(ids.season1)
+  })
+
+  it('normalizes the ID before resolving', async () => {
+    const record = await eidr.resolve(`doi:${ids.movie.toLowerCase()}`)
+    expect(record.ID).toBe(ids.movie)
+  })
+
+  it('resolves simple metadata', async () => {
+    const record = await eidr.resolve(ids.movie, 'Simple')
+    expect(record.ID).toBe(ids.movie)
+    expect(record.ApproximateLength).toBe('PT1H37M')
+    expect(record).not.toHaveProperty('Administrators')
+  })
+
+  it('resolves alternate IDs', async () => {
+    const record = await eidr.resolve(ids.movie, 'AlternateIDs')
+    expect(record.ID).toBe(ids.movie)
+    expect(record.AlternateID).toEqual([
+      { _: 'tt6324278', $: { 'xsi:type': 'IMDB' } },
+      {
+        _: 'ABOM-0001',
+        $: { 'xsi:type': 'Proprietary', domain: 'example.com' },
+      },
+    ])
+  })
+
+  it('resolves an empty linked alternate ID list', async () => {
+    const record = await eidr.resolve(ids.movie, 'LinkedAlternateIDs')
+    expect(record).toEqual({ ID: ids.movie, LinkedAlternateID: [] })
+  })
+
+  it('resolves the DOI kernel', async () => {
+    const record = await eidr.resolve(ids.movie, 'DOIKernel')
+    expect(record.referentDoiName).toBe(ids.movie)
+    expect(record.issueDate).toBe('2019-09-27')
+  })
+
+  it('resolves provenance', async () => {
+    const record = await eidr.resolve(ids.movie, 'Provenance')
+    expect(record.Administrators!.Registrant).toBe('10.5237/5E6F-7081')
+    expect(record.CreatedBy).toBe('10.5237/5E6F-7081')
+  })
+
+  it('resolves a party', async () => {
+    const party = await eidr.resolve('10.5237/1A2B-3C4D')
+    expect(party.ID).toBe(ids.party)
+    expect(party.PartyName).toBeDefined()
+  })
+
+  it('resolves a service', async () => {
+    const service = await eidr.resolve('10.5239/9A0B-1C2D')
+    expect(service.ID).toBe(ids.service)
+  })
+
+  it('rejects invalid IDs', async () => {
+    await expect(eidr.resolve('10.5240/1A2B-3C4D-5E6F-7081-92A3-1'))
+      .rejects.toMatchObject({ status: 400 })
+    await expect(eidr.resolve('not an id'))
+      .rejects.toThrow('EIDRConnector: Invalid ID')
+  })
+
+  it('rejects unsupported resolution types', async () => {
+    await expect(eidr.resolve(ids.movie, 'Unknown'))
+      .rejects.toThrow('EIDRConnector: Unsupported type')
+  })
+
+  it('reports unknown IDs', async () => {
+    await expect(eidr.resolve('10.5240/0000-0000-0000-0000-0000-X'))
+      .rejects.toThrow('EIDRConnector: Error 3 not found')
+  })
+})
@@ -0,0 +1,98 @@
+import { EIDRConnector, MockEIDRServer, ResolveProgress } from '../src'
+import { ids, startMock } from './helpers'
+
+describe('resolveMany', () => {
+  let server: MockEIDRServer
+  let eidr: EIDRConnector
+
+  beforeAll(async () => {
+    ({ server, eidr } = await startMock())
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('resolves content, party and service IDs', async () => {
+    const results = await eidr.resolveMany(
+      [ids.movie, ids.party, ids.service],
+    )
+    expect(Array.from(results.keys()))
+      .toEqual([ids.movie, ids.party, ids.service])
+    expect(results.get(ids.movie)).toMatchObject({
+      id: ids.movie,
+      ok: true,
+      value: { ID: ids.movie, ResourceName: { _: 'Abominable' } },
+    })
+    expect(results.get(ids.party))
+      .toMatchObject({ ok: true, value: { ID: ids.party } })
+    expect(results.get(ids.service))
+      .toMatchObject({ ok: true, value: { ID: ids.service } })
+  })
+
+  it('resolves with the given type', async () => {
+    const results = await eidr.resolveMany([ids.movie], { type: 'Simple' })
+    expect(results.get(ids.movie))
+      .toMatchObject({ ok: true, value: { ID: ids.movie } })
+    const result = results.get(ids.movie)!
+    expect(result.ok && 'ExtraObjectMetadata' in result.value).toBe(false)
+  })
+
+  it('reports failures without throwing', async () => {
+    const unknown = '10.5240/0000-0000-0000-0000-0000-X'
+    const results = await eidr.resolveMany([ids.movie, unknown, 'not-an-id'])
+    expect(results.get(ids.movie)!.ok).toBe(true)
+    expect(results.get(unknown)).toMatchObject({
+      id: unknown,
+      ok: false,
+      status: 404,
+      error: { message: 'EIDRConnector: Error 3 not found' },
+    })
+    expect(results.get('not-an-id')).toMatchObject({
+      id: 'not-an-id',
+      ok: false,
+      status: 400,
+      error: { message: 'EIDRConnector: Invalid ID' },
+    })
+  })
+
+  it('deduplicates IDs', async () => {
+    const progress: ResolveProgress[] = []
+    const results = await eidr.resolveMany(
+      [ids.movie, `doi:${ids.movie.toLowerCase()}`, ids.movie, ids.edit],
+      { onProgress: (p) => progress.push(p) },
+    )
+    expect(results.size).toBe(3)
+    expect(results.get(`doi:${ids.movie.toLowerCase()}`))
+      .toBe(results.get(ids.movie))
+    expect(progress).toHaveLength(2)
+    expect(progress[1]).toMatchObject({ completed: 2, failed: 0, total: 2 })
+  })
+
+  it('reports progress', async () => {
+    const unknown = '10.5240/0000-0000-0000-0000-0000-X'
+    const progress: ResolveProgress[] = []
+    await eidr.resolveMany([ids.series, unknown, ids.season1], {
+      concurrency: 1,
+      onProgress: (p) => progress.push(p),
+    })
+    expect(progress).toEqual([
+      { id: ids.series, ok: true, completed: 1, failed: 0, total: 3 },
+      { id: unknown, ok: false, completed: 2, failed: 1, total: 3 },
+      { id: ids.season1, ok: true, completed: 3, failed: 1, total: 3 },
+    ])
+  })
+
+  it('rejects invalid concurrency', async () => {
+    await expect(eidr.resolveMany([ids.movie], { concurrency: 0 }))
+      .rejects.toThrow('EIDRConnector: Invalid concurrency')
+  })
+
+  it('fails when aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    await expect(eidr.resolveMany([ids.movie, ids.edit], {
+      signal: controller.signal,
+    })).rejects.toMatchObject({ status: 499 })
+  })
+})
@@ -0,0 +1,150 @@
+import {
+  EIDRConnector,
+  EIDRError,
+  MockEIDRServer,
+  RegistrationRecord,
+} from '../src'
+import { backoffDelay, parseRetryAfter } from '../src/retry'
+import { createApp, ids, startMock } from './helpers'
+
+const record: RegistrationRecord = {
+  kind: 'Basic',
+  base: {
+    structuralType: 'Abstraction',
+    mode: 'AudioVisual',
+    referentType: 'Movie',
+    resourceName: { value: 'The Yeti & Me', lang: 'en' },
+    originalLanguages: ['en'],
+    releaseDate: '2021',
+    approximateLength: 'PT1H30M',
+  },
+}
+
+describe('retry helpers', () => {
+  it('backs off exponentially up to the maximum delay', () => {
+    const options = { retries: 3, retryDelay: 100, maxRetryDelay: 300 }
+    for (let i = 0; i < 10; i++) {
+      expect(backoffDelay(0, options)).toBeGreaterThanOrEqual(50)
+      expect(backoffDelay(0, options)).toBeLessThanOrEqual(100)
+      expect(backoffDelay(1, options)).toBeGreaterThanOrEqual(100)
+      expect(backoffDelay(5, options)).toBeLessThanOrEqual(300)
+    }
+  })
+
+  it('parses Retry-After headers', () => {
+    expect(parseRetryAfter(null)).toBeUndefined()
+    expect(parseRetryAfter(' 2 ')).toBe(2000)
+    expect(parseRetryAfter('soon')).toBeUndefined()
+    expect(parseRetryAfter(new Date(0).toUTCString())).toBe(0)
+    expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString()))
+      .toBeGreaterThan(55000)
+  })
+})
+
+describe('request retries', () => {
+  interface Mock {
+    server: MockEIDRServer
+    eidr: EIDRConnector
+  }
+
+  async function withMock(
+    options: Record<string, any>,
+    test: (mock: Mock) => Promise<void>,
+  ) {
+    const mock = await startMock({ retryDelay: 1, ...options })
+    try {
+      await test(mock)
+    } finally {
+      await mock.server.stop()
+    }
+  }
+
+  it('retries unavailable responses', () => withMock({ retries: 2 },
+    async ({ server, eidr }) => {
+      server.fail({ status: 503 })
+      expect(await eidr.resolve(ids.movie)).toMatchObject({ ID: ids.movie })
+      expect(server.requests).toHaveLength(2)
+    }))
+
+  it('fails after the last retry', () => withMock({ retries: 2 },
+    async ({ server, eidr }) => {
+      server.fail({ status: 500 }, 3)
+      await expect(eidr.resolve(ids.movie)).rejects.toMatchObject({
+        status: 500,
+        operation: 'resolve',
+      })
+      expect(server.requests).toHaveLength(3)
+    }))
+
+  it('honors Retry-After on 429', () => withMock({ retries: 1 },
+    async ({ server, eidr }) => {
+      server.fail({ status: 429, headers: { 'Retry-After': '1' } })
+      const start = Date.now()
+      expect(await eidr.query({ title: { words: 'pilot' } }, { idOnly: true }))
+        .toEqual({ totalMatches: 1, results: [ids.episode11] })
+      expect(Date.now() - start).toBeGreaterThanOrEqual(900)
+      expect(server.requests).toHaveLength(2)
+    }))
+
+  it('caps Retry-After by the maximum retry delay', () => withMock({
+    retries: 1,
+    maxRetryDelay: 20,
+  }, async ({ server, eidr }) => {
+    server.fail({ status: 429, headers: { 'Retry-After': '60' } })
+    const start = Date.now()
+    expect(await eidr.resolve(ids.movie)).toMatchObject({ ID: ids.movie })
+    expect(Date.now() - start).toBeLessThan(1000)
+  }))
+
+  it('does not retry non-idempotent requests', () => withMock({ retries: 2 },
+    async ({ server, eidr }) => {
+      server.fail({ status: 503, method: 'POST' })
+      await expect(eidr.register(record)).rejects.toMatchObject({
+        name: 'EIDRUnavailableError',
+        status: 503,
+        operation: 'register',
+      })
+      expect(server.requests).toHaveLength(1)
+
+      server.fail({ status: 429, method: 'POST' })
+      expect(await eidr.register(record)).toMatch(/^\d+$/)
+      expect(server.requests).toHaveLength(3)
+    }))
+
+  it('maps timeouts to 504', () => withMock({ timeout: 20 },
+    async ({ server, eidr }) => {
+      server.fail({ delay: 200 })
+      await expect(eidr.resolve(ids.movie)).rejects.toMatchObject({
+        message: 'EIDRConnector: Timeout',
+        status: 504,
+        operation: 'resolve',
+      })
+    }))
+
+  it('aborts while waiting to retry', () => withMock({
+    retries: 1,
+    retryDelay: 5000,
+  }, async ({ server, eidr }) => {
+    server.fail({ status: 503 })
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 50)
+    const start = Date.now()
+    await expect(eidr.resolve(ids.movie, 'Full', undefined, undefined, {
+      signal: controller.signal,
+    })).rejects.toMatchObject({
+      message: 'EIDRConnector: Aborted',
+      status: 499,
+      operation: 'resolve',
+    })
+    expect(Date.now() - start).toBeLessThan(1000)
+    expect(server.requests).toHaveLength(1)
+  }))
+
+  it('rejects invalid rate limits', () => {
+    const create = () => new EIDRConnector(createApp(), {
+      rateLimit: { requestsPerSecond: 0 },
+    })
+    expect(create).toThrow(EIDRError)
+    expect(create).toThrow('EIDRConnector: Invalid rate limit')
+  })
+})
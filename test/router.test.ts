@@ -0,0 +1,265 @@
+import http from 'http'
+import fetch from 'node-fetch'
+import { EIDRConnector, EIDRRouter, MockEIDRServer } from '../src'
+import { createApp, credentials, ids, startMock } from './helpers'
+
+const authorization = `Eidr ${credentials.userId}:${credentials.partyId}:` +
+  'Xr4ilOzQ4PCOq3aQ0qbuaQ=='
+
+describe('EIDRRouter', () => {
+  let server: MockEIDRServer
+  let router: EIDRRouter
+
+  beforeAll(async () => {
+    let endpoint: string
+    ({ server, endpoint } = await startMock())
+    // Connector without credentials, so privileged routes need the
+    // Authorization header
+    router = new EIDRRouter(new EIDRConnector(createApp(), { endpoint }), {
+      prefix: '/eidr/',
+    })
+  })
+
+  afterAll(async () => {
+    await server.stop()
+  })
+
+  it('resolves IDs', async () => {
+    const res = await router.route({
+      method: 'GET',
+      path: `/eidr/resolve/${encodeURIComponent(ids.movie)}`,
+    })
+    expect(res.status).toBe(200)
+    expect(res.headers['Content-Type']).toBe('application/json')
+    expect(res.body).toMatchObject({ ID: ids.movie })
+
+    const party = await router.route({
+      method: 'GET',
+      path: `/eidr/resolve/${ids.party}`,
+    })
+    expect(party.body).toMatchObject({ ID: ids.party })
+
+    const simple = await router.route({
+      method: 'GET',
+      path: `/eidr/resolve/${ids.edit}`,
+      query: { type: 'Simple' },
+    })
+    expect(simple.body).not.toHaveProperty('ExtraObjectMetadata')
+  })
+
+  it('returns errors as JSON', async () => {
+    const unknown = '10.5240/0000-0000-0000-0000-0000-X'
+    expect(await router.route({
+      method: 'GET',
+      path: `/eidr/resolve/${unknown}`,
+    })).toMatchObject({
+      status: 404,
+      body: { status: 404, error: 'EIDRConnector: Error 3 not found' },
+    })
+    expect(await router.route({ method: 'GET', path: '/eidr/resolve/x' }))
+      .toMatchObject({
+        status: 400,
+        body: { error: 'EIDRConnector: Invalid ID' },
+      })
+    expect(await router.route({
+      method: 'GET',
+      path: '/eidr/resolve/%E0%A4%A',
+    })).toMatchObject({
+      status: 400,
+      body: { error: 'Invalid path', details: 'Invalid path: %E0%A4%A' },
+    })
+    expect(await router.route({ method: 'GET', path: '/eidr/other' }))
+      .toMatchObject({ status: 404, body: { error: 'Not found' } })
+    expect(await router.route({
+      method: 'DELETE',
+      path: `/eidr/resolve/${ids.movie}`,
+    })).toMatchObject({ status: 405 })
+  })
+
+  it('redacts Authorization headers from errors', async () => {
+    const failing = new EIDRRouter({
+      resolve: async () => {
+        throw new Error(`Failed with ${authorization}`)
+      },
+    } as unknown as EIDRConnector)
+    const redacted = `Failed with Eidr ${credentials.userId}:` +
+      `${credentials.partyId}:[REDACTED]`
+    expect(await failing.route({
+      method: 'GET',
+      path: `/resolve/${ids.movie}`,
+    })).toMatchObject({
+      status: 500,
+      body: { error: redacted, details: redacted },
+    })
+  })
+
+  it('queries with the Authorization header', async () => {
+    const query = { q: '{"title":{"words":"example"}}', idOnly: 'true' }
+    expect(await router.route({ method: 'GET', path: '/eidr/query', query }))
+      .toMatchObject({ status: 401 })
+    expect(await router.route({
+      method: 'GET',
+      path: '/eidr/query',
+      query,
+      authorization: 'default',
+    })).toMatchObject({ status: 401, body: { error: 'Invalid authorization' } })
+
+    const res = await router.route({
+      method: 'GET',
+      path: '/eidr/query',
+      query,
+      authorization,
+    })
+    expect(res.status).toBe(200)
+    expect(res.headers).toMatchObject({
+      'X-Total-Count': '3',
+      'X-Page-Number': '1',
+      'X-Page-Size': '25',
+    })
+    expect(res.headers.Link).toBeUndefined()
+    expect(res.body).toEqual([ids.series, ids.season1, ids.season2])
+  })
+
+  it('pages query results', async () => {
+    const res = await router.route({
+      method: 'POST',
+      path: '/eidr/query',
+      query: { pageNumber: '2', pageSize: '1', idOnly: '1' },
+      authorization,
+      body: { title: { words: 'example' } },
+    })
+    expect(res.headers).toMatchObject({
+      'X-Total-Count': '3',
+      'X-Page-Number': '2',
+      'X-Page-Size': '1',
+    })
+    expect(res.headers.Link).toBe(
+      '</eidr/query?pageNumber=3&pageSize=1&idOnly=1>; rel="next", ' +
+      '</eidr/query?pageNumber=1&pageSize=1&idOnly=1>; rel="prev"',
+    )
+    expect(res.body).toEqual([ids.season1])
+  })
+
+  it('rejects invalid queries', async () => {
+    const route = (query: Record<string, string>) => router.route({
+      method: 'GET',
+      path: '/eidr/query',
+      query,
+      authorization,
+    })
+    expect(await route({})).toMatchObject({
+      status: 400,
+      body: { error: 'Missing query' },
+    })
+    expect(await route({ q: '{"title":' }))
+      .toMatchObject({ status: 400, body: { error: 'Invalid query' } })
+    expect(await route({ q: '{"nope":1}' }))
+      .toMatchObject({ status: 400, body: { error: 'Invalid query' } })
+    expect(await route({ q: '(/ID EXISTS)', pageSize: '0' }))
+      .toMatchObject({ status: 400, body: { details: 'Invalid pageSize: 0' } })
+  })
+
+  it('returns hierarchies', async () => {
+    const res = await router.route({
+      method: 'GET',
+      path: `/eidr/hierarchy/${ids.series}`,
+      query: { depth: '1' },
+      authorization,
+    })
+    expect(res.status).toBe(200)
+    expect(res.body).toMatchObject({
+      id: ids.series,
+      kind: 'series',
+      children: [{ id: ids.season1 }, { id: ids.season2 }],
+    })
+    expect(await router.route({
+      method: 'GET',
+      path: `/eidr/hierarchy/${ids.series}`,
+      query: { include: 'season,show' },
+      authorization,
+    })).toMatchObject({ status: 400, body: { details: 'Invalid kind: show' } })
+  })
+
+  it('traverses graphs', async () => {
+    const res = await router.route({
+      method: 'GET',
+      path: `/eidr/graph/${ids.season1}/GetChildren`,
+      authorization,
+    })
+    expect(res.status).toBe(200)
+    expect((res.body as Array<{ ID: string }>).map((r) => r.ID))
+      .toEqual([ids.episode11, ids.episode12])
+    expect(await router.route({
+      method: 'GET',
+      path: `/eidr/graph/${ids.season1}/GetCousins`,
+      authorization,
+    })).toMatchObject({ status: 400, body: { error: 'Invalid traversal' } })
+  })
+
+  it('handles node requests', async () => {
+    const handler = router.handler()
+    const api = http.createServer((req, res) => handler(req, res, () => {
+      res.writeHead(418)
+      res.end()
+    }))
+    await new Promise<void>((resolve) => api.listen(0, resolve))
+    const { port } = api.address() as { port: number }
+    try {
+      const base = `http://localhost:${port}/eidr`
+      const res = await fetch(`${base}/query?idOnly=true&pageSize=2`, {
+        method: 'POST',
+        headers: { Authorization: authorization },
+        body: '(/FullMetadata/BaseObjectData/ResourceName "example")',
+      })
+      expect(res.status).toBe(200)
+      expect(res.headers.get('X-Total-Count')).toBe('3')
+      expect(await res.json()).toHaveLength(2)
+
+      const missing = await fetch(`${base}/resolve/10.5240/0000`)
+      expect(missing.status).toBe(400)
+      expect(await missing.json()).toMatchObject({ status: 400 })
+
+      const malformed = await fetch(`${base}/resolve/%E0%A4%A`)
+      expect(malformed.status).toBe(400)
+      expect(await malformed.json()).toMatchObject({ error: 'Invalid path' })
+
+      expect((await fetch(`http://localhost:${port}/other`)).status)
+        .toBe(418)
+    } finally {
+      await new Promise((resolve) => api.close(resolve))
+    }
+  })
+
+  it('answers failed node requests without next with 500', async () => {
+    const req = {
+      method: 'POST',
+      url: '/eidr/query',
+      headers: {},
+      on(event: string, listener: (e: Error) => void) {
+        if (event === 'error') {
+          listener(new Error('Connection reset'))
+        }
+      },
+    }
+    const res = {
+      headersSent: false,
+      writeHead: jest.fn(),
+      end: jest.fn(),
+    }
+    await router.handler()(req as unknown as http.IncomingMessage,
+      res as unknown as http.ServerResponse)
+    expect(res.writeHead).toHaveBeenCalledWith(500,
+      { 'Content-Type': 'application/json' })
+    expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({
+      status: 500,
+      error: 'Connection reset',
+      details: 'Connection reset',
+    })
+
+    const next = jest.fn()
+    await router.handler()(req as unknown as http.IncomingMessage,
+      res as unknown as http.ServerResponse, next)
+    expect(next).toHaveBeenCalledWith(new Error('Connection reset'))
+    expect(res.end).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,113 @@
+import {
+  checkDigit,
+  mod37x36,
+  normalizeId,
+  validateId,
+  verifyCheckDigit,
+} from '../src/validate'
+import { contentId, ids } from './helpers'
+
+describe('checkDigit', () => {
+  it('computes check characters of content ID suffixes', () => {
+    expect(checkDigit('1A2B-3C4D-5E6F-7081-92A3')).toBe('0')
+    expect(checkDigit('1A2B-3C4D-5E6F-7081-92B4')).toBe('U')
+    expect(checkDigit('1a2b3c4d5e6f708192b4')).toBe('U')
+    expect(mod37x36('1A2B3C4D5E6F708192B4')).toBe('U')
+  })
+
+  it('rejects invalid suffixes', () => {
+    expect(() => checkDigit('1A2B-3C4D')).toThrow(
+      'Invalid EIDR ID suffix: 1A2B-3C4D',
+    )
+    expect(() => checkDigit('1A2B-3C4D-5E6F-7081-92AZ')).toThrow(
+      'Invalid EIDR ID suffix: 1A2B-3C4D-5E6F-7081-92AZ',
+    )
+  })
+
+  it('verifies check characters', () => {
+    expect(verifyCheckDigit(ids.movie)).toBe(true)
+    expect(verifyCheckDigit(ids.movie.replace(/0$/, '1'))).toBe(false)
+    expect(verifyCheckDigit(ids.party)).toBe(false)
+    expect(contentId('0000-0000-0000-0000-0001')).toMatch(
+      /^10\.5240\/0000-0000-0000-0000-0001-[0-9A-Z]$/,
+    )
+    expect(validateId(contentId('0000-0000-0000-0000-0001'))).toBe(true)
+  })
+})
+
+describe('normalizeId', () => {
+  const valid = (id: string) => ({ valid: true, id })
+  const invalid = (reason: string) => ({ valid: false, reason })
+
+  it('accepts canonical IDs', () => {
+    expect(normalizeId(ids.movie)).toEqual(valid(ids.movie))
+    expect(normalizeId(ids.party)).toEqual(valid(ids.party))
+    expect(normalizeId(ids.service)).toEqual(valid(ids.service))
+  })
+
+  it('accepts lowercase IDs', () => {
+    expect(normalizeId(ids.edit.toLowerCase())).toEqual(valid(ids.edit))
+    expect(normalizeId(ids.party.toLowerCase())).toEqual(valid(ids.party))
+  })
+
+  it('accepts DOI prefixes and URLs', () => {
+    expect(normalizeId(`doi:${ids.movie}`)).toEqual(valid(ids.movie))
+    expect(normalizeId(`DOI: ${ids.movie}`)).toEqual(valid(ids.movie))
+    expect(normalizeId(`https://doi.org/${ids.movie}`))
+      .toEqual(valid(ids.movie))
+    expect(normalizeId(`http://dx.doi.org/${ids.edit.toLowerCase()}`))
+      .toEqual(valid(ids.edit))
+    expect(normalizeId(`https://doi.org/${encodeURIComponent(ids.movie)}`))
+      .toEqual(valid(ids.movie))
+    expect(encodeURIComponent(ids.movie)).toContain('%2F')
+  })
+
+  it('accepts URNs', () => {
+    expect(normalizeId(`urn:eidr:${ids.movie.replace('/', ':')}`))
+      .toEqual(valid(ids.movie))
+    expect(normalizeId(`URN:EIDR:${ids.party.replace('/', ':')}`))
+      .toEqual(valid(ids.party))
+  })
+
+  it('accepts IDs with missing dashes and whitespace', () => {
+    expect(normalizeId(ids.movie.replace(/-/g, ''))).toEqual(valid(ids.movie))
+    expect(normalizeId(' 10.5240/1A2B 3C4D-5E6F7081-92A30 '))
+      .toEqual(valid(ids.movie))
+    expect(normalizeId('10.5237/1a2b3c4d')).toEqual(valid(ids.party))
+  })
+
+  it('explains rejected IDs', () => {
+    expect(normalizeId(' ')).toEqual(
+      invalid('ID must be a non-empty string'),
+    )
+    expect(normalizeId(undefined as any)).toEqual(
+      invalid('ID must be a non-empty string'),
+    )
+    expect(normalizeId('10.5240%2')).toEqual(
+      invalid('Invalid URL encoding: 10.5240%2'),
+    )
+    expect(normalizeId('1A2B-3C4D')).toEqual(
+      invalid('Missing EIDR prefix: 1A2B-3C4D'),
+    )
+    expect(normalizeId('10.5240/1A2B-3C4D-5E6F-7081-92G3-0')).toEqual(
+      invalid(
+        'Invalid characters in content ID: 10.5240/1A2B-3C4D-5E6F-7081-92G3-0',
+      ),
+    )
+    expect(normalizeId('10.5240/1A2B-3C4D')).toEqual(invalid(
+      'Content ID must have 20 hexadecimal digits and a check character, ' +
+      'found 8 characters: 10.5240/1A2B-3C4D',
+    ))
+    expect(normalizeId('10.5240/1A2B-3C4D-5E6F-7081-92A3-1')).toEqual(
+      invalid('Check character mismatch: expected 0, found 1: ' +
+        '10.5240/1A2B-3C4D-5E6F-7081-92A3-1'),
+    )
+    expect(normalizeId('10.5237/1A2B-3C4D-5E')).toEqual(invalid(
+      'Party or service ID must have 8 hexadecimal digits: ' +
+      '10.5237/1A2B-3C4D-5E',
+    ))
+    expect(normalizeId('10.1000/182')).toEqual(
+      invalid('Unsupported EIDR prefix 10.1000: 10.1000/182'),
+    )
+  })
+})
@@ -0,0 +1,127 @@
+import http from 'http'
+import {
+  EIDRConnector,
+  apiVersions,
+  defaultApiVersion,
+  registerApiVersion,
+} from '../src'
+import { createApp, credentials, ids } from './helpers'
+
+describe('API versions', () => {
+  let api: http.Server
+  let xml: string
+  let versions: string[]
+  let endpoint: string
+
+  beforeAll(async () => {
+    api = http.createServer((req, res) => {
+      versions.push(String(req.headers['eidr-version']))
+      res.writeHead(200, { 'Content-Type': 'text/xml' })
+      res.end(xml)
+    })
+    await new Promise<void>((resolve) => api.listen(0, resolve))
+    const { port } = api.address() as { port: number }
+    endpoint = `http://localhost:${port}/EIDR/`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => api.close(resolve))
+  })
+
+  beforeEach(() => {
+    versions = []
+    // Response with qualified element names, for custom adapters
+    xml = `
+      <FullMetadata xmlns:eidr="http://www.eidr.org/schema">
+        <eidr:BaseObjectData>
+          <eidr:ID>${ids.movie}</eidr:ID>
+          <eidr:ResourceName lang="en">Abominable</eidr:ResourceName>
+          <eidr:AssociatedOrg organizationID="${ids.party}" role="producer">
+            <eidr:DisplayName>DreamWorks Animation</eidr:DisplayName>
+          </eidr:AssociatedOrg>
+          <eidr:Credits>
+            <eidr:Actor>
+              <eidr:DisplayName>Chloe Bennet</eidr:DisplayName>
+            </eidr:Actor>
+          </eidr:Credits>
+        </eidr:BaseObjectData>
+      </FullMetadata>
+    `.replace(/\n\s*/g, '')
+  })
+
+  function connector(options: Record<string, any> = {}) {
+    return new EIDRConnector(createApp(), {
+      ...credentials,
+      endpoint,
+      retries: 0,
+      ...options,
+    })
+  }
+
+  it('lists supported versions', () => {
+    expect(apiVersions()).toEqual(['2.6.0', '2.7.0', '2.7.1'])
+    expect(connector().info()).toMatchObject({
+      eidrApiVersion: defaultApiVersion,
+      availableApiVersions: ['2.6.0', '2.7.0', '2.7.1'],
+    })
+  })
+
+  it('validates requested versions', async () => {
+    await expect(connector().resolve(ids.movie, 'Full', undefined, '2.5.0'))
+      .rejects.toMatchObject({
+        status: 400,
+        message: 'EIDRConnector: Unsupported API version',
+        details: 'Unsupported API version: 2.5.0. ' +
+          'Supported versions are 2.6.0, 2.7.0, 2.7.1',
+      })
+    expect(() => connector({ apiVersion: 'latest' }))
+      .toThrow('Unsupported API version')
+    expect(versions).toEqual([])
+  })
+
+  it('sends the default version of the connector', async () => {
+    xml = xml.replace(/eidr:/g, '')
+    await connector({ apiVersion: '2.7.0' }).resolve(ids.movie)
+    await connector().resolve(ids.movie, 'Full', undefined, '2.6.0')
+    await connector().resolve(ids.movie)
+    expect(versions).toEqual(['2.7.0', '2.6.0', '2.7.1'])
+  })
+
+  it('returns responses of earlier versions unchanged', async () => {
+    xml = xml.replace(/eidr:/g, '')
+    const latest = await connector().resolve(ids.movie)
+    expect(latest).toMatchObject({
+      ID: ids.movie,
+      AssociatedOrg: [{ DisplayName: 'DreamWorks Animation' }],
+    })
+    for (const version of ['2.6.0', '2.7.0']) {
+      expect(await connector().resolve(ids.movie, 'Full', undefined, version))
+        .toEqual(latest)
+    }
+  })
+
+  it('registers versions', async () => {
+    const earlier = connector()
+    registerApiVersion({
+      version: '2.8.0',
+      normalize: (response: Record<string, any>) => ({
+        FullMetadata: {
+          BaseObjectData: {
+            ...response.FullMetadata['eidr:BaseObjectData'],
+            ID: ids.edit,
+          },
+        },
+      }),
+    })
+    expect(apiVersions()).toEqual(['2.6.0', '2.7.0', '2.7.1', '2.8.0'])
+    const eidr = connector({ apiVersion: '2.8.0' })
+    expect(await eidr.resolve(ids.movie)).toMatchObject({ ID: ids.edit })
+    expect(await earlier.resolve(ids.movie, 'Full', undefined, '2.8.0'))
+      .toMatchObject({ ID: ids.edit })
+    expect(versions).toEqual(['2.8.0', '2.8.0'])
+
+    registerApiVersion('2.10.0')
+    expect(apiVersions().pop()).toBe('2.10.0')
+    expect(() => registerApiVersion('2.8')).toThrow('Invalid API version: 2.8')
+  })
+})
@@ -0,0 +1,177 @@
+import fs from 'fs'
+import path from 'path'
+import { EIDRConnector, MockEIDRServer, WatchEvent } from '../src'
+import { defaultFixtures } from '../src/mock/server'
+import { diffRecord } from '../src/watch'
+import {
+  contentId,
+  createApp,
+  credentials,
+  ids,
+  startMock,
+} from './helpers'
+
+function fixture(id: string) {
+  const file = `${id.substring(8)}.xml`
+  return fs.readFileSync(path.join(defaultFixtures, 'content', file), 'utf8')
+}
+
+describe('diffRecord', () => {
+  const valid = { modified: '2020-01-01T00:00:00Z', status: 'valid' }
+
+  it('does not fire on the first poll', () => {
+    expect(diffRecord(ids.movie, undefined, valid)).toEqual([])
+  })
+
+  it('fires on modifications and status changes', () => {
+    const modified = { ...valid, modified: '2020-01-01T00:00:01Z' }
+    expect(diffRecord(ids.movie, valid, modified)).toEqual([
+      { type: 'modified', id: ids.movie, modified: modified.modified },
+    ])
+    expect(diffRecord(ids.movie, valid, { ...modified, status: 'deleted' }))
+      .toEqual([{
+        type: 'deleted',
+        id: ids.movie,
+        status: 'deleted',
+        previousStatus: 'valid',
+      }])
+    expect(diffRecord(ids.movie, valid, { ...modified, status: 'pending' }))
+      .toMatchObject([{ type: 'status', status: 'pending' }])
+  })
+
+  it('fires on aliases and missing records', () => {
+    expect(diffRecord(ids.movie, valid, { ...valid, aliasOf: ids.edit }))
+      .toEqual([{ type: 'aliased', id: ids.movie, aliasOf: ids.edit }])
+    expect(diffRecord(ids.movie, valid, { missing: true }))
+      .toEqual([{ type: 'deleted', id: ids.movie }])
+    expect(diffRecord(ids.movie, { missing: true }, { missing: true }))
+      .toEqual([])
+  })
+
+  it('fires on new children', () => {
+    expect(diffRecord(
+      ids.series,
+      { ...valid, children: [ids.season1] },
+      { ...valid, children: [ids.season1, ids.season2] },
+    )).toEqual([{ type: 'child', id: ids.season2, parent: ids.series }])
+  })
+})
+
+describe('on', () => {
+  let server: MockEIDRServer
+  let endpoint: string
+  let eidr: EIDRConnector
+
+  beforeEach(async () => {
+    ({ server, endpoint, eidr } = await startMock())
+  })
+
+  afterEach(async () => {
+    eidr.stop()
+    await server.stop()
+  })
+
+  it('fires events for modified and deleted records', async () => {
+    const events: WatchEvent[] = []
+    eidr.on({ ids: [ids.movie, ids.edit] }, (e: WatchEvent) => events.push(e))
+    expect(await eidr.poll()).toEqual([])
+
+    await server.addRecord(fixture(ids.movie))
+    await server.addRecord(fixture(ids.edit)
+      .replace('<Status>valid</Status>', '<Status>deleted</Status>'))
+    expect(await eidr.poll()).toHaveLength(2)
+    expect(events).toEqual([
+      { type: 'modified', id: ids.movie, modified: '2020-01-01T00:00:01Z' },
+      {
+        type: 'deleted',
+        id: ids.edit,
+        status: 'deleted',
+        previousStatus: 'valid',
+      },
+    ])
+
+    server.removeRecord(ids.movie)
+    expect(await eidr.poll()).toEqual([{ type: 'deleted', id: ids.movie }])
+    expect(await eidr.poll()).toEqual([])
+  })
+
+  it('fires events for new children', async () => {
+    const events: WatchEvent[] = []
+    eidr.on({ ids: [ids.series], children: true }, (e: WatchEvent) => {
+      events.push(e)
+    })
+    await eidr.poll()
+    const season3 = contentId('2B3C-4D5E-6F70-8192-FFF1')
+    await server.addRecord(fixture(ids.season2)
+      .replace(ids.season2, season3))
+    await eidr.poll()
+    expect(events).toEqual([
+      { type: 'child', id: season3, parent: ids.series },
+    ])
+  })
+
+  it('fires events for new query matches', async () => {
+    const events: WatchEvent[] = []
+    const event = eidr.on(
+      { query: '(/FullMetadata/BaseObjectData/ResourceName "Star Wars")' },
+      (e: WatchEvent) => events.push(e),
+    )
+    expect(await eidr.poll(event.id)).toEqual([])
+    const copy = contentId('3C4D-5E6F-7081-92A3-FFF2')
+    await server.addRecord(fixture(ids.starWars).replace(ids.starWars, copy))
+    await eidr.poll(event.id)
+    expect(events).toEqual([{ type: 'new', id: copy }])
+  })
+
+  it('keeps state across restarts', async () => {
+    const store = new Map<string, any>()
+    const first = new EIDRConnector(createApp(store), { endpoint })
+    const watch = first.on({ ids: [ids.movie] })
+    await first.poll()
+    await server.addRecord(fixture(ids.movie))
+    expect(await first.poll()).toHaveLength(1)
+    expect(store.has(`eidr-watch:${watch.id}`)).toBe(true)
+
+    const events: WatchEvent[] = []
+    const second = new EIDRConnector(createApp(store), { endpoint })
+    expect(second.on({ ids: [ids.movie] }, (e: WatchEvent) => events.push(e))
+      .id).toBe(watch.id)
+    await second.poll()
+    expect(events).toEqual([])
+    await server.addRecord(fixture(ids.movie))
+    await second.poll()
+    expect(events).toMatchObject([{ type: 'modified', id: ids.movie }])
+  })
+
+  it('polls while started', async () => {
+    const store = new Map<string, any>()
+    const watcher = new EIDRConnector(createApp(store), {
+      ...credentials,
+      endpoint,
+      watchInterval: 10,
+    })
+    const watch = watcher.on({ ids: [ids.movie] })
+    watcher.start()
+    for (let i = 0; i < 100 && !store.has(`eidr-watch:${watch.id}`); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+    watcher.stop()
+    expect(store.get(`eidr-watch:${watch.id}`)).toEqual({
+      records: {
+        [ids.movie]: { modified: '2020-01-01T00:00:00Z', status: 'valid' },
+      },
+    })
+  })
+
+  it('rejects invalid watches', () => {
+    expect(() => eidr.on({ ids: ['not-an-id'] }))
+      .toThrow('EIDRConnector: Invalid ID')
+    expect(() => eidr.on({ ids: [ids.movie], interval: 0 }))
+      .toThrow('EIDRConnector: Invalid watch')
+    expect(() => eidr.on({} as any)).toThrow('EIDRConnector: Invalid watch')
+  })
+
+  it('rejects unknown events', async () => {
+    await expect(eidr.poll('unknown')).rejects.toMatchObject({ status: 404 })
+  })
+})